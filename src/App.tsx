@@ -1,10 +1,60 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { ArchiveView } from './components/ArchiveView'
+import { AuthGate } from './components/AuthGate'
 import { ChatContainer } from './components/ChatContainer'
+import { ConversationSidebar } from './components/ConversationSidebar'
+import { DebugDrawer } from './components/DebugDrawer'
+import { profileStore } from './services/profiles'
+import { router } from './services/router'
 import styles from './App.module.css'
 
 function App() {
+  // 切换后端时重新创建会话
+  const { activeId } = useSyncExternalStore(profileStore.subscribe, profileStore.getSnapshot)
+  const route = useSyncExternalStore(router.subscribe, router.getSnapshot)
+
+  // 地址中的会话属于切换前的后端配置，切换后开始新对话
+  const routeProfileRef = useRef(activeId)
+  const conversationId = routeProfileRef.current === activeId ? route.conversationId : undefined
+  useEffect(() => {
+    if (routeProfileRef.current === activeId) return
+    routeProfileRef.current = activeId
+    router.navigate({})
+  }, [activeId])
+
+  const handleConversationCreated = (id: string) => {
+    // 新对话页面创建的会话替换当前地址，返回时不会再次创建
+    router.navigate({ conversationId: id }, { replace: !router.getSnapshot().conversationId })
+  }
+
   return (
     <div className={styles.app}>
-      <ChatContainer />
+      <AuthGate>
+        <ConversationSidebar
+          key={`sidebar-${activeId}`}
+          activeId={conversationId}
+          activeArchiveId={route.archiveId}
+          onSelect={(id) => router.navigate({ conversationId: id })}
+          onNew={() => router.navigate({})}
+          onOpenMessage={(id, messageId) => router.navigate({ conversationId: id, messageId })}
+          onOpenArchive={(id) => router.navigate({ archiveId: id })}
+        />
+        {route.archiveId ? (
+          <ArchiveView
+            archiveId={route.archiveId}
+            messageId={route.messageId}
+            onNew={() => router.navigate({})}
+          />
+        ) : (
+          <ChatContainer
+            key={activeId}
+            conversationId={conversationId}
+            messageId={route.messageId}
+            onConversationCreated={handleConversationCreated}
+          />
+        )}
+      </AuthGate>
+      <DebugDrawer />
     </div>
   )
 }
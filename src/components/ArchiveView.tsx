@@ -0,0 +1,98 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Archive, Loader2, Plus } from 'lucide-react'
+import { ChatInterface } from './ChatInterface'
+import { ExportMenu } from './ExportMenu'
+import { archiveStore } from '@/services/archives'
+import type { ConversationArchive } from '@/services/archives'
+import { downloadConversation } from '@/services/conversationExport'
+import type { ExportFormat } from '@/services/conversationExport'
+import { resolveThread } from '@/services/messageTree'
+import styles from './ArchiveView.module.css'
+
+interface ArchiveViewProps {
+  archiveId: string
+  // 需要定位的消息（地址中的 #message-id）
+  messageId?: string
+  onNew: () => void
+}
+
+/**
+ * 显示导入的会话：只读，不能发送消息或写入、构建其中的 XML，可再次导出
+ *
+ * 导入的是完整的消息树，与会话中一样只显示一个分支，可在分支点切换。
+ */
+export function ArchiveView({ archiveId, messageId, onNew }: ArchiveViewProps) {
+  const [archive, setArchive] = useState<ConversationArchive | null>()
+  // 当前显示的分支，默认显示需要定位的消息所在的分支
+  const [leafId, setLeafId] = useState(messageId)
+
+  useEffect(() => {
+    let cancelled = false
+    setArchive(undefined)
+    archiveStore.get(archiveId).then((result) => {
+      if (!cancelled) setArchive(result ?? null)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [archiveId])
+
+  const thread = useMemo(
+    () => resolveThread(archive?.data.messages ?? [], leafId),
+    [archive, leafId]
+  )
+
+  // 与会话中一致：JSON 导出完整的消息树，Markdown 与 HTML 只导出当前显示的分支
+  const handleExport = (format: ExportFormat) => {
+    if (!archive) return
+    downloadConversation(
+      format,
+      archive.data.conversation,
+      format === 'json' ? archive.data.messages : thread.messages
+    )
+  }
+
+  if (archive === undefined) {
+    return (
+      <div className={styles.placeholder}>
+        <Loader2 className={styles.spin} size={24} />
+      </div>
+    )
+  }
+
+  if (archive === null) {
+    return (
+      <div className={styles.placeholder}>
+        <p>导入的会话不存在或已删除</p>
+        <button className={styles.newButton} onClick={onNew}>
+          <Plus size={16} />
+          <span>新对话</span>
+        </button>
+      </div>
+    )
+  }
+
+  const { conversation, exported_at } = archive.data
+
+  return (
+    <div className={styles.wrapper}>
+      <div className={styles.header}>
+        <div className={styles.badge} title={`导出于 ${new Date(exported_at).toLocaleString()}`}>
+          <Archive size={14} />
+          <span>只读</span>
+        </div>
+        <div className={styles.title} title={conversation.title}>
+          {conversation.title || '新对话'}
+        </div>
+        <ExportMenu onExport={handleExport} />
+      </div>
+
+      <ChatInterface
+        messages={thread.messages}
+        anchorMessageId={messageId}
+        branches={thread.branches}
+        onSelectBranch={setLeafId}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react'
+import type { FormEvent, ReactNode } from 'react'
+import { Loader2, LogIn, RotateCw } from 'lucide-react'
+import { authSession } from '@/services/auth'
+import { chatApi } from '@/services/chatApi'
+import { getErrorMessage } from '@/services/errors'
+import { BackendSwitcher } from './BackendSwitcher'
+import styles from './AuthGate.module.css'
+
+interface AuthGateProps {
+  children: ReactNode
+}
+
+/**
+ * 登录拦截：确认登录状态后再渲染子组件，未登录时显示登录页
+ */
+export function AuthGate({ children }: AuthGateProps) {
+  const { status } = useSyncExternalStore(authSession.subscribe, authSession.getState)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+
+  const restore = useCallback(async () => {
+    setRestoreError(null)
+    try {
+      await chatApi.restoreSession()
+    } catch (err) {
+      // 网络错误等无法确认登录状态，保留本地状态并允许重试
+      setRestoreError(getErrorMessage(err, '无法确认登录状态'))
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'unknown') restore()
+  }, [status, restore])
+
+  if (status === 'authenticated') return <>{children}</>
+
+  if (status === 'anonymous') return <LoginScreen />
+
+  return (
+    <div className={styles.container}>
+      {restoreError ? (
+        <>
+          <p className={styles.error}>{restoreError}</p>
+          <button className={styles.secondaryButton} onClick={restore}>
+            <RotateCw size={14} />
+            <span>重试</span>
+          </button>
+        </>
+      ) : (
+        <>
+          <Loader2 className={styles.spinner} size={40} />
+          <p>正在确认登录状态...</p>
+        </>
+      )}
+    </div>
+  )
+}
+
+function LoginScreen() {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!username.trim() || !password || submitting) return
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      // 成功后 authSession 状态变化，AuthGate 会渲染聊天界面
+      await chatApi.login(username.trim(), password)
+    } catch (err) {
+      setError(getErrorMessage(err, '登录失败'))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className={styles.container}>
+      <BackendSwitcher disabled={submitting} />
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <h1 className={styles.title}>登录</h1>
+        <label className={styles.field}>
+          <span>用户名</span>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            disabled={submitting}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>密码</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            disabled={submitting}
+          />
+        </label>
+        {error && <p className={styles.error}>{error}</p>}
+        <button
+          type="submit"
+          className={styles.submitButton}
+          disabled={submitting || !username.trim() || !password}
+        >
+          {submitting ? <Loader2 className={styles.spinner} size={16} /> : <LogIn size={16} />}
+          <span>{submitting ? '登录中...' : '登录'}</span>
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react'
+import type { FormEvent } from 'react'
+import { Server, ChevronDown, Check, Pencil, Trash2, Plus, RotateCw } from 'lucide-react'
+import { clsx } from 'clsx'
+import { chatApi } from '@/services/chatApi'
+import type { HealthCheckResult } from '@/services/chatApi'
+import { DEFAULT_PROFILE_ID, profileStore } from '@/services/profiles'
+import type { BackendProfile } from '@/services/profiles'
+import {
+  CHAT_TRANSPORT_LABELS,
+  getChatTransportSetting,
+  setChatTransportSetting
+} from '@/services/transport'
+import type { ChatTransportSetting } from '@/services/transport'
+import styles from './BackendSwitcher.module.css'
+
+type HealthState = HealthCheckResult | 'checking'
+
+interface ProfileDraft {
+  id?: string
+  name: string
+  baseUrl: string
+}
+
+interface BackendSwitcherProps {
+  disabled?: boolean
+}
+
+function getHealthTitle(health: HealthState | undefined): string {
+  if (!health) return '未检查'
+  if (health === 'checking') return '检查中'
+  return health.ok ? `可用（${health.latency} ms）` : `不可用：${health.message}`
+}
+
+function HealthDot({ health }: { health: HealthState | undefined }) {
+  return (
+    <span
+      className={clsx(
+        styles.dot,
+        health === 'checking' && styles.checking,
+        health && health !== 'checking' && (health.ok ? styles.healthy : styles.unhealthy)
+      )}
+      title={getHealthTitle(health)}
+    />
+  )
+}
+
+/**
+ * 后端配置切换：选择、增删改配置并显示各配置的健康状态
+ */
+export function BackendSwitcher({ disabled }: BackendSwitcherProps) {
+  const { profiles, activeId } = useSyncExternalStore(
+    profileStore.subscribe,
+    profileStore.getSnapshot
+  )
+  const [open, setOpen] = useState(false)
+  const [health, setHealth] = useState<Record<string, HealthState>>({})
+  const [draft, setDraft] = useState<ProfileDraft | null>(null)
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [transport, setTransport] = useState(getChatTransportSetting)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const active = profiles.find((item) => item.id === activeId) ?? profiles[0]
+
+  const checkProfile = useCallback(async (profile: BackendProfile) => {
+    setHealth((prev) => ({ ...prev, [profile.id]: 'checking' }))
+    const result = await chatApi.checkHealth(profile.baseUrl)
+    setHealth((prev) => ({ ...prev, [profile.id]: result }))
+  }, [])
+
+  const checkAll = useCallback(() => {
+    profileStore.getSnapshot().profiles.forEach(checkProfile)
+  }, [checkProfile])
+
+  // 当前配置切换后立即检查一次
+  useEffect(() => {
+    checkProfile(profileStore.getActive())
+  }, [activeId, checkProfile])
+
+  useEffect(() => {
+    if (open) checkAll()
+  }, [open, checkAll])
+
+  // 点击面板外部时收起
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+        setDraft(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSelect = (id: string) => {
+    profileStore.select(id)
+    setOpen(false)
+  }
+
+  const handleEdit = (draftValue: ProfileDraft) => {
+    setDraft(draftValue)
+    setDraftError(null)
+  }
+
+  const handleDelete = (profile: BackendProfile) => {
+    if (!window.confirm(`确定删除后端配置「${profile.name}」吗？`)) return
+    profileStore.remove(profile.id)
+  }
+
+  const handleTransportChange = (value: ChatTransportSetting) => {
+    setChatTransportSetting(value)
+    setTransport(value)
+  }
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault()
+    if (!draft) return
+    try {
+      const saved = profileStore.save(draft)
+      setDraft(null)
+      checkProfile(saved)
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : '保存失败')
+    }
+  }
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <button
+        className={styles.trigger}
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        title={active.baseUrl}
+      >
+        <HealthDot health={health[active.id]} />
+        <Server size={14} />
+        <span className={styles.triggerName}>{active.name}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className={styles.panel}>
+          <div className={styles.panelHeader}>
+            <span>后端配置</span>
+            <button className={styles.iconButton} onClick={checkAll} title="重新检查">
+              <RotateCw size={14} />
+            </button>
+          </div>
+
+          <ul className={styles.list}>
+            {profiles.map((profile) => (
+              <li
+                key={profile.id}
+                className={clsx(styles.item, profile.id === activeId && styles.activeItem)}
+                onClick={() => handleSelect(profile.id)}
+              >
+                <HealthDot health={health[profile.id]} />
+                <div className={styles.itemInfo}>
+                  <span className={styles.itemName}>{profile.name}</span>
+                  <span className={styles.itemUrl}>{profile.baseUrl}</span>
+                  <span className={styles.itemHealth}>{getHealthTitle(health[profile.id])}</span>
+                </div>
+                {profile.id === activeId && <Check size={14} className={styles.check} />}
+                {profile.id !== DEFAULT_PROFILE_ID && (
+                  <div className={styles.itemActions} onClick={(e) => e.stopPropagation()}>
+                    <button
+                      className={styles.iconButton}
+                      onClick={() => handleEdit(profile)}
+                      title="编辑"
+                    >
+                      <Pencil size={13} />
+                    </button>
+                    <button
+                      className={styles.iconButton}
+                      onClick={() => handleDelete(profile)}
+                      title="删除"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {draft ? (
+            <form className={styles.form} onSubmit={handleSave}>
+              <input
+                placeholder="名称，如 预发环境"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                autoFocus
+              />
+              <input
+                placeholder="地址，如 http://10.0.0.8:8000"
+                value={draft.baseUrl}
+                onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+              />
+              {draftError && <p className={styles.error}>{draftError}</p>}
+              <div className={styles.formActions}>
+                <button type="button" className={styles.textButton} onClick={() => setDraft(null)}>
+                  取消
+                </button>
+                <button type="submit" className={styles.primaryButton}>
+                  保存
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              className={styles.addButton}
+              onClick={() => handleEdit({ name: '', baseUrl: 'http://' })}
+            >
+              <Plus size={14} />
+              <span>添加后端</span>
+            </button>
+          )}
+
+          <label className={styles.transport}>
+            <span>聊天连接方式</span>
+            <select
+              value={transport}
+              onChange={(e) => handleTransportChange(e.target.value as ChatTransportSetting)}
+            >
+              {(Object.keys(CHAT_TRANSPORT_LABELS) as ChatTransportSetting[]).map((key) => (
+                <option key={key} value={key}>
+                  {CHAT_TRANSPORT_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
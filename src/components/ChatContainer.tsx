@@ -1,27 +1,244 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { Plus, Square, Brain, X, Loader2 } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react'
+import { Plus, Square, Brain, X, Loader2, RotateCw, LogOut, CloudOff } from 'lucide-react'
 import { clsx } from 'clsx'
 import { ChatInterface } from './ChatInterface'
-import type { Message, Attachment } from '@/types/chat'
+import { BackendSwitcher } from './BackendSwitcher'
+import { ExportMenu } from './ExportMenu'
+import type {
+  Message,
+  MessageAction,
+  MessagePart,
+  Attachment,
+  SSECallbacks,
+  SSEStartData,
+  XmlArtifactState,
+} from '@/types/chat'
+import { authSession } from '@/services/auth'
 import { chatApi } from '@/services/chatApi'
+import type { ConversationDetail, ConversationFile, UploadFileOptions } from '@/services/chatApi'
+import { connectivity } from '@/services/connectivity'
+import { downloadConversation } from '@/services/conversationExport'
+import type { ExportFormat } from '@/services/conversationExport'
+import { createLogger } from '@/services/logger'
+import { conversationStore } from '@/services/conversations'
+import {
+  appendContentParts,
+  createMessageParts,
+  setXmlArtifactState,
+  upsertMessagePart,
+} from '@/services/messageParts'
+import { linkMessages, removeMessage, renameMessage, resolveThread } from '@/services/messageTree'
+import { getErrorMessage, isAbortError, isRetryableError, NetworkError } from '@/services/errors'
+import { outbox } from '@/services/outbox'
+import type { OutboxAttachment, OutboxItem } from '@/services/outbox'
+import { profileStore } from '@/services/profiles'
+import { router } from '@/services/router'
+import { tabSync } from '@/services/tabSync'
 import styles from './ChatContainer.module.css'
 
+const log = createLogger('chat')
+
+interface ErrorState {
+  message: string
+  // 错误可重试时提供的重试操作
+  retry?: () => void
+}
+
 interface ChatContainerProps {
   conversationId?: string
+  // 打开会话后定位到的消息
+  messageId?: string
   onConversationCreated?: (id: string) => void
 }
 
+// 转换为离线消息队列中的附件，未上传的附件保存文件内容
+function toOutboxAttachments(attachments: Attachment[] = []): OutboxAttachment[] {
+  return attachments.map(({ id, name, size, type, fileId, file }) => ({
+    id,
+    name,
+    size,
+    type,
+    fileId,
+    blob: fileId ? undefined : file,
+  }))
+}
+
+// 由排队的消息还原界面上的用户消息
+function fromOutboxItem(item: OutboxItem): Message {
+  return {
+    id: item.id,
+    role: 'user',
+    content: item.content,
+    parts: createMessageParts(item.content),
+    timestamp: item.createdAt,
+    parentId: item.parentId,
+    temporaryId: true,
+    attachments: item.attachments.map(({ blob, ...attachment }) => ({
+      ...attachment,
+      file: blob ? new File([blob], attachment.name, { type: attachment.type }) : undefined,
+    })),
+  }
+}
+
+// 历史消息的 ID，较早的后端不返回 id 时按位置生成
+function getHistoryMessageIds(detail: ConversationDetail): string[] {
+  return detail.messages.map((msg, index) => msg.id ?? `${detail.conversation_id}-${index}`)
+}
+
+// 会话文件关联到用户消息：优先按 file_ids，未标注的文件归到上传之后的第一条用户消息
+function getHistoryAttachments(detail: ConversationDetail): Attachment[][] {
+  const toAttachment = (file: ConversationFile): Attachment => ({
+    id: file.id,
+    name: file.original_name,
+    size: file.file_size,
+    type: '',
+    fileId: file.id,
+    uploadStatus: 'done',
+  })
+  const filesById = new Map(detail.files.map((file) => [file.id, file]))
+  const attachments = detail.messages.map((msg) =>
+    (msg.file_ids ?? [])
+      .map((id) => filesById.get(id))
+      .filter((file): file is ConversationFile => !!file)
+      .map(toAttachment)
+  )
+  const linked = new Set(detail.messages.flatMap((msg) => msg.file_ids ?? []))
+  detail.files
+    .filter((file) => !linked.has(file.id))
+    .forEach((file) => {
+      const index = detail.messages.findIndex(
+        (msg) => msg.role === 'user' && msg.timestamp >= file.upload_time
+      )
+      if (index !== -1) attachments[index].push(toAttachment(file))
+    })
+  return attachments
+}
+
+// 会话详情转换为界面消息，该会话中尚未送达的消息排在最后；
+// 后端未返回 parent_id 时按顺序连接为一条消息链
+function toConversationMessages(detail: ConversationDetail): Message[] {
+  const ids = getHistoryMessageIds(detail)
+  const attachments = getHistoryAttachments(detail)
+  const queued = outbox
+    .getSnapshot()
+    .filter((item) => item.conversationId === detail.conversation_id)
+    .map(fromOutboxItem)
+  return linkMessages([
+    ...detail.messages.map((msg, index) => ({
+      id: ids[index],
+      parentId: msg.parent_id,
+      role: msg.role,
+      content: msg.content,
+      parts: (msg.artifacts ?? []).reduce(
+        (parts, artifact) => setXmlArtifactState(parts, artifact.part_id, artifact.state),
+        createMessageParts(msg.content, msg.role === 'assistant')
+      ),
+      timestamp: msg.timestamp,
+      attachments: attachments[index].length > 0 ? attachments[index] : undefined,
+      thinkingContent: msg.thinking || undefined,
+    })),
+    ...queued,
+  ])
+}
+
+// XML 片段的处理进度，用于判断消息是否有变化
+function getArtifactStates(message: Message): string {
+  return (message.parts ?? [])
+    .map((part) => (part.type === 'xml' ? `${part.id}:${part.state ?? ''}` : ''))
+    .join(',')
+}
+
+// 用服务端数据更新缓存的消息：未变化的消息保留原对象；
+// 缓存中有、服务端已没有的消息移除，显示缓存期间本地新增的消息（正在发送、流式接收中）保留在末尾
+function mergeMessages(current: Message[], next: Message[], cachedIds: string[]): Message[] {
+  const currentById = new Map(current.map((msg) => [msg.id, msg]))
+  const nextIds = new Set(next.map((msg) => msg.id))
+  const merged = next.map((msg) => {
+    const existing = currentById.get(msg.id)
+    return existing &&
+      existing.role === msg.role &&
+      existing.parentId === msg.parentId &&
+      existing.content === msg.content &&
+      existing.thinkingContent === msg.thinkingContent &&
+      existing.attachments?.length === msg.attachments?.length &&
+      getArtifactStates(existing) === getArtifactStates(msg)
+      ? existing
+      : msg
+  })
+  const local = current.filter((msg) => !nextIds.has(msg.id) && !cachedIds.includes(msg.id))
+  return [...merged, ...local]
+}
+
+// 补传缺少 file_id 的附件；排队中的消息同时记录 file_id，重发时不再重复上传
+async function uploadAttachments(
+  targetConversationId: string,
+  message: Message
+): Promise<string[]> {
+  const attachments = await Promise.all(
+    (message.attachments ?? []).map(async (attachment) => {
+      if (attachment.fileId || !attachment.file) return attachment
+      const result = await chatApi.uploadFile(targetConversationId, attachment.file)
+      return { ...attachment, fileId: result.file_id }
+    })
+  )
+  if (outbox.get(message.id)) {
+    await outbox.update(message.id, { attachments: toOutboxAttachments(attachments) })
+  }
+  return attachments.flatMap((attachment) => (attachment.fileId ? [attachment.fileId] : []))
+}
+
+// 后台发送其他会话中排队的消息（不显示回复）
+async function sendInBackground(queued: OutboxItem): Promise<void> {
+  // 其他标签页可能已发送或正在发送同一条消息
+  const item = await outbox.claim(queued.id)
+  if (!item) return
+  try {
+    const fileIds = await uploadAttachments(item.conversationId, fromOutboxItem(item))
+    await chatApi.sendMessage(
+      item.conversationId,
+      item.content,
+      fileIds.length > 0 ? fileIds : undefined,
+      { enableThinking: item.enableThinking, parentId: item.parentId }
+    )
+    await outbox.remove(item.id)
+  } catch (err) {
+    if (err instanceof NetworkError) {
+      connectivity.reportOffline()
+    }
+    await outbox.update(item.id, {
+      status: 'failed',
+      error: getErrorMessage(err, '发送消息失败'),
+      attempts: item.attempts + 1,
+    })
+  }
+}
+
 export function ChatContainer({
   conversationId: propConversationId,
+  messageId,
   onConversationCreated
 }: ChatContainerProps) {
   const [conversationId, setConversationId] = useState<string | undefined>(propConversationId)
   const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorState | null>(null)
   const [isInitializing, setIsInitializing] = useState(true)
   const [abortController, setAbortController] = useState<AbortController | null>(null)
   const [enableThinking, setEnableThinking] = useState(false)
+  const [title, setTitle] = useState<string>()
+  // 当前显示的分支中的某条消息，未指定时显示最新的分支
+  const [leafId, setLeafId] = useState<string>()
+  // 已按链接切换过分支的消息 ID
+  const anchoredLeafRef = useRef<string>()
+  const { user } = useSyncExternalStore(authSession.subscribe, authSession.getState)
+  const { online } = useSyncExternalStore(connectivity.subscribe, connectivity.getSnapshot)
+  const queuedItems = useSyncExternalStore(outbox.subscribe, outbox.getSnapshot)
+  const { conversations } = useSyncExternalStore(
+    conversationStore.subscribe,
+    conversationStore.getSnapshot
+  )
+  // 切换后端配置时组件会重新创建，这里取创建时的配置即可
+  const [profileId] = useState(() => profileStore.getActive().id)
 
   // 使用 ref 存储回调，避免作为依赖项
   const onConversationCreatedRef = useRef(onConversationCreated)
@@ -30,183 +247,773 @@ export function ChatContainer({
   // 使用 ref 存储当前消息 ID，避免闭包问题
   const currentMessageIdRef = useRef<string | null>(null)
 
-  // 防止 StrictMode 导致的重复请求
-  const isInitializedRef = useRef(false)
+  // 重试发送时引用最新的 submitMessage
+  const sendMessageRef =
+    useRef<
+      (
+        content: string,
+        attachments: Attachment[] | undefined,
+        parentId: string | null
+      ) => Promise<void>
+    >()
 
-  // 初始化会话
-  useEffect(() => {
-    if (isInitializedRef.current) return
-    isInitializedRef.current = true
+  // 最近一次请求打开的会话（'' 表示新会话），防止 StrictMode 导致的重复请求
+  const requestedIdRef = useRef<string | null>(null)
+
+  // 每次打开会话递增，切换后才返回的旧请求结果会被丢弃
+  const openSeqRef = useRef(0)
 
-    const initConversation = async () => {
-      if (propConversationId) {
+  // 切换会话时中止正在接收的回复
+  const abortControllerRef = useRef(abortController)
+  abortControllerRef.current = abortController
+
+  // 展示错误，可重试的 ApiError 附带重试按钮
+  const showError = useCallback((err: unknown, fallback: string, retry?: () => void) => {
+    setError({
+      message: getErrorMessage(err, fallback),
+      retry: retry && isRetryableError(err) ? retry : undefined,
+    })
+  }, [])
+
+  // 打开已有会话，未指定时创建新会话
+  const openConversation = useCallback(
+    async (targetId?: string) => {
+      const seq = ++openSeqRef.current
+      const isStale = () => seq !== openSeqRef.current
+      abortControllerRef.current?.abort()
+      setMessages([])
+      setLeafId(undefined)
+      anchoredLeafRef.current = undefined
+      setError(null)
+      setTitle(undefined)
+
+      if (targetId) {
+        setConversationId(targetId)
+        // 先显示本地缓存，再在后台获取最新数据
+        const [cached] = await Promise.all([
+          chatApi.getCachedConversation(targetId),
+          outbox.ready(),
+        ])
+        if (isStale()) return
+        if (cached) {
+          setMessages(toConversationMessages(cached.data))
+          setTitle(cached.data.title)
+          setIsInitializing(false)
+        }
         try {
-          setIsInitializing(true)
-          const detail = await chatApi.getConversation(propConversationId)
-          setMessages(
-            detail.messages.map((msg) => ({
-              id: `${detail.conversation_id}-${msg.timestamp}`,
-              role: msg.role,
-              content: msg.content,
-              timestamp: msg.timestamp,
-            }))
+          if (!cached) setIsInitializing(true)
+          const detail = await chatApi.getConversation(targetId)
+          if (isStale()) return
+          const next = toConversationMessages(detail)
+          setMessages((prev) =>
+            cached ? mergeMessages(prev, next, getHistoryMessageIds(cached.data)) : next
           )
+          setTitle(detail.title)
+          conversationStore.update(targetId, {
+            title: detail.title,
+            message_count: detail.messages.length,
+          })
         } catch (err) {
-          setError(err instanceof Error ? err.message : '加载会话失败')
+          if (isStale()) return
+          // 有缓存时继续显示缓存内容，同时提示可重试
+          showError(err, '加载会话失败', () => openConversation(targetId))
         } finally {
-          setIsInitializing(false)
+          if (!isStale()) setIsInitializing(false)
         }
       } else {
         try {
           setIsInitializing(true)
+          setConversationId(undefined)
           const result = await chatApi.createConversation('新对话')
+          if (isStale()) return
           setConversationId(result.conversation_id)
+          setTitle(result.title)
+          conversationStore.add({
+            id: result.conversation_id,
+            title: result.title,
+            created_at: Date.now(),
+            message_count: 0,
+          })
+          // 通知外部后 conversationId 属性会变为新会话，无需重新加载
+          requestedIdRef.current = result.conversation_id
           onConversationCreatedRef.current?.(result.conversation_id)
         } catch (err) {
-          setError(err instanceof Error ? err.message : '创建会话失败')
+          if (isStale()) return
+          showError(err, '创建会话失败', () => openConversation())
         } finally {
-          setIsInitializing(false)
+          if (!isStale()) setIsInitializing(false)
         }
       }
+    },
+    [showError]
+  )
+
+  // 重新获取当前会话并合并，已不在服务端的消息移除，排队中的消息保留
+  const refreshConversation = useCallback(async (targetId: string) => {
+    const seq = openSeqRef.current
+    try {
+      const detail = await chatApi.getConversation(targetId)
+      // 其他标签页修改了离线消息队列时，等待重新读取后再合并排队的消息
+      await outbox.ready()
+      if (seq !== openSeqRef.current) return
+      const next = toConversationMessages(detail)
+      setMessages((prev) => mergeMessages(prev, next, prev.map((msg) => msg.id)))
+      setTitle(detail.title)
+    } catch (err) {
+      log.debug('同步会话失败', err)
     }
+  }, [])
 
-    initConversation()
-  }, [propConversationId])
+  // 通知其他标签页当前会话已变化
+  const notifyTabs = useCallback(() => {
+    if (!conversationId) return
+    tabSync.publish({ type: 'conversation-changed', profileId, conversationId })
+  }, [conversationId, profileId])
 
-  // 发送消息
-  const handleSendMessage = useCallback(
-    async (content: string, attachments?: Attachment[]) => {
-      if (!conversationId) {
-        setError('会话未初始化')
-        return
+  // 其他标签页修改了当前会话（或其中排队的消息）时重新获取；正在接收回复时等结束后再获取
+  const [remoteChanged, setRemoteChanged] = useState(false)
+  useEffect(
+    () =>
+      tabSync.subscribe((message) => {
+        if (
+          (message.type === 'conversation-changed' || message.type === 'outbox-changed') &&
+          message.profileId === profileId &&
+          message.conversationId === conversationId
+        ) {
+          setRemoteChanged(true)
+        }
+      }),
+    [conversationId, profileId]
+  )
+  useEffect(() => {
+    if (!remoteChanged || isLoading || !conversationId) return
+    setRemoteChanged(false)
+    refreshConversation(conversationId)
+  }, [remoteChanged, isLoading, conversationId, refreshConversation])
+
+  // conversationId 属性变化时切换会话
+  useEffect(() => {
+    const requestedId = propConversationId ?? ''
+    if (requestedIdRef.current === requestedId) return
+    requestedIdRef.current = requestedId
+    openConversation(propConversationId)
+  }, [propConversationId, openConversation])
+
+  // 卸载（如切换后端配置）时中止正在接收的回复
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  // 结束流式消息：保留已收到的部分内容，空消息直接移除；
+  // truncated 为回复未生成完整的原因，只在后端已接收时传入，可继续生成
+  const settleAssistantMessage = (messageId: string, truncated?: Message['truncated']) => {
+    setMessages((prev) =>
+      prev.flatMap((msg) => {
+        if (msg.id !== messageId) return [msg]
+        if (!msg.content && !msg.thinkingContent) return []
+        return [{ ...msg, loading: false, statusText: undefined, truncated }]
+      })
+    )
+  }
+
+  // 更新正在接收的回复
+  const updateCurrentMessage = (update: (msg: Message) => Message) => {
+    const currentId = currentMessageIdRef.current
+    if (!currentId) return
+    setMessages((prev) => prev.map((msg) => (msg.id === currentId ? update(msg) : msg)))
+  }
+
+  // 流式接收回复的回调：start 之后的事件都作用于 currentMessageIdRef 对应的回复，
+  // 收到任何事件即调用 onAccepted
+  const createReplyCallbacks = (
+    startedAt: number,
+    onAccepted: () => void,
+    onStart: (data: SSEStartData) => void
+  ): SSECallbacks => ({
+    onStart: (data) => {
+      onAccepted()
+      currentMessageIdRef.current = data.message_id
+      onStart(data)
+    },
+    onChunk: (chunk, thinking) => {
+      onAccepted()
+      const currentId = currentMessageIdRef.current
+      if (!currentId) return
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === currentId
+            ? thinking
+              ? {
+                  ...msg,
+                  thinkingContent: (msg.thinkingContent || '') + chunk,
+                  loading: false,
+                }
+              : {
+                  ...msg,
+                  content: msg.content + chunk,
+                  parts: appendContentParts(msg.parts ?? [], msg.content, chunk, true),
+                  loading: false,
+                  statusText: undefined,
+                }
+            : msg
+        )
+      )
+    },
+    onEnd: (data) => {
+      const currentId = currentMessageIdRef.current
+      if (!currentId) return
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === currentId || msg.id === data.message_id
+            ? {
+                ...msg,
+                id: data.message_id,
+                loading: false,
+                statusText: undefined,
+                truncated: undefined,
+                // 服务端未提供耗时时使用客户端计时
+                usage: msg.usage && {
+                  ...msg.usage,
+                  latency: msg.usage.latency ?? Date.now() - startedAt,
+                },
+              }
+            : msg
+        )
+      )
+    },
+    onError: (error) => {
+      setError({ message: error })
+      const currentId = currentMessageIdRef.current
+      if (!currentId) return
+      settleAssistantMessage(currentId, 'error')
+    },
+    onReconnecting: () => {
+      const currentId = currentMessageIdRef.current
+      if (!currentId) return
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === currentId ? { ...msg, statusText: '连接中断，重新连接中...' } : msg
+        )
+      )
+    },
+    onReconnected: () => {
+      const currentId = currentMessageIdRef.current
+      if (!currentId) return
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === currentId && !msg.loading ? { ...msg, statusText: undefined } : msg
+        )
+      )
+    },
+    onStatus: (data) => {
+      updateCurrentMessage((msg) => ({ ...msg, statusText: data.message }))
+    },
+    onToolCall: (data) => {
+      updateCurrentMessage((msg) => ({
+        ...msg,
+        loading: false,
+        parts: upsertMessagePart(msg.parts ?? [], {
+          type: 'tool-call',
+          id: `tool-${data.id}`,
+          callId: data.id,
+          name: data.name,
+          arguments: data.arguments,
+          status: 'running',
+        }),
+      }))
+    },
+    onToolResult: (data) => {
+      updateCurrentMessage((msg) => ({
+        ...msg,
+        parts: msg.parts?.map((part) =>
+          part.type === 'tool-call' && part.callId === data.id
+            ? {
+                ...part,
+                status: data.error ? 'error' : 'success',
+                result: data.result,
+                error: data.error,
+              }
+            : part
+        ),
+      }))
+    },
+    onUsage: (data) => {
+      updateCurrentMessage((msg) => ({
+        ...msg,
+        usage: {
+          promptTokens: data.prompt_tokens,
+          completionTokens: data.completion_tokens,
+          totalTokens: data.total_tokens ?? data.prompt_tokens + data.completion_tokens,
+          latency: data.latency_ms,
+        },
+      }))
+    },
+    onTitle: (data) => {
+      if (!conversationId) return
+      if (!data.conversation_id || data.conversation_id === conversationId) {
+        setTitle(data.title)
+        conversationStore.update(conversationId, { title: data.title })
       }
+    },
+  })
 
-      const userMessage: Message = {
-        id: `user-${Date.now()}`,
-        role: 'user',
-        content,
-        timestamp: Date.now(),
-        attachments,
+  // 放入离线消息队列
+  const enqueueMessage = useCallback(
+    (message: Message, thinking: boolean, error?: string) => {
+      if (!conversationId) return Promise.resolve()
+      return outbox.add({
+        id: message.id,
+        profileId,
+        conversationId,
+        content: message.content,
+        parentId: message.parentId,
+        enableThinking: thinking,
+        attachments: toOutboxAttachments(message.attachments),
+        status: error ? 'failed' : 'pending',
+        error,
+        attempts: error ? 1 : 0,
+        createdAt: message.timestamp,
+      })
+    },
+    [conversationId, profileId]
+  )
+
+  // 发送用户消息并流式接收回复，已送达的排队消息出队
+  const deliverMessage = useCallback(
+    async (userMessage: Message, thinking: boolean) => {
+      if (!conversationId) return
+      // 排队的消息先认领，其他标签页已发送或正在发送时不再发送
+      let queued: OutboxItem | undefined
+      if (outbox.get(userMessage.id)) {
+        queued = await outbox.claim(userMessage.id)
+        if (!queued) return
       }
-      setMessages((prev) => [...prev, userMessage])
 
       const tempAssistantId = `assistant-temp-${Date.now()}`
       currentMessageIdRef.current = tempAssistantId
       const tempAssistantMessage: Message = {
         id: tempAssistantId,
+        parentId: userMessage.id,
         role: 'assistant',
         content: '',
         timestamp: Date.now(),
         loading: true,
         statusText: '连接中...',
       }
-      setMessages((prev) => [...prev, tempAssistantMessage])
+      // 排队的消息之后可能已有其他消息，回复紧跟在对应的用户消息之后
+      setMessages((prev) => {
+        const index = prev.findIndex((msg) => msg.id === userMessage.id)
+        if (index === -1) return [...prev, tempAssistantMessage]
+        return [...prev.slice(0, index + 1), tempAssistantMessage, ...prev.slice(index + 1)]
+      })
+
+      // 收到任何事件即说明后端已接收消息，之后的失败不再重新排队
+      let accepted = false
+      // start 事件是否提供了用户消息的服务端 ID
+      let confirmed = false
 
       try {
         setIsLoading(true)
         setError(null)
 
-        let fileIds: string[] = []
-        if (attachments && attachments.length > 0) {
-          for (const attachment of attachments) {
-            if (attachment.file) {
-              const result = await chatApi.uploadFile(conversationId, attachment.file)
-              fileIds.push(result.file_id)
-            }
-          }
-        }
-
+        // 上传附件期间切换会话时，发送请求会因已中止而立即结束
         const controller = new AbortController()
         setAbortController(controller)
 
+        // 附件通常已在输入框中上传完成，这里只补传缺少 file_id 的附件
+        const fileIds = await uploadAttachments(conversationId, userMessage)
+        const startedAt = Date.now()
+
         await chatApi.sendMessageStream(
           conversationId,
-          content,
+          userMessage.content,
           fileIds.length > 0 ? fileIds : undefined,
           {
             signal: controller.signal,
-            callbacks: {
-              onStart: (data) => {
-                currentMessageIdRef.current = data.message_id
+            // 以认领时读取的为准，其他标签页可能已调整排队消息的分支点
+            parentId: queued ? queued.parentId : userMessage.parentId,
+            callbacks: createReplyCallbacks(
+              startedAt,
+              () => {
+                // 已送达即出队，避免回复生成期间其他标签页认领超时后重复发送
+                if (!accepted && queued) outbox.remove(userMessage.id)
+                accepted = true
+              },
+              (data) => {
+                const userMessageId = data.user_message_id ?? userMessage.id
+                confirmed = !!data.user_message_id
+                // 排队时接在这条消息之后的消息，改为接在它的回复之后
+                const followers = outbox
+                  .getSnapshot()
+                  .filter((item) => item.parentId === userMessage.id)
+                  .map((item) => item.id)
                 setMessages((prev) =>
-                  prev.map((msg) =>
+                  renameMessage(prev, userMessage.id, userMessageId).map((msg) =>
                     msg.id === tempAssistantId
                       ? { ...msg, id: data.message_id, statusText: 'AI 思考中...' }
-                      : msg
+                      : msg.id === userMessageId && confirmed
+                        ? { ...msg, temporaryId: undefined }
+                        : followers.includes(msg.id)
+                          ? { ...msg, parentId: data.message_id }
+                          : msg
                   )
                 )
-              },
-              onChunk: (chunk, thinking) => {
-                const currentId = currentMessageIdRef.current
-                if (!currentId) return
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === currentId
-                      ? thinking
-                        ? {
-                            ...msg,
-                            thinkingContent: (msg.thinkingContent || '') + chunk,
-                            loading: false,
-                          }
-                        : {
-                            ...msg,
-                            content: msg.content + chunk,
-                            loading: false,
-                            statusText: undefined,
-                          }
-                      : msg
-                  )
-                )
-              },
-              onEnd: (data) => {
-                const currentId = currentMessageIdRef.current
-                if (!currentId) return
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === currentId || msg.id === data.message_id
-                      ? {
-                          ...msg,
-                          id: data.message_id,
-                          loading: false,
-                          statusText: undefined,
-                        }
-                      : msg
-                  )
-                )
-              },
-              onError: (error) => {
-                setError(error)
-                const currentId = currentMessageIdRef.current
-                if (!currentId) return
-                setMessages((prev) =>
-                  prev.filter((msg) => msg.id !== currentId)
-                )
-              },
-            },
+                setLeafId((prev) => (prev === userMessage.id ? userMessageId : prev))
+                followers.forEach((id) => outbox.update(id, { parentId: data.message_id }))
+              }
+            ),
           },
-          enableThinking
+          thinking
         )
+        conversationStore.update(conversationId, (item) => ({
+          message_count: item.message_count + 2,
+        }))
+        await outbox.remove(userMessage.id)
       } catch (err) {
-        if (err instanceof Error && err.name === 'AbortError') {
-          const currentId = currentMessageIdRef.current
+        const currentId = currentMessageIdRef.current
+        if (isAbortError(err)) {
+          // 停止生成时保留已收到的内容，不显示错误
+          if (currentId) {
+            settleAssistantMessage(currentId, accepted ? 'stopped' : undefined)
+          }
+          if (queued && !accepted) {
+            await outbox.update(userMessage.id, { status: 'failed', error: '已取消发送' })
+          }
+        } else if (!accepted && isRetryableError(err)) {
+          // 消息未送达：移除空回复，放入离线消息队列，恢复连接后自动重发
           if (currentId) {
             setMessages((prev) => prev.filter((msg) => msg.id !== currentId))
           }
+          if (err instanceof NetworkError) {
+            connectivity.reportOffline()
+          }
+          const message = getErrorMessage(err, '发送消息失败')
+          if (queued) {
+            await outbox.update(userMessage.id, {
+              status: 'failed',
+              error: message,
+              attempts: queued.attempts + 1,
+            })
+          } else {
+            await enqueueMessage(userMessage, thinking, message)
+          }
+        } else if (queued) {
+          if (accepted) {
+            await outbox.remove(userMessage.id)
+          } else {
+            await outbox.update(userMessage.id, {
+              status: 'failed',
+              error: getErrorMessage(err, '发送消息失败'),
+              attempts: queued.attempts + 1,
+            })
+          }
+          showError(err, '发送消息失败')
+          if (currentId) {
+            settleAssistantMessage(currentId, accepted ? 'error' : undefined)
+          }
         } else {
-          const errorMessage = err instanceof Error ? err.message : '发送消息失败'
-          setError(errorMessage)
-          const currentId = currentMessageIdRef.current
+          showError(err, '发送消息失败', () => {
+            // 移除失败的这一轮后重新发送
+            setMessages((prev) =>
+              prev.filter((msg) => msg.id !== userMessage.id && msg.id !== currentId)
+            )
+            sendMessageRef.current?.(
+              userMessage.content,
+              userMessage.attachments,
+              userMessage.parentId ?? null
+            )
+          })
           if (currentId) {
-            setMessages((prev) => prev.filter((msg) => msg.id !== currentId))
+            settleAssistantMessage(currentId, accepted ? 'error' : undefined)
           }
         }
       } finally {
         setIsLoading(false)
         setAbortController(null)
         currentMessageIdRef.current = null
+        // 后端已接收时（包括中途停止）其他标签页需要重新获取
+        if (accepted) notifyTabs()
+        // 未提供 user_message_id 时重新获取会话，取得用户消息的服务端 ID 后才能重新生成
+        if (accepted && !confirmed) setRemoteChanged(true)
+      }
+    },
+    [conversationId, enqueueMessage, notifyTabs, showError]
+  )
+
+  // 重新生成或继续生成回复；不发送新的用户消息，也不进入离线消息队列
+  const generateReply = useCallback(
+    async (action: MessageAction, thinking: boolean): Promise<void> => {
+      if (!conversationId) return
+      const isContinue = action.type === 'continue'
+      // 续写直接追加到原回复，重新生成时作为同一条用户消息下最新的分支
+      const replyId = isContinue ? action.messageId : `assistant-temp-${Date.now()}`
+      currentMessageIdRef.current = replyId
+      if (isContinue) {
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === replyId ? { ...msg, truncated: undefined, statusText: '继续生成中...' } : msg
+          )
+        )
+      } else {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: replyId,
+            parentId: action.messageId,
+            role: 'assistant',
+            content: '',
+            timestamp: Date.now(),
+            loading: true,
+            statusText: '连接中...',
+          },
+        ])
+        setLeafId(action.messageId)
+      }
+
+      let accepted = false
+      try {
+        setIsLoading(true)
+        setError(null)
+        const controller = new AbortController()
+        setAbortController(controller)
+        const startedAt = Date.now()
+
+        await chatApi.sendMessageStream(
+          conversationId,
+          '',
+          undefined,
+          {
+            signal: controller.signal,
+            action,
+            callbacks: createReplyCallbacks(
+              startedAt,
+              () => {
+                accepted = true
+              },
+              (data) => {
+                setMessages((prev) =>
+                  renameMessage(prev, replyId, data.message_id).map((msg) =>
+                    msg.id === data.message_id && msg.loading
+                      ? { ...msg, statusText: 'AI 思考中...' }
+                      : msg
+                  )
+                )
+              }
+            ),
+          },
+          thinking
+        )
+        if (!isContinue) {
+          conversationStore.update(conversationId, (item) => ({
+            message_count: item.message_count + 1,
+          }))
+        }
+      } catch (err) {
+        if (!isAbortError(err)) {
+          showError(err, isContinue ? '继续生成失败' : '重新生成失败', () =>
+            generateReply(action, thinking)
+          )
+        }
+        // 续写的回复已在后端，出错或停止后仍可再次继续
+        const currentId = currentMessageIdRef.current
+        if (currentId && (accepted || isContinue)) {
+          settleAssistantMessage(currentId, isAbortError(err) ? 'stopped' : 'error')
+        } else if (currentId) {
+          settleAssistantMessage(currentId)
+        }
+      } finally {
+        setIsLoading(false)
+        setAbortController(null)
+        currentMessageIdRef.current = null
+        // 后端已接收时（包括中途停止）其他标签页需要重新获取
+        if (accepted) notifyTabs()
+      }
+    },
+    [conversationId, notifyTabs, showError]
+  )
+
+  // 依次发送当前后端配置下排队的消息，离线后停止
+  const flushingRef = useRef(false)
+  const flushOutbox = useCallback(async () => {
+    if (flushingRef.current || !conversationId) return
+    flushingRef.current = true
+    try {
+      await outbox.ready()
+      // 每轮重新读取队列，发送期间新排队的消息也会被发送；每条消息只尝试一次
+      const attempted = new Set<string>()
+      while (connectivity.getSnapshot().online) {
+        const item = outbox
+          .getSnapshot()
+          .find(
+            (queued) =>
+              queued.profileId === profileId &&
+              queued.status !== 'sending' &&
+              !attempted.has(queued.id)
+          )
+        if (!item) break
+        attempted.add(item.id)
+        if (item.conversationId === conversationId) {
+          await deliverMessage(fromOutboxItem(item), item.enableThinking)
+        } else {
+          await sendInBackground(item)
+        }
       }
+    } finally {
+      flushingRef.current = false
+    }
+  }, [conversationId, profileId, deliverMessage])
+
+  // 恢复连接（以及进入页面时）自动发送排队的消息
+  useEffect(() => {
+    if (online && !isInitializing) flushOutbox()
+  }, [online, isInitializing, flushOutbox])
+
+  // 当前显示的消息链与各分支点
+  const thread = useMemo(() => resolveThread(messages, leafId), [messages, leafId])
+
+  // 链接定位的消息可能在其他分支上，加载后先切换到该分支再定位；
+  // 每个链接只切换一次，之后用户可自由切换分支
+  useEffect(() => {
+    if (!messageId || anchoredLeafRef.current === messageId) return
+    if (!messages.some((msg) => msg.id === messageId)) return
+    anchoredLeafRef.current = messageId
+    if (!thread.messages.some((msg) => msg.id === messageId)) setLeafId(messageId)
+  }, [messageId, messages, thread])
+
+  // 发送消息，作为 parentId 的回复；parentId 为 null 时作为第一条消息
+  const submitMessage = useCallback(
+    async (content: string, attachments: Attachment[] | undefined, parentId: string | null) => {
+      if (!conversationId) {
+        setError({ message: '会话未初始化' })
+        return
+      }
+
+      const userMessage: Message = {
+        id: `user-${Date.now()}`,
+        parentId,
+        temporaryId: true,
+        role: 'user',
+        content,
+        parts: createMessageParts(content),
+        timestamp: Date.now(),
+        attachments,
+      }
+      setMessages((prev) => [...prev, userMessage])
+      // 新消息是分支点下最新的分支，从分支点向下即可显示
+      setLeafId(parentId ?? undefined)
+
+      // 离线时或前面还有未发送的消息时排队，保持发送顺序
+      const hasQueued = outbox.getSnapshot().some((item) => item.conversationId === conversationId)
+      if (!connectivity.getSnapshot().online || hasQueued) {
+        await enqueueMessage(userMessage, enableThinking)
+        if (connectivity.getSnapshot().online) flushOutbox()
+        return
+      }
+
+      await deliverMessage(userMessage, enableThinking)
     },
-    [conversationId, enableThinking]
+    [conversationId, enableThinking, enqueueMessage, deliverMessage, flushOutbox]
+  )
+
+  // 在当前显示的分支末尾发送消息
+  const handleSendMessage = useCallback(
+    (content: string, attachments?: Attachment[]) => {
+      const last = thread.messages[thread.messages.length - 1]
+      return submitMessage(content, attachments, last?.id ?? null)
+    },
+    [thread, submitMessage]
+  )
+
+  // 重新生成最后一轮的回复，thinking 为本次是否开启思考模式
+  const handleRegenerate = useCallback(
+    (messageId: string, thinking: boolean) => {
+      const reply = thread.messages.find((msg) => msg.id === messageId)
+      if (!reply?.parentId) return
+      // 服务端不认识本地的临时 ID
+      if (thread.messages.find((msg) => msg.id === reply.parentId)?.temporaryId) return
+      generateReply({ type: 'regenerate', messageId: reply.parentId }, thinking)
+    },
+    [thread, generateReply]
+  )
+
+  // 继续生成被截断的回复
+  const handleContinue = useCallback(
+    (messageId: string) => {
+      generateReply({ type: 'continue', messageId }, enableThinking)
+    },
+    [enableThinking, generateReply]
+  )
+
+  // 编辑用户消息后重新发送，作为原消息的同级分支，原来的回复仍可切换查看
+  const handleEditMessage = useCallback(
+    (targetId: string, content: string) => {
+      const original = thread.messages.find((msg) => msg.id === targetId)
+      if (!original) return Promise.resolve()
+      return submitMessage(content, original.attachments, original.parentId ?? null)
+    },
+    [thread, submitMessage]
+  )
+
+  // 更新消息片段（构建日志、导出结果等）
+  const handleUpdateMessageParts = useCallback(
+    (messageId: string, update: (parts: MessagePart[]) => MessagePart[]) => {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === messageId
+            ? { ...msg, parts: update(msg.parts ?? createMessageParts(msg.content, true)) }
+            : msg
+        )
+      )
+    },
+    []
+  )
+
+  // 记录 XML 片段的写入 / 构建状态，重新打开会话时恢复
+  const handleArtifactStateChange = useCallback(
+    (messageId: string, partId: string, state: XmlArtifactState) => {
+      handleUpdateMessageParts(messageId, (parts) => setXmlArtifactState(parts, partId, state))
+      if (!conversationId) return
+      chatApi
+        .updateArtifactState(conversationId, messageId, partId, state)
+        .then(notifyTabs)
+        .catch((err) => {
+          log.warn('保存构建状态失败', err)
+        })
+    },
+    [conversationId, handleUpdateMessageParts, notifyTabs]
+  )
+
+  // 手动重发排队的消息
+  const handleRetryMessage = useCallback(
+    (messageId: string) => {
+      const item = outbox.get(messageId)
+      if (!item) return
+      deliverMessage(fromOutboxItem(item), item.enableThinking)
+    },
+    [deliverMessage]
+  )
+
+  // 丢弃排队的消息，接在它之后的排队消息改为接在它的上一条消息之后
+  const handleDiscardMessage = useCallback((messageId: string) => {
+    const parentId = outbox.get(messageId)?.parentId
+    outbox
+      .getSnapshot()
+      .filter((item) => item.parentId === messageId)
+      .forEach((item) => outbox.update(item.id, { parentId }))
+    outbox.remove(messageId)
+    setMessages((prev) => removeMessage(prev, messageId))
+  }, [])
+
+  sendMessageRef.current = submitMessage
+
+  // 上传单个附件，返回 file_id
+  const handleUploadAttachment = useCallback(
+    async (file: File, options: UploadFileOptions) => {
+      if (!conversationId) {
+        throw new Error('会话未初始化')
+      }
+      const result = await chatApi.uploadFile(conversationId, file, options)
+      return result.file_id
+    },
+    [conversationId]
   )
 
   const handleCancel = useCallback(() => {
@@ -217,20 +1024,58 @@ export function ChatContainer({
     }
   }, [abortController])
 
-  const handleReset = async () => {
-    setMessages([])
-    setError(null)
-    setIsInitializing(true)
+  // 复制消息的链接，同时把地址定位到该消息
+  const handleCopyMessageLink = useCallback(
+    async (targetId: string) => {
+      if (!conversationId) return
+      const route = { conversationId, messageId: targetId }
+      router.navigate(route, { replace: true })
+      try {
+        await navigator.clipboard.writeText(router.getUrl(route))
+      } catch (err) {
+        showError(err, '复制链接失败，请从地址栏复制')
+        throw err
+      }
+    },
+    [conversationId, showError]
+  )
 
-    try {
-      const result = await chatApi.createConversation('新对话')
-      setConversationId(result.conversation_id)
-      onConversationCreatedRef.current?.(result.conversation_id)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : '创建会话失败')
-    } finally {
-      setIsInitializing(false)
-    }
+  const handleReset = () => {
+    openConversation()
+  }
+
+  // 排队消息的状态显示在对应的用户消息下方
+  const displayMessages = useMemo(() => {
+    const queuedById = new Map(queuedItems.map((item) => [item.id, item]))
+    return thread.messages.map((msg) => {
+      const item = queuedById.get(msg.id)
+      return item ? { ...msg, deliveryStatus: item.status, deliveryError: item.error } : msg
+    })
+  }, [thread, queuedItems])
+
+  // 在侧边栏重命名后标题以会话列表为准
+  const displayTitle = conversations.find((item) => item.id === conversationId)?.title ?? title
+
+  // 其他会话中未送达的消息只在这里提示
+  const otherQueued = queuedItems.filter(
+    (item) => item.profileId === profileId && item.conversationId !== conversationId
+  )
+
+  // 导出消息，包括构建日志与导出结果；未发送的消息不导出。
+  // JSON 导出完整的消息树（包括其他分支），Markdown 与 HTML 只导出当前显示的分支
+  const handleExport = (format: ExportFormat) => {
+    if (!conversationId) return
+    const queuedIds = new Set(queuedItems.map((item) => item.id))
+    downloadConversation(
+      format,
+      { id: conversationId, title: displayTitle || '新对话' },
+      format === 'json' ? messages.filter((msg) => !queuedIds.has(msg.id)) : displayMessages
+    )
+  }
+
+  const handleDiscardOtherQueued = () => {
+    if (!window.confirm(`确定丢弃其他会话中 ${otherQueued.length} 条未发送的消息吗？`)) return
+    otherQueued.forEach((item) => outbox.remove(item.id))
   }
 
   const handleBuild = async (xmlContent: string) => {
@@ -240,12 +1085,21 @@ export function ChatContainer({
       const result = await chatApi.buildXml(xmlContent, { source: 'chat' })
       return result
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : '构建失败'
-      setError(errorMessage)
+      showError(err, '构建失败')
       throw err
     }
   }
 
+  // 退出前取消进行中的请求
+  const handleLogout = async () => {
+    abortController?.abort()
+    try {
+      await chatApi.logout()
+    } catch {
+      // 本地状态已清除，忽略服务端错误
+    }
+  }
+
   if (isInitializing) {
     return (
       <div className={styles.loadingContainer}>
@@ -260,7 +1114,20 @@ export function ChatContainer({
       {error && (
         <div className={styles.errorBanner}>
           <div className={styles.errorContent}>
-            <span>{error}</span>
+            <span>{error.message}</span>
+            {error.retry && (
+              <button
+                onClick={() => {
+                  const retry = error.retry
+                  setError(null)
+                  retry?.()
+                }}
+                className={styles.retryButton}
+              >
+                <RotateCw size={14} />
+                <span>重试</span>
+              </button>
+            )}
             <button onClick={() => setError(null)} className={styles.closeButton}>
               <X size={16} />
             </button>
@@ -274,9 +1141,21 @@ export function ChatContainer({
             <Plus size={16} />
             <span>新对话</span>
           </button>
+          <BackendSwitcher disabled={isLoading} />
         </div>
+
+        {displayTitle && (
+          <div className={styles.title} title={displayTitle}>
+            {displayTitle}
+          </div>
+        )}
         
         <div className={styles.headerRight}>
+          <ExportMenu
+            onExport={handleExport}
+            disabled={!conversationId || messages.length === 0 || isLoading}
+          />
+
           <label className={clsx(styles.thinkingToggle, enableThinking && styles.active)}>
             <input
               type="checkbox"
@@ -294,15 +1173,47 @@ export function ChatContainer({
               <span>停止生成</span>
             </button>
           )}
+
+          {authSession.enabled && (
+            <button onClick={handleLogout} className={styles.logoutButton} title="退出登录">
+              <span>{user?.display_name || user?.username}</span>
+              <LogOut size={14} />
+            </button>
+          )}
         </div>
       </div>
 
+      {otherQueued.length > 0 && (
+        <div className={styles.outboxNotice}>
+          <CloudOff size={14} />
+          <span>其他会话中有 {otherQueued.length} 条消息未发送</span>
+          <button onClick={flushOutbox} disabled={!online || isLoading}>
+            重新发送
+          </button>
+          <button onClick={handleDiscardOtherQueued}>丢弃</button>
+        </div>
+      )}
+
       <ChatInterface
-        messages={messages}
+        messages={displayMessages}
         onSendMessage={handleSendMessage}
+        onUploadAttachment={handleUploadAttachment}
         onBuild={handleBuild}
         placeholder="输入消息..."
         disabled={isLoading}
+        offline={!online}
+        onUpdateMessageParts={handleUpdateMessageParts}
+        onArtifactStateChange={handleArtifactStateChange}
+        anchorMessageId={messageId}
+        onCopyMessageLink={handleCopyMessageLink}
+        onRetryMessage={isLoading ? undefined : handleRetryMessage}
+        onDiscardMessage={handleDiscardMessage}
+        onEditMessage={handleEditMessage}
+        onRegenerate={handleRegenerate}
+        onContinue={handleContinue}
+        thinkingEnabled={enableThinking}
+        branches={thread.branches}
+        onSelectBranch={setLeafId}
       />
     </div>
   )
@@ -1,8 +1,9 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useSyncExternalStore } from 'react'
 import {
   Send,
   Paperclip,
   X,
+  ChevronLeft,
   ChevronRight,
   ChevronDown,
   Brain,
@@ -15,44 +16,193 @@ import {
   FileBox,
   Cpu,
   Loader2,
-  Square
+  Square,
+  RotateCw,
+  CloudOff,
+  Wrench,
+  Link2,
+  Check,
+  Pencil,
+  RefreshCw
 } from 'lucide-react'
 import { clsx } from 'clsx'
-import type { Message, Attachment } from '@/types/chat'
-import type { BuildCommandResponse } from '@/services/chatApi'
+import type {
+  Message,
+  MessagePart,
+  MessageUsage,
+  Attachment,
+  BuildLogPart,
+  ExportResultPart,
+  ToolCallPart,
+  XmlArtifactPart,
+  XmlArtifactState,
+  XmlArtifactType
+} from '@/types/chat'
+import { buildLocks, getBuildLockName } from '@/services/buildLocks'
+import type { UploadFileOptions } from '@/services/chatApi'
 import { chatApi } from '@/services/chatApi'
+import { getErrorMessage, isAbortError } from '@/services/errors'
+import type { MessageBranch } from '@/services/messageTree'
+import { createConcurrencyLimiter } from '@/services/upload'
+import { createMessageParts, getMessageParts, upsertMessagePart } from '@/services/messageParts'
+import { createLogger } from '@/services/logger'
+import { TAB_ID } from '@/services/tabSync'
+import type { BuildTask } from '@/services/tabSync'
 import styles from './ChatInterface.module.css'
 
+const renderLog = createLogger('render')
+const buildLog = createLogger('build')
+
+// 同时上传的附件数量上限
+const MAX_CONCURRENT_UPLOADS = 3
+
+// 类型显示名称映射
+const XML_TYPE_LABELS: Record<XmlArtifactType, string> = {
+  orm: 'ORM',
+  config: '配置',
+  api: 'API'
+}
+
+// 构建状态的键：同一条消息中可能有多个 XML 片段
+function artifactKey(messageId: string, artifactId: string): string {
+  return `${messageId}/${artifactId}`
+}
+
+function createBuildLogPart(artifactId: string): BuildLogPart {
+  return {
+    id: `${artifactId}-build`,
+    type: 'build-log',
+    artifactId,
+    phase: 'build',
+    command: '',
+    success: null,
+    exitCode: null,
+    output: '',
+    error: '',
+    executionTime: 0,
+    message: ''
+  }
+}
+
+function createExportResultPart(artifactId: string): ExportResultPart {
+  return {
+    id: `${artifactId}-export`,
+    type: 'export-result',
+    artifactId,
+    success: null,
+    message: '',
+    log: ''
+  }
+}
+
+function formatToolValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+}
+
+function formatUsage(usage: MessageUsage): string {
+  const tokens = `${usage.totalTokens} tokens`
+  return usage.latency === undefined ? tokens : `${tokens} · ${(usage.latency / 1000).toFixed(1)} s`
+}
+
 interface ChatInterfaceProps {
   messages: Message[]
-  onSendMessage: (content: string, attachments?: Attachment[]) => void | Promise<void>
+  // 未提供时为只读（导入的会话），不显示输入框
+  onSendMessage?: (content: string, attachments?: Attachment[]) => void | Promise<void>
+  // 选择附件后立即上传，返回 file_id；未提供时在发送消息时上传
+  onUploadAttachment?: (file: File, options: UploadFileOptions) => Promise<string>
   onBuild?: (xmlContent: string) => void | Promise<void>
+  // 更新消息片段（构建日志、导出结果），未提供时不显示构建结果
+  onUpdateMessageParts?: (messageId: string, update: (parts: MessagePart[]) => MessagePart[]) => void
   placeholder?: string
   disabled?: boolean
+  // 离线时附件在发送时随消息一起排队上传
+  offline?: boolean
+  // 离线消息队列中的消息操作
+  onRetryMessage?: (messageId: string) => void
+  onDiscardMessage?: (messageId: string) => void
+  // 定位并高亮的消息（地址中的 #message-id）
+  anchorMessageId?: string
+  // 复制消息链接，失败时 reject
+  onCopyMessageLink?: (messageId: string) => Promise<void>
+  // XML 片段写入或构建成功后记录处理进度
+  onArtifactStateChange?: (messageId: string, partId: string, state: XmlArtifactState) => void
+  // 编辑用户消息后作为新分支重新发送，未提供时不能编辑
+  onEditMessage?: (messageId: string, content: string) => Promise<void>
+  // 分支点上的同级消息，显示 < 2/3 > 切换
+  branches?: Map<string, MessageBranch>
+  onSelectBranch?: (messageId: string) => void
+  // 重新生成最后一条回复，thinking 为本次是否开启思考模式
+  onRegenerate?: (messageId: string, thinking: boolean) => void
+  // 继续生成被截断的回复
+  onContinue?: (messageId: string) => void
+  // 当前是否开启思考模式，用于「切换思考模式后重新生成」
+  thinkingEnabled?: boolean
 }
 
 export function ChatInterface({
   messages,
   onSendMessage,
+  onUploadAttachment,
   onBuild,
+  onUpdateMessageParts,
   placeholder = '输入消息...',
-  disabled = false
+  disabled = false,
+  offline = false,
+  onRetryMessage,
+  onDiscardMessage,
+  anchorMessageId,
+  onCopyMessageLink,
+  onArtifactStateChange,
+  onEditMessage,
+  branches,
+  onSelectBranch,
+  onRegenerate,
+  onContinue,
+  thinkingEnabled = false
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('')
   const [attachments, setAttachments] = useState<Attachment[]>([])
   const [isDragging, setIsDragging] = useState(false)
-  const [buildingMessageId, setBuildingMessageId] = useState<string | null>(null)
-  const [builtMessageIds, setBuiltMessageIds] = useState<Set<string>>(new Set()) // 已构建的消息
-  const [writtenMessageIds, setWrittenMessageIds] = useState<Set<string>>(new Set()) // 已写入的消息
-  const [buildResults, setBuildResults] = useState<Record<string, BuildCommandResponse>>({}) // 构建结果
+  // 构建相关状态以 XML 片段为键（artifactKey）
+  const [buildingArtifact, setBuildingArtifact] = useState<string | null>(null)
+  const [builtArtifacts, setBuiltArtifacts] = useState<Set<string>>(new Set()) // 已构建的 XML
+  const [writtenArtifacts, setWrittenArtifacts] = useState<Set<string>>(new Set()) // 已写入的 XML
   const [expandedBuildLogs, setExpandedBuildLogs] = useState<Set<string>>(new Set()) // 展开的构建日志
   const [devServerRunning, setDevServerRunning] = useState<Set<string>>(new Set()) // 运行中的开发服务器
   const [expandedThinking, setExpandedThinking] = useState<Set<string>>(new Set())
-  const [exportingMessageIds, setExportingMessageIds] = useState<Set<string>>(new Set()) // 正在导出的消息
+  const [exportingArtifacts, setExportingArtifacts] = useState<Set<string>>(new Set()) // 正在导出的 XML
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null)
+  // 其他标签页正在执行的构建与开发服务器（当前后端配置下）
+  const { locks } = useSyncExternalStore(buildLocks.subscribe, buildLocks.getSnapshot)
+  const remoteLocks = locks.filter(
+    (lock) => lock.tabId !== TAB_ID && lock.name === getBuildLockName(lock.task.kind)
+  )
+  // 申请锁失败的 XML 片段，短暂提示正在执行的任务
+  const [lockConflict, setLockConflict] = useState<{
+    key: string
+    name: string
+    kind: BuildTask['kind']
+  } | null>(null)
+  // 正在编辑的用户消息
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null)
+  const messagesListRef = useRef<HTMLDivElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // 已定位的消息及当时的消息数，有新消息后才恢复滚动到底部
+  const anchoredRef = useRef<{ id: string; count: number } | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const devServerAbortControllersRef = useRef<Record<string, AbortController>>({}) // 存储开发服务器的 AbortController
+  const uploadAbortControllersRef = useRef<Record<string, AbortController>>({}) // 存储附件上传的 AbortController
+  const uploadLimiterRef = useRef(createConcurrencyLimiter(MAX_CONCURRENT_UPLOADS))
+
+  // 卸载时取消所有未完成的上传
+  useEffect(() => {
+    const controllers = uploadAbortControllersRef.current
+    return () => {
+      Object.values(controllers).forEach((controller) => controller.abort())
+    }
+  }, [])
 
   // 切换思考内容展开状态
   const toggleThinking = (messageId: string) => {
@@ -73,8 +223,105 @@ export function ChatInterface({
   }
 
   useEffect(() => {
+    if (anchorMessageId) {
+      const anchored = anchoredRef.current
+      if (anchored?.id !== anchorMessageId) {
+        // 消息尚未加载时先滚动到底部，加载后再定位
+        const element = messagesListRef.current?.querySelector(
+          `[data-message-id="${CSS.escape(anchorMessageId)}"]`
+        )
+        if (element) {
+          element.scrollIntoView({ block: 'center' })
+          anchoredRef.current = { id: anchorMessageId, count: messages.length }
+          setHighlightedMessageId(anchorMessageId)
+          return
+        }
+      } else if (anchored.count === messages.length) {
+        return
+      }
+    }
     scrollToBottom()
-  }, [messages])
+  }, [messages, anchorMessageId])
+
+  // 定位的消息短暂高亮
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlightedMessageId])
+
+  useEffect(() => {
+    if (!lockConflict) return
+    const timer = setTimeout(() => setLockConflict(null), 5000)
+    return () => clearTimeout(timer)
+  }, [lockConflict])
+
+  // 滚动到消息并短暂高亮
+  const locateMessage = (messageId: string) => {
+    messagesListRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedMessageId(messageId)
+  }
+
+  // 复制消息链接，成功后短暂显示已复制
+  const handleCopyLink = async (messageId: string) => {
+    try {
+      await onCopyMessageLink?.(messageId)
+    } catch {
+      // 错误由调用方展示
+      return
+    }
+    setCopiedMessageId(messageId)
+    setTimeout(() => {
+      setCopiedMessageId((current) => (current === messageId ? null : current))
+    }, 2000)
+  }
+
+  // 提交编辑后的消息，新消息成为原消息的同级分支
+  const handleSubmitEdit = async () => {
+    const content = editing?.content.trim()
+    if (!editing || !content || disabled) return
+    setEditing(null)
+    await onEditMessage?.(editing.id, content)
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSubmitEdit()
+    } else if (e.key === 'Escape') {
+      setEditing(null)
+    }
+  }
+
+  // 分支切换：< 2/3 >
+  const renderBranchNav = (messageId: string) => {
+    const branch = branches?.get(messageId)
+    if (!branch || !onSelectBranch) return null
+    const { siblingIds, index } = branch
+    return (
+      <span className={styles.branchNav}>
+        <button
+          onClick={() => onSelectBranch(siblingIds[index - 1])}
+          disabled={disabled || index === 0}
+          title="上一个分支"
+        >
+          <ChevronLeft size={12} />
+        </button>
+        <span>
+          {index + 1}/{siblingIds.length}
+        </span>
+        <button
+          onClick={() => onSelectBranch(siblingIds[index + 1])}
+          disabled={disabled || index === siblingIds.length - 1}
+          title="下一个分支"
+        >
+          <ChevronRight size={12} />
+        </button>
+      </span>
+    )
+  }
 
   // 格式化文件大小
   const formatFileSize = (bytes: number): string => {
@@ -95,19 +342,64 @@ export function ChatInterface({
     return <FileText size={20} />
   }
 
+  // 更新单个附件
+  const updateAttachment = (id: string, patch: Partial<Attachment>) => {
+    setAttachments((prev) => prev.map((att) => (att.id === id ? { ...att, ...patch } : att)))
+  }
+
+  // 上传附件（排队执行，受并发数限制）
+  const startUpload = (attachment: Attachment) => {
+    const file = attachment.file
+    if (!onUploadAttachment || !file) return
+
+    const controller = new AbortController()
+    uploadAbortControllersRef.current[attachment.id] = controller
+    updateAttachment(attachment.id, { uploadStatus: 'pending', uploadProgress: 0, uploadError: undefined })
+
+    uploadLimiterRef.current(async () => {
+      // 排队期间已被取消
+      if (controller.signal.aborted) {
+        throw new DOMException('请求已取消', 'AbortError')
+      }
+      updateAttachment(attachment.id, { uploadStatus: 'uploading' })
+      return onUploadAttachment(file, {
+        signal: controller.signal,
+        onProgress: (progress) => updateAttachment(attachment.id, { uploadProgress: progress })
+      })
+    })
+      .then((fileId) => {
+        updateAttachment(attachment.id, { uploadStatus: 'done', uploadProgress: 1, fileId })
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return
+        updateAttachment(attachment.id, {
+          uploadStatus: 'error',
+          uploadError: getErrorMessage(error, '上传失败')
+        })
+      })
+      .finally(() => {
+        if (uploadAbortControllersRef.current[attachment.id] === controller) {
+          delete uploadAbortControllersRef.current[attachment.id]
+        }
+      })
+  }
+
   // 处理文件选择
   const handleFileSelect = (files: FileList | null) => {
     if (!files) return
 
+    const uploadNow = !!onUploadAttachment && !offline
     const newAttachments: Attachment[] = Array.from(files).map((file) => ({
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name: file.name,
       size: file.size,
       type: file.type,
-      file
+      file,
+      uploadStatus: uploadNow ? 'pending' : undefined
     }))
 
     setAttachments((prev) => [...prev, ...newAttachments])
+    if (uploadNow) newAttachments.forEach(startUpload)
   }
 
   // 处理文件输入变化
@@ -118,11 +410,21 @@ export function ChatInterface({
     }
   }
 
-  // 移除附件
+  // 移除附件（上传中则取消上传）
   const removeAttachment = (id: string) => {
+    uploadAbortControllersRef.current[id]?.abort()
+    delete uploadAbortControllersRef.current[id]
     setAttachments((prev) => prev.filter((att) => att.id !== id))
   }
 
+  // 附件全部上传完成前不能发送；离线时上传失败的附件随消息排队
+  const isUploadPending = attachments.some(
+    (att) =>
+      att.uploadStatus !== undefined &&
+      att.uploadStatus !== 'done' &&
+      !(offline && att.uploadStatus === 'error')
+  )
+
   // 处理拖拽事件
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -143,14 +445,14 @@ export function ChatInterface({
   // 处理发送消息
   const handleSend = async () => {
     const trimmed = input.trim()
-    if ((!trimmed && attachments.length === 0) || disabled) return
+    if ((!trimmed && attachments.length === 0) || disabled || isUploadPending) return
 
     setInput('')
     setAttachments([])
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto'
     }
-    await onSendMessage(trimmed, attachments)
+    await onSendMessage?.(trimmed, attachments)
   }
 
   // 处理键盘事件
@@ -172,247 +474,475 @@ export function ChatInterface({
     textarea.style.height = `${newHeight}px`
   }
 
-  // 渲染消息内容（支持代码块）
-  const renderContent = (content: string, messageId?: string, isThinkingContent?: boolean) => {
-    const codeBlockRegex = /```(\w*)\n([\s\S]*?)```/g
-    const parts: Array<{ type: 'text' | 'code'; content: string; lang?: string }> = []
-    let lastIndex = 0
-    let match
-
-    while ((match = codeBlockRegex.exec(content)) !== null) {
-      if (match.index > lastIndex) {
-        parts.push({
-          type: 'text',
-          content: content.slice(lastIndex, match.index)
-        })
-      }
-      parts.push({
-        type: 'code',
-        lang: match[1] || '',
-        content: match[2]
-      })
-      lastIndex = match.index + match[0].length
-    }
-
-    if (lastIndex < content.length) {
-      parts.push({
-        type: 'text',
-        content: content.slice(lastIndex)
-      })
-    }
-
-    if (parts.length === 0) {
-      return content
-    }
-
-    return parts.map((part, index) => {
-      if (part.type === 'code') {
-        // 检测是否为 XML 代码块
-        const isXmlCode = part.lang === 'xml' || (!part.lang && part.content.includes('<'))
-
-        // 调试日志
-        console.log('[ChatInterface] 代码块信息:', {
-          lang: part.lang,
-          isXmlCode,
-          messageId,
-          isThinkingContent,
-          hasOnBuild: !!onBuild,
-          contentLength: part.content.length,
-          contentPreview: part.content.substring(0, 200),
-          fullContent: part.content
-        })
-
-        const xmlType = isXmlCode && messageId && !isThinkingContent ? chatApi.detectXmlType(part.content) : null
+  // 更新构建日志 / 导出结果片段，不存在时以 initial 创建
+  const updateResultPart = <T extends BuildLogPart | ExportResultPart>(
+    messageId: string,
+    initial: T,
+    update: (current: T) => Partial<T>
+  ) => {
+    onUpdateMessageParts?.(messageId, (parts) => {
+      const current = (parts.find((part) => part.id === initial.id) as T | undefined) ?? initial
+      return upsertMessagePart(parts, { ...current, ...update(current) })
+    })
+  }
 
-        console.log('[ChatInterface] XML 类型检测结果:', xmlType, {
-          hasNameAttribute: /<entity\s+name=/.test(part.content),
-          hasEntityTag: /<entity/.test(part.content)
-        })
+  // 渲染代码块
+  const renderCodeBlock = (id: string, lang: string, code: string, actions?: React.ReactNode) => (
+    <div key={id} className={styles.codeBlock}>
+      <div className={styles.codeHeader}>
+        <span className={styles.codeLang}>{lang}</span>
+      </div>
+      <pre><code>{code}</code></pre>
 
-        const canBuild = isXmlCode && xmlType && onBuild && messageId && !isThinkingContent
-        const isWritten = messageId && writtenMessageIds.has(messageId) // 已写入
-        const isBuilt = messageId && builtMessageIds.has(messageId) // 已构建
-        const isBuilding = buildingMessageId === messageId // 正在构建中
+      {/* 按钮区域：移到代码块下方 */}
+      {actions}
+    </div>
+  )
 
-        // 检查是否可以启动服务：已构建成功 + 不是正在构建中 + 不是正在运行服务
-        const buildResult = messageId ? buildResults[messageId] : null
-        const canStartDev = messageId && isWritten && isBuilt && !isBuilding && !devServerRunning.has(messageId)
-        const isStartingDev = messageId && devServerRunning.has(messageId) // 正在启动开发服务器
+  // 渲染 XML 片段的写入 / 构建 / 启动服务 / 导出按钮
+  const renderXmlActions = (messageId: string, artifact: XmlArtifactPart, parts: MessagePart[]) => {
+    const key = artifactKey(messageId, artifact.id)
+    // 历史消息的处理进度由服务端记录
+    const isWritten = writtenArtifacts.has(key) || !!artifact.state // 已写入
+    const isBuilt = builtArtifacts.has(key) || artifact.state === 'built' // 已构建
+    const isBuilding = buildingArtifact === key // 正在构建中
+    const isRunning = devServerRunning.has(key)
+    // 同一后端上的构建 / 开发服务器同时只能由一个标签页执行
+    const remoteBuild = remoteLocks.some((lock) => lock.task.kind === 'build')
+    const remoteDev = remoteLocks.some((lock) => lock.task.kind === 'dev')
+
+    // 检查是否可以启动服务：已构建成功 + 不是正在构建中 + 不是正在运行服务
+    const buildResult = parts.find(
+      (part): part is BuildLogPart => part.type === 'build-log' && part.artifactId === artifact.id
+    )
+    const canStartDev = isWritten && isBuilt && !isBuilding && !isRunning && !remoteDev
+    const isStartingDev = isRunning // 正在启动开发服务器
+
+    renderLog.debug('按钮状态', { key, isWritten, isBuilt, isBuilding, canStartDev, isStartingDev })
+
+    return (
+      <div className={styles.codeActions}>
+        {/* 写入按钮：未写入时显示 */}
+        {!isWritten && (
+          <button
+            onClick={() => handleWriteXml(messageId, artifact)}
+            disabled={isBuilding}
+            className={styles.writeButton}
+          >
+            {isBuilding ? (
+              <>
+                <Loader2 size={14} className={styles.spin} />
+                <span>写入中...</span>
+              </>
+            ) : (
+              <>
+                <Cpu size={14} />
+                <span>写入 {XML_TYPE_LABELS[artifact.xmlType]}</span>
+              </>
+            )}
+          </button>
+        )}
+
+        {/* 构建按钮：已写入但未构建时显示 */}
+        {isWritten && !isBuilt && (
+          <button
+            onClick={() => handleBuildXml(messageId, artifact)}
+            disabled={isBuilding || remoteBuild}
+            className={styles.buildButton}
+          >
+            {isBuilding ? (
+              <>
+                <Loader2 size={14} className={styles.spin} />
+                <span>构建中...</span>
+              </>
+            ) : (
+              <>
+                <Cpu size={14} />
+                <span>构建</span>
+              </>
+            )}
+          </button>
+        )}
+
+        {/* 启动服务按钮：已构建且服务未运行时显示 */}
+        {canStartDev && (
+          <button
+            onClick={() => startQuarkusDevServer(messageId, artifact.id)}
+            disabled={isStartingDev}
+            className={styles.buildButton}
+          >
+            {isStartingDev ? (
+              <>
+                <Loader2 size={14} className={styles.spin} />
+                <span>启动中...</span>
+              </>
+            ) : (
+              <>
+                <Cpu size={14} />
+                <span>启动服务</span>
+              </>
+            )}
+          </button>
+        )}
+
+        {/* 服务运行中状态 - 显示停止按钮 */}
+        {isRunning && (
+          <button
+            onClick={() => stopQuarkusDevServer(messageId, artifact.id)}
+            className={styles.stopButton}
+          >
+            <Square size={14} fill="currentColor" />
+            <span>停止服务</span>
+          </button>
+        )}
+
+        {/* 导出 Excel 按钮：已构建后显示 */}
+        {isBuilt && !isBuilding && (
+          <button
+            onClick={() => handleExportExcel(messageId, artifact.id)}
+            disabled={exportingArtifacts.has(key)}
+            className={styles.exportButton}
+          >
+            {exportingArtifacts.has(key) ? (
+              <>
+                <Loader2 size={14} className={styles.spin} />
+                <span>导出中...</span>
+              </>
+            ) : (
+              <>
+                <FileText size={14} />
+                <span>导出 Excel</span>
+              </>
+            )}
+          </button>
+        )}
+
+        {/* 服务启动中状态 */}
+        {isStartingDev && !isRunning && buildResult?.phase === 'dev' && (
+          <button
+            disabled
+            className={clsx(styles.buildButton, styles.builtButton)}
+          >
+            <Loader2 size={14} className={styles.spin} />
+            <span>启动中...</span>
+          </button>
+        )}
+
+        {/* 已构建但无法启动服务的状态（可选） */}
+        {isBuilt && !canStartDev && !isStartingDev && !isRunning && (
+          <button
+            disabled
+            className={clsx(styles.buildButton, styles.builtButton)}
+          >
+            <Cpu size={14} />
+            <span>已构建</span>
+          </button>
+        )}
+
+        {/* 其他标签页中执行的任务：对应此片段时显示进度，否则提示需要等待 */}
+        {remoteLocks.map((lock) => {
+          const isSameArtifact =
+            lock.task.messageId === messageId && lock.task.artifactId === artifact.id
+          const blocked = lock.task.kind === 'build' ? isWritten && !isBuilt : isBuilt && !isRunning
+          if (!isSameArtifact && !blocked) return null
+          // 已显示申请失败的提示
+          if (lockConflict?.key === key && lockConflict.name === lock.name) return null
+          return (
+            <span key={lock.name} className={styles.remoteTask}>
+              <Loader2 size={14} className={styles.spin} />
+              <span>
+                {isSameArtifact
+                  ? `${lock.status}（其他标签页）`
+                  : lock.task.kind === 'build'
+                    ? '其他标签页正在构建'
+                    : '开发服务器在其他标签页中运行'}
+              </span>
+              {lock.task.kind === 'dev' && (
+                <button onClick={() => buildLocks.requestStop(lock.name)}>停止</button>
+              )}
+            </span>
+          )
+        })}
+
+        {lockConflict?.key === key && renderLockConflict(lockConflict.name, lockConflict.kind)}
+      </div>
+    )
+  }
 
-        console.log('[ChatInterface] 按钮状态:', { canBuild, isWritten, isBuilt, isBuilding, canStartDev, isStartingDev })
+  // 渲染申请锁失败的提示：持有锁的标签页与任务进度，任务所在的消息在当前会话中时可定位
+  const renderLockConflict = (name: string, kind: BuildTask['kind']) => {
+    const holder = locks.find((lock) => lock.name === name)
+    const tab = holder?.tabId === TAB_ID ? '当前标签页' : '其他标签页'
+    const task = kind === 'build' ? '构建' : '运行开发服务器'
+    const inView = !!holder && messages.some((message) => message.id === holder.task.messageId)
+    return (
+      <span className={styles.remoteTask}>
+        <span>
+          {`${tab}正在${task}${holder ? `（${holder.status}）` : ''}，请等待完成后再试`}
+        </span>
+        {inView && (
+          <button
+            onClick={() => locateMessage(holder.task.messageId)}
+            className={styles.locateButton}
+          >
+            查看
+          </button>
+        )}
+      </span>
+    )
+  }
 
-        // 类型显示名称映射
-        const typeLabels: Record<string, string> = {
-          'orm': 'ORM',
-          'config': '配置',
-          'api': 'API'
-        }
+  // 渲染工具调用
+  const renderToolCall = (part: ToolCallPart) => (
+    <div key={part.id} className={clsx(styles.toolCall, part.status === 'error' && styles.toolCallFailed)}>
+      <div className={styles.toolCallHeader}>
+        {part.status === 'running' ? <Loader2 size={14} className={styles.spin} /> : <Wrench size={14} />}
+        <span className={styles.toolCallName}>{part.name}</span>
+        <span className={styles.toolCallStatus}>
+          {part.status === 'running' ? '调用中...' : part.status === 'success' ? '已完成' : '调用失败'}
+        </span>
+      </div>
+      {part.arguments !== undefined && (
+        <details className={styles.toolCallDetails}>
+          <summary>参数</summary>
+          <pre>{formatToolValue(part.arguments)}</pre>
+        </details>
+      )}
+      {(part.result !== undefined || part.error) && (
+        <details className={styles.toolCallDetails}>
+          <summary>{part.error ? '错误' : '结果'}</summary>
+          <pre>{part.error || formatToolValue(part.result)}</pre>
+        </details>
+      )}
+    </div>
+  )
 
-        return (
-          <div key={index} className={styles.codeBlock}>
-            <div className={styles.codeHeader}>
-              <span className={styles.codeLang}>{part.lang || (isXmlCode ? 'xml' : '')}</span>
-            </div>
-            <pre><code>{part.content}</code></pre>
-
-            {/* 按钮区域：移到代码块下方 */}
-            {canBuild && (
-              <div className={styles.codeActions}>
-                {/* 写入按钮：未写入时显示 */}
-                {!isWritten && (
-                  <button
-                    onClick={() => handleWriteXml(part.content, messageId!)}
-                    disabled={isBuilding}
-                    className={styles.writeButton}
-                  >
-                    {isBuilding ? (
-                      <>
-                        <Loader2 size={14} className={styles.spin} />
-                        <span>写入中...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Cpu size={14} />
-                        <span>写入 {typeLabels[xmlType] || xmlType}</span>
-                      </>
-                    )}
-                  </button>
-                )}
+  // 渲染消息片段；context 只在助手回复中提供，用于显示 XML 构建按钮
+  const renderPart = (part: MessagePart, context?: { messageId: string; parts: MessagePart[] }) => {
+    switch (part.type) {
+      case 'text':
+        return <span key={part.id}>{part.text}</span>
+      case 'code':
+        return renderCodeBlock(part.id, part.lang, part.code)
+      case 'xml':
+        return renderCodeBlock(
+          part.id,
+          'xml',
+          part.xml,
+          // 流式接收完整后才能写入
+          context && onBuild && part.complete
+            ? renderXmlActions(context.messageId, part, context.parts)
+            : null
+        )
+      case 'tool-call':
+        return renderToolCall(part)
+      default:
+        return null
+    }
+  }
 
-                {/* 构建按钮：已写入但未构建时显示 */}
-                {isWritten && !isBuilt && (
-                  <button
-                    onClick={() => handleBuildXml(messageId!)}
-                    disabled={isBuilding}
-                    className={styles.buildButton}
-                  >
-                    {isBuilding ? (
-                      <>
-                        <Loader2 size={14} className={styles.spin} />
-                        <span>构建中...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Cpu size={14} />
-                        <span>构建</span>
-                      </>
-                    )}
-                  </button>
-                )}
+  // 渲染消息正文（构建日志与导出结果显示在正文下方）
+  const renderMessageBody = (message: Message) => {
+    const parts = getMessageParts(message)
+    const body = parts.filter((part) => part.type !== 'build-log' && part.type !== 'export-result')
+    if (body.length === 0) return null
+    const context = message.role === 'assistant' ? { messageId: message.id, parts } : undefined
 
-                {/* 启动服务按钮：已构建且服务未运行时显示 */}
-                {canStartDev && (
-                  <button
-                    onClick={() => startQuarkusDevServer(messageId!)}
-                    disabled={isStartingDev}
-                    className={styles.buildButton}
-                  >
-                    {isStartingDev ? (
-                      <>
-                        <Loader2 size={14} className={styles.spin} />
-                        <span>启动中...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Cpu size={14} />
-                        <span>启动服务</span>
-                      </>
-                    )}
-                  </button>
-                )}
+    return (
+      <div className={styles.answerSection}>
+        <div className={styles.messageBubble}>{body.map((part) => renderPart(part, context))}</div>
+      </div>
+    )
+  }
 
-                {/* 服务运行中状态 - 显示停止按钮 */}
-                {devServerRunning.has(messageId!) && (
-                  <button
-                    onClick={() => stopQuarkusDevServer(messageId!)}
-                    className={styles.stopButton}
-                  >
-                    <Square size={14} fill="currentColor" />
-                    <span>停止服务</span>
-                  </button>
-                )}
+  // 渲染构建日志
+  const renderBuildLog = (messageId: string, result: BuildLogPart) => {
+    const logKey = `${messageId}/${result.id}`
+    const key = artifactKey(messageId, result.artifactId)
+    const isRunning = devServerRunning.has(key)
+
+    return (
+      <div key={result.id} className={styles.buildResult}>
+        <div className={clsx(
+          styles.buildStatus,
+          result.success === true ? styles.success :
+          result.success === false ? styles.error :
+          styles.building
+        )}>
+          {/* 智能状态显示 */}
+          {(() => {
+            // 开发服务器运行中
+            if (isRunning && result.phase === 'dev') {
+              return '🔥 开发服务器运行中'
+            }
 
-                {/* 导出 Excel 按钮：已构建后显示 */}
-                {isBuilt && !isBuilding && (
-                  <button
-                    onClick={() => handleExportExcel(messageId!)}
-                    disabled={exportingMessageIds.has(messageId!)}
-                    className={styles.exportButton}
-                  >
-                    {exportingMessageIds.has(messageId!) ? (
-                      <>
-                        <Loader2 size={14} className={styles.spin} />
-                        <span>导出中...</span>
-                      </>
-                    ) : (
-                      <>
-                        <FileText size={14} />
-                        <span>导出 Excel</span>
-                      </>
-                    )}
-                  </button>
-                )}
+            // 标准状态
+            if (result.success === true) return '✓ 构建成功'
+            if (result.success === false) return '✗ 构建失败'
+            if (result.phase === 'dev') return '⟳ 项目启动中...'
+            return '⟳ 构建中...'
+          })()}
+          <span className={styles.executionTime}>
+            ({result.executionTime.toFixed(2)}s)
+          </span>
+        </div>
+        <details
+          className={styles.buildDetails}
+          open={expandedBuildLogs.has(logKey) || isRunning}
+          onToggle={(e) => {
+            const isOpen = (e.target as HTMLDetailsElement).open
+            setExpandedBuildLogs(prev => {
+              const next = new Set(prev)
+              if (isOpen) {
+                next.add(logKey)
+              } else {
+                next.delete(logKey)
+              }
+              return next
+            })
+          }}
+        >
+          <summary>{result.phase === 'dev' ? '开发服务器日志' : '构建日志'}</summary>
+          <pre
+            ref={(el) => {
+              // 自动滚动到底部（构建中或开发服务器运行中）
+              if (el && (buildingArtifact === key || isRunning)) {
+                requestAnimationFrame(() => {
+                  if (el) {
+                    el.scrollTop = el.scrollHeight
+                  }
+                })
+              }
+            }}
+            className={styles.buildLog}
+          >
+            {result.output || result.error}
+          </pre>
+        </details>
+      </div>
+    )
+  }
 
-                {/* 服务启动中状态 */}
-                {isStartingDev && !devServerRunning.has(messageId!) && buildResult?.phase === 'dev' && (
-                  <button
-                    disabled
-                    className={clsx(styles.buildButton, styles.builtButton)}
-                  >
-                    <Loader2 size={14} className={styles.spin} />
-                    <span>启动中...</span>
-                  </button>
-                )}
+  // 渲染导出 Excel 结果
+  const renderExportResult = (messageId: string, result: ExportResultPart) => {
+    const logKey = `${messageId}/${result.id}`
+    const isExporting = exportingArtifacts.has(artifactKey(messageId, result.artifactId))
+
+    return (
+      <div key={result.id} className={styles.buildResult}>
+        <div className={clsx(
+          styles.buildStatus,
+          result.success === true ? styles.success :
+          result.success === false ? styles.error :
+          styles.building
+        )}>
+          {result.success === true
+            ? '✓ Excel 导出成功'
+            : result.success === false
+              ? '✗ 导出失败'
+              : '⟳ 正在导出...'}
+        </div>
+        <details
+          className={styles.buildDetails}
+          open={isExporting}
+          onToggle={(e) => {
+            const isOpen = (e.target as HTMLDetailsElement).open
+            setExpandedBuildLogs(prev => {
+              const next = new Set(prev)
+              if (isOpen) {
+                next.add(logKey)
+              } else {
+                next.delete(logKey)
+              }
+              return next
+            })
+          }}
+        >
+          <summary>导出日志</summary>
+          <pre
+            ref={(el) => {
+              // 自动滚动到底部（导出中）
+              if (el && isExporting) {
+                requestAnimationFrame(() => {
+                  if (el) {
+                    el.scrollTop = el.scrollHeight
+                  }
+                })
+              }
+            }}
+            className={styles.buildLog}
+          >
+            {result.log}
+          </pre>
+        </details>
+      </div>
+    )
+  }
 
-                {/* 已构建但无法启动服务的状态（可选） */}
-                {isBuilt && !canStartDev && !isStartingDev && !devServerRunning.has(messageId!) && (
-                  <button
-                    disabled
-                    className={clsx(styles.buildButton, styles.builtButton)}
-                  >
-                    <Cpu size={14} />
-                    <span>已构建</span>
-                  </button>
-                )}
-              </div>
-            )}
-          </div>
-        )
-      }
-      return <span key={index}>{part.content}</span>
+  // 渲染消息的构建日志与导出结果
+  const renderMessageResults = (message: Message) =>
+    getMessageParts(message).map((part) => {
+      if (part.type === 'build-log') return renderBuildLog(message.id, part)
+      if (part.type === 'export-result') return renderExportResult(message.id, part)
+      return null
     })
-  }
 
   // 处理写入点击
-  const handleWriteXml = async (xmlContent: string, messageId: string) => {
+  const handleWriteXml = async (messageId: string, artifact: XmlArtifactPart) => {
     if (!onBuild) return
 
-    setBuildingMessageId(messageId)
+    const key = artifactKey(messageId, artifact.id)
+    setBuildingArtifact(key)
     try {
-      await onBuild(xmlContent)
+      await onBuild(artifact.xml)
       // 写入成功后，标记为已写入
-      setWrittenMessageIds(prev => new Set(prev).add(messageId))
+      setWrittenArtifacts(prev => new Set(prev).add(key))
+      onArtifactStateChange?.(messageId, artifact.id, 'written')
     } catch (error) {
-      console.error('写入失败:', error)
+      buildLog.error('写入失败', error)
       throw error
     } finally {
-      setBuildingMessageId(null)
+      setBuildingArtifact(null)
     }
   }
 
   // 处理构建点击
-  const handleBuildXml = async (messageId: string) => {
-    setBuildingMessageId(messageId)
+  const handleBuildXml = async (messageId: string, artifact: XmlArtifactPart) => {
+    const key = artifactKey(messageId, artifact.id)
+    const initial = createBuildLogPart(artifact.id)
+    const command = 'mvn clean install -DskipTests'
+    // 其他标签页正在构建时不重复执行
+    const lock = await buildLocks.acquire(
+      getBuildLockName('build'),
+      { kind: 'build', messageId, artifactId: artifact.id },
+      'Maven 构建中...'
+    )
+    if (!lock) {
+      setLockConflict({ key, name: getBuildLockName('build'), kind: 'build' })
+      return
+    }
+    setLockConflict(null)
+    setBuildingArtifact(key)
     // 展开构建日志
-    setExpandedBuildLogs(prev => new Set(prev).add(messageId))
+    setExpandedBuildLogs(prev => new Set(prev).add(`${messageId}/${initial.id}`))
     const startTime = Date.now()
     const logs: string[] = []
 
+    // 更新构建日志片段
+    const setResult = (patch: Partial<BuildLogPart>) =>
+      updateResultPart<BuildLogPart>(messageId, initial, () => ({
+        command,
+        phase: 'build',
+        output: logs.join('\n'),
+        executionTime: (Date.now() - startTime) / 1000,
+        ...patch
+      }))
+
     try {
       // 第一步：执行 Maven 构建
       await chatApi.executeBuildCommandStream(
         {
-          command: 'mvn clean install -DskipTests',
+          command,
           command_type: 'maven',
           timeout: 600  // 增加到 10 分钟，首次构建可能需要下载依赖
         },
@@ -420,159 +950,124 @@ export function ChatInterface({
           onLog: (line: string) => {
             // 实时更新日志
             logs.push(line)
-            setBuildResults(prev => ({
-              ...prev,
-              [messageId]: {
-                success: null, // 构建中
-                command: 'mvn clean install -DskipTests',
-                exit_code: null,
-                stdout: logs.join('\n'),
-                stderr: '',
-                execution_time: (Date.now() - startTime) / 1000,
-                message: 'Maven 构建中...',
-                phase: 'build'
-              }
-            }))
+            setResult({
+              success: null, // 构建中
+              exitCode: null,
+              error: '',
+              message: 'Maven 构建中...'
+            })
           },
           onComplete: (success: boolean, message: string) => {
-            console.log(`构建 onComplete 触发: success=${success}, message=${message}`)
-            const executionTime = (Date.now() - startTime) / 1000
-            setBuildResults(prev => ({
-              ...prev,
-              [messageId]: {
-                success,
-                command: 'mvn clean install -DskipTests',
-                exit_code: success ? 0 : -1,
-                stdout: logs.join('\n'),
-                stderr: '',
-                execution_time: executionTime,
-                message,
-                phase: 'build'
-              }
-            }))
+            buildLog.info('构建完成', { success, message })
+            lock.update(message)
+            setResult({
+              success,
+              exitCode: success ? 0 : -1,
+              error: '',
+              message
+            })
 
             if (success) {
-              console.log('构建成功，用户可以点击"启动服务"按钮')
-              setBuiltMessageIds(prev => new Set(prev).add(messageId))
+              buildLog.info('构建成功，用户可以点击"启动服务"按钮')
+              setBuiltArtifacts(prev => new Set(prev).add(key))
+              onArtifactStateChange?.(messageId, artifact.id, 'built')
             } else {
-              console.error('构建失败')
+              buildLog.error('构建失败')
             }
           },
           onError: (error: string) => {
-            console.error('构建流式错误:', error)
-            setBuildResults(prev => ({
-              ...prev,
-              [messageId]: {
-                success: false,
-                command: 'mvn clean install -DskipTests',
-                exit_code: -1,
-                stdout: logs.join('\n'),
-                stderr: error,
-                execution_time: (Date.now() - startTime) / 1000,
-                message: `构建错误: ${error}`,
-                phase: 'build'
-              }
-            }))
+            buildLog.error('构建流式错误', error)
+            setResult({
+              success: false,
+              exitCode: -1,
+              error,
+              message: `构建错误: ${error}`
+            })
           }
         }
       )
     } catch (error) {
-      console.error('构建失败:', error)
-      const executionTime = (Date.now() - startTime) / 1000
-      setBuildResults(prev => ({
-        ...prev,
-        [messageId]: {
-          success: false,
-          command: 'mvn clean install -DskipTests',
-          exit_code: -1,
-          stdout: logs.join('\n'),
-          stderr: error instanceof Error ? error.message : String(error),
-          execution_time: executionTime,
-          message: `构建失败: ${error instanceof Error ? error.message : String(error)}`,
-          phase: 'build'
-        }
-      }))
+      buildLog.error('构建失败', error)
+      const errorMessage = getErrorMessage(error, '构建失败')
+      setResult({
+        success: false,
+        exitCode: -1,
+        error: errorMessage,
+        message: errorMessage
+      })
       throw error
     } finally {
-      setBuildingMessageId(null)
+      setBuildingArtifact(null)
+      lock.release()
     }
   }
 
   // 停止 Quarkus 开发服务器
-  const stopQuarkusDevServer = async (messageId: string) => {
-    console.log('[stopQuarkusDevServer] 停止开发服务器, messageId:', messageId)
+  const stopQuarkusDevServer = async (messageId: string, artifactId: string) => {
+    const key = artifactKey(messageId, artifactId)
+    buildLog.info('停止开发服务器', key)
 
     try {
       // 1. 先取消正在运行的流式请求
-      const controller = devServerAbortControllersRef.current[messageId]
+      const controller = devServerAbortControllersRef.current[key]
       if (controller) {
-        console.log('[stopQuarkusDevServer] 取消流式请求')
+        buildLog.info('取消流式请求')
         controller.abort()
-        delete devServerAbortControllersRef.current[messageId]
+        delete devServerAbortControllersRef.current[key]
       }
 
       // 2. 调用停止服务 API（不等待流式请求结束）
-      console.log('[stopQuarkusDevServer] 调用停止服务 API')
+      buildLog.info('调用停止服务 API')
       const stopResult = await chatApi.stopService(8080)
-      console.log('停止服务结果:', stopResult)
+      buildLog.info('停止服务结果', stopResult)
 
       // 3. 从运行中移除
       setDevServerRunning(prev => {
         const next = new Set(prev)
-        next.delete(messageId)
+        next.delete(key)
         return next
       })
 
       // 4. 更新构建结果
-      setBuildResults(prev => {
-        const current = prev[messageId]
-        if (!current) return prev
-
-        return {
-          ...prev,
-          [messageId]: {
-            ...current,
-            success: true,
-            message: stopResult.message || '服务已停止',
-            phase: 'build'
-          }
-        }
-      })
+      updateResultPart<BuildLogPart>(messageId, createBuildLogPart(artifactId), () => ({
+        success: true,
+        message: stopResult.message || '服务已停止',
+        phase: 'build'
+      }))
     } catch (error) {
-      console.error('停止开发服务器失败:', error)
+      buildLog.error('停止开发服务器失败', error)
       // 即使失败也要从运行状态移除
       setDevServerRunning(prev => {
         const next = new Set(prev)
-        next.delete(messageId)
+        next.delete(key)
         return next
       })
     }
   }
 
   // 处理导出 Excel
-  const handleExportExcel = async (messageId: string) => {
-    console.log('[handleExportExcel] 导出 Excel, messageId:', messageId)
+  const handleExportExcel = async (messageId: string, artifactId: string) => {
+    const key = artifactKey(messageId, artifactId)
+    buildLog.info('导出 Excel', key)
 
     const outputName = 'app.orm.xlsx'
-    const exportResultKey = `${messageId}_export`
+    const initial = createExportResultPart(artifactId)
+    const setResult = (update: (current: ExportResultPart) => Partial<ExportResultPart>) =>
+      updateResultPart(messageId, initial, update)
+
+    // 移除导出中状态
+    const finishExporting = () =>
+      setExportingArtifacts(prev => {
+        const next = new Set(prev)
+        next.delete(key)
+        return next
+      })
 
     // 标记为导出中
-    setExportingMessageIds(prev => new Set(prev).add(messageId))
+    setExportingArtifacts(prev => new Set(prev).add(key))
 
     // 初始化导出结果
-    setBuildResults(prev => ({
-      ...prev,
-      [exportResultKey]: {
-        success: null,
-        command: '导出 Excel',
-        exit_code: null,
-        stdout: '',
-        stderr: '',
-        execution_time: 0,
-        message: '正在导出...',
-        phase: 'build'
-      }
-    }))
+    setResult(() => ({ success: null, message: '正在导出...', log: '', outputName }))
 
     try {
       await chatApi.exportExcelStream(
@@ -580,124 +1075,74 @@ export function ChatInterface({
         {
           onLog: (line: string) => {
             // 实时更新日志
-            setBuildResults(prev => {
-              const current = prev[exportResultKey]
-              return {
-                ...prev,
-                [exportResultKey]: {
-                  ...current,
-                  stdout: current.stdout + line + '\n'
-                }
-              }
-            })
+            setResult((current) => ({ log: current.log + line + '\n' }))
           },
           onComplete: (success: boolean, message: string, outputName?: string) => {
             // 更新完成状态
-            setBuildResults(prev => {
-              const current = prev[exportResultKey]
-              return {
-                ...prev,
-                [exportResultKey]: {
-                  ...current,
-                  success,
-                  message,
-                  exit_code: success ? 0 : -1
-                }
-              }
-            })
-
-            // 移除导出中状态
-            setExportingMessageIds(prev => {
-              const next = new Set(prev)
-              next.delete(messageId)
-              return next
-            })
+            setResult(() => ({ success, message, outputName }))
+            finishExporting()
 
             // 如果导出成功，触发文件下载
             if (success && outputName) {
-              // 创建下载链接
-              const downloadUrl = `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'}/build/export/excel/download?filename=${outputName}`
-              const a = document.createElement('a')
-              a.href = downloadUrl
-              a.download = outputName
-              document.body.appendChild(a)
-              a.click()
-              document.body.removeChild(a)
+              // 通过接口下载，以便携带登录凭据
+              chatApi.downloadExportedFile(outputName).catch(err => {
+                buildLog.error('下载导出文件失败', err)
+              })
             }
           },
           onError: (error: string) => {
-            console.error('[handleExportExcel] 导出失败:', error)
-            setBuildResults(prev => {
-              const current = prev[exportResultKey]
-              return {
-                ...prev,
-                [exportResultKey]: {
-                  ...current,
-                  success: false,
-                  message: error,
-                  exit_code: -1
-                }
-              }
-            })
-            setExportingMessageIds(prev => {
-              const next = new Set(prev)
-              next.delete(messageId)
-              return next
-            })
+            buildLog.error('导出失败', error)
+            setResult(() => ({ success: false, message: error }))
+            finishExporting()
           }
         }
       )
     } catch (error) {
-      console.error('[handleExportExcel] 导出失败:', error)
-      setBuildResults(prev => {
-        const current = prev[exportResultKey]
-        return {
-          ...prev,
-          [exportResultKey]: {
-            ...current,
-            success: false,
-            message: error instanceof Error ? error.message : String(error),
-            exit_code: -1
-          }
-        }
-      })
-      setExportingMessageIds(prev => {
-        const next = new Set(prev)
-        next.delete(messageId)
-        return next
-      })
+      buildLog.error('导出失败', error)
+      setResult(() => ({ success: false, message: getErrorMessage(error, '导出失败') }))
+      finishExporting()
     }
   }
 
   // 启动 Quarkus 开发服务器
-  const startQuarkusDevServer = async (messageId: string) => {
-    console.log('[startQuarkusDevServer] 启动开发服务器, messageId:', messageId)
-    setDevServerRunning(prev => new Set(prev).add(messageId))
+  const startQuarkusDevServer = async (messageId: string, artifactId: string) => {
+    const key = artifactKey(messageId, artifactId)
+    // 开发服务器只在一个标签页中运行，其他标签页可请求停止
+    const lock = await buildLocks.acquire(
+      getBuildLockName('dev'),
+      { kind: 'dev', messageId, artifactId },
+      '清理端口中...',
+      () => stopQuarkusDevServer(messageId, artifactId)
+    )
+    if (!lock) {
+      setLockConflict({ key, name: getBuildLockName('dev'), kind: 'dev' })
+      return
+    }
+    setLockConflict(null)
+    buildLog.info('启动开发服务器', key)
+    setDevServerRunning(prev => new Set(prev).add(key))
     const devStartTime = Date.now()
     const devLogs: string[] = []
 
     // 创建 AbortController 用于取消流式请求
     const controller = new AbortController()
-    devServerAbortControllersRef.current[messageId] = controller
+    devServerAbortControllersRef.current[key] = controller
+
+    // 更新开发服务器日志片段
+    const setResult = (patch: Partial<BuildLogPart>) =>
+      updateResultPart(messageId, createBuildLogPart(artifactId), () => patch)
 
     // 更新状态为"准备启动"
-    setBuildResults(prev => {
-      const current = prev[messageId]
-      return {
-        ...prev,
-        [messageId]: {
-          ...current,
-          success: null,
-          message: '清理端口中...',
-          phase: 'dev'
-        }
-      }
+    setResult({
+      success: null,
+      message: '清理端口中...',
+      phase: 'dev'
     })
 
     try {
       // 先清理 8080 端口
       devLogs.push('--- 清理 8080 端口 ---')
-      console.log('开始清理 8080 端口...')
+      buildLog.info('开始清理 8080 端口...')
 
       let portKillSuccess = true
       try {
@@ -706,7 +1151,7 @@ export function ChatInterface({
           command_type: 'custom',
           timeout: 10
         })
-        console.log('端口清理结果:', portKillResult)
+        buildLog.info('端口清理结果', portKillResult)
         if (portKillResult.stdout) {
           devLogs.push(portKillResult.stdout)
         }
@@ -715,29 +1160,23 @@ export function ChatInterface({
           devLogs.push(`端口清理命令返回失败: ${portKillResult.message}`)
         }
       } catch (portError) {
-        console.error('端口清理错误:', portError)
+        buildLog.error('端口清理错误', portError)
         portKillSuccess = false
-        devLogs.push(`端口清理异常: ${portError instanceof Error ? portError.message : String(portError)}`)
+        devLogs.push(`端口清理异常: ${getErrorMessage(portError, '未知错误')}`)
       }
 
       devLogs.push('端口清理完成，准备启动 Quarkus...')
 
       // 更新状态并显示端口清理日志
-      setBuildResults(prev => {
-        const current = prev[messageId]
-        return {
-          ...prev,
-          [messageId]: {
-            ...current,
-            success: null,
-            message: 'Quarkus 项目启动中...',
-            phase: 'dev',
-            stdout: devLogs.join('\n')
-          }
-        }
+      lock.update('Quarkus 项目启动中...')
+      setResult({
+        success: null,
+        message: 'Quarkus 项目启动中...',
+        phase: 'dev',
+        output: devLogs.join('\n')
       })
 
-      console.log('开始启动 Quarkus 开发服务器...')
+      buildLog.info('开始启动 Quarkus 开发服务器...')
       devLogs.push('--- Quarkus 开发服务器 ---')
 
       // 启动流式执行 Quarkus 开发服务器（多模块项目）
@@ -750,36 +1189,28 @@ export function ChatInterface({
         {
           onLog: (line: string) => {
             devLogs.push(line)
+            lock.update('开发服务器运行中')
             // 更新开发服务器日志
-            setBuildResults(prev => {
-              const current = prev[messageId]
-              return {
-                ...prev,
-                [messageId]: {
-                  ...current,
-                  stdout: devLogs.join('\n')
-                }
-              }
-            })
+            setResult({ output: devLogs.join('\n') })
           },
           onComplete: (success: boolean, message: string) => {
             // 清理 AbortController
-            delete devServerAbortControllersRef.current[messageId]
+            delete devServerAbortControllersRef.current[key]
 
             setDevServerRunning(prev => {
               const next = new Set(prev)
-              next.delete(messageId)
+              next.delete(key)
               return next
             })
           },
           onError: (error: string) => {
-            console.error('Quarkus 开发服务器错误:', error)
+            buildLog.error('Quarkus 开发服务器错误', error)
             // 清理 AbortController
-            delete devServerAbortControllersRef.current[messageId]
+            delete devServerAbortControllersRef.current[key]
 
             setDevServerRunning(prev => {
               const next = new Set(prev)
-              next.delete(messageId)
+              next.delete(key)
               return next
             })
           }
@@ -787,22 +1218,24 @@ export function ChatInterface({
         controller.signal
       )
     } catch (error) {
-      console.error('启动开发服务器失败:', error)
+      buildLog.error('启动开发服务器失败', error)
       // 清理 AbortController
-      delete devServerAbortControllersRef.current[messageId]
+      delete devServerAbortControllersRef.current[key]
 
       setDevServerRunning(prev => {
         const next = new Set(prev)
-        next.delete(messageId)
+        next.delete(key)
         return next
       })
+    } finally {
+      lock.release()
     }
   }
 
   return (
     <div className={styles.chatContainer}>
       <div className={styles.messagesContainer}>
-        <div className={styles.messagesList}>
+        <div className={styles.messagesList} ref={messagesListRef}>
           {messages.length === 0 ? (
             <div className={styles.emptyState}>
               <div className={styles.emptyIcon}>
@@ -812,10 +1245,15 @@ export function ChatInterface({
               <p>有什么我可以帮您的吗？</p>
             </div>
           ) : (
-            messages.map((message) => (
+            messages.map((message, index) => (
               <div
                 key={message.id}
-                className={clsx(styles.message, styles[message.role])}
+                data-message-id={message.id}
+                className={clsx(
+                  styles.message,
+                  styles[message.role],
+                  message.id === highlightedMessageId && styles.highlighted
+                )}
               >
                 <div className={styles.messageAvatar}>
                   {message.role === 'user' ? <User size={18} /> : <Bot size={18} />}
@@ -861,135 +1299,156 @@ export function ChatInterface({
                           </button>
                           {expandedThinking.has(message.id) && (
                             <div className={styles.thinkingContent}>
-                              {renderContent(message.thinkingContent, undefined, true)}
+                              {createMessageParts(message.thinkingContent).map((part) => renderPart(part))}
                             </div>
                           )}
                         </div>
                       )}
-                      {message.content && (
-                        <div className={styles.answerSection}>
-                          <div className={styles.messageBubble}>
-                            {renderContent(message.content, message.role === 'assistant' ? message.id : undefined, false)}
+                      {editing?.id === message.id ? (
+                        <div className={styles.editBox}>
+                          <textarea
+                            value={editing.content}
+                            onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                            onKeyDown={handleEditKeyDown}
+                            className={styles.editTextarea}
+                            rows={3}
+                            autoFocus
+                          />
+                          <div className={styles.editActions}>
+                            <button onClick={() => setEditing(null)}>取消</button>
+                            <button
+                              onClick={handleSubmitEdit}
+                              disabled={disabled || !editing.content.trim()}
+                              className={styles.editSubmit}
+                            >
+                              发送
+                            </button>
                           </div>
                         </div>
+                      ) : (
+                        renderMessageBody(message)
                       )}
-                      {buildResults[message.id] && (
-                        <div className={styles.buildResult}>
-                          <div className={clsx(
-                            styles.buildStatus,
-                            buildResults[message.id].success === true ? styles.success :
-                            buildResults[message.id].success === false ? styles.error :
-                            styles.building
-                          )}>
-                            {/* 智能状态显示 */}
-                            {(() => {
-                              const result = buildResults[message.id]
-
-                              // 开发服务器运行中
-                              if (devServerRunning.has(message.id) && result.phase === 'dev') {
-                                return '🔥 开发服务器运行中'
-                              }
-
-                              // 标准状态
-                              if (result.success === true) return '✓ 构建成功'
-                              if (result.success === false) return '✗ 构建失败'
-                              if (result.phase === 'dev') return '⟳ 项目启动中...'
-                              return '⟳ 构建中...'
-                            })()}
-                            <span className={styles.executionTime}>
-                              ({buildResults[message.id].execution_time.toFixed(2)}s)
-                            </span>
-                          </div>
-                          <details
-                            className={styles.buildDetails}
-                            open={expandedBuildLogs.has(message.id) || devServerRunning.has(message.id)}
-                            onToggle={(e) => {
-                              const isOpen = (e.target as HTMLDetailsElement).open
-                              setExpandedBuildLogs(prev => {
-                                const next = new Set(prev)
-                                if (isOpen) {
-                                  next.add(message.id)
-                                } else {
-                                  next.delete(message.id)
-                                }
-                                return next
-                              })
-                            }}
-                          >
-                            <summary>{buildResults[message.id].phase === 'dev' ? '开发服务器日志' : '构建日志'}</summary>
-                            <pre
-                              ref={(el) => {
-                                // 自动滚动到底部（构建中或开发服务器运行中）
-                                if (el && (buildingMessageId === message.id || devServerRunning.has(message.id))) {
-                                  requestAnimationFrame(() => {
-                                    if (el) {
-                                      el.scrollTop = el.scrollHeight
-                                    }
-                                  })
-                                }
-                              }}
-                              className={styles.buildLog}
-                            >
-                              {buildResults[message.id].stdout || buildResults[message.id].stderr}
-                            </pre>
-                          </details>
+                      {message.statusText && (
+                        <div className={styles.streamStatus}>
+                          <Loader2 className={styles.spin} size={12} />
+                          <span>{message.statusText}</span>
                         </div>
                       )}
-                      {/* 导出 Excel 结果 */}
-                      {buildResults[`${message.id}_export`] && (
-                        <div className={styles.buildResult}>
-                          <div className={clsx(
-                            styles.buildStatus,
-                            buildResults[`${message.id}_export`].success === true ? styles.success :
-                            buildResults[`${message.id}_export`].success === false ? styles.error :
-                            styles.building
-                          )}>
-                            {(() => {
-                              const result = buildResults[`${message.id}_export`]
-                              if (result.success === true) return '✓ Excel 导出成功'
-                              if (result.success === false) return '✗ 导出失败'
-                              return '⟳ 正在导出...'
-                            })()}
-                          </div>
-                          <details
-                            className={styles.buildDetails}
-                            open={exportingMessageIds.has(message.id)}
-                            onToggle={(e) => {
-                              const isOpen = (e.target as HTMLDetailsElement).open
-                              setExpandedBuildLogs(prev => {
-                                const next = new Set(prev)
-                                if (isOpen) {
-                                  next.add(`${message.id}_export`)
-                                } else {
-                                  next.delete(`${message.id}_export`)
-                                }
-                                return next
-                              })
-                            }}
-                          >
-                            <summary>导出日志</summary>
-                            <pre
-                              ref={(el) => {
-                                // 自动滚动到底部（导出中）
-                                if (el && exportingMessageIds.has(message.id)) {
-                                  requestAnimationFrame(() => {
-                                    if (el) {
-                                      el.scrollTop = el.scrollHeight
-                                    }
-                                  })
-                                }
-                              }}
-                              className={styles.buildLog}
+                      {renderMessageResults(message)}
+                    </>
+                  )}
+                  {message.deliveryStatus && (
+                    <div
+                      className={clsx(
+                        styles.deliveryStatus,
+                        message.deliveryStatus === 'failed' && styles.deliveryFailed
+                      )}
+                      title={message.deliveryError}
+                    >
+                      {message.deliveryStatus === 'sending' ? (
+                        <Loader2 className={styles.spin} size={12} />
+                      ) : (
+                        <CloudOff size={12} />
+                      )}
+                      <span>
+                        {message.deliveryStatus === 'pending'
+                          ? '等待联网后发送'
+                          : message.deliveryStatus === 'sending'
+                            ? '发送中'
+                            : `发送失败${message.deliveryError ? `：${message.deliveryError}` : ''}`}
+                      </span>
+                      {message.deliveryStatus !== 'sending' && (
+                        <>
+                          {onRetryMessage && (
+                            <button
+                              onClick={() => onRetryMessage(message.id)}
+                              className={styles.deliveryAction}
                             >
-                              {buildResults[`${message.id}_export`].stdout}
-                            </pre>
-                          </details>
-                        </div>
+                              重试
+                            </button>
+                          )}
+                          {onDiscardMessage && (
+                            <button
+                              onClick={() => onDiscardMessage(message.id)}
+                              className={styles.deliveryAction}
+                            >
+                              丢弃
+                            </button>
+                          )}
+                        </>
                       )}
-                    </>
+                    </div>
+                  )}
+                  {message.truncated && onContinue && index === messages.length - 1 && (
+                    <div className={styles.truncatedNotice}>
+                      <span>
+                        {message.truncated === 'stopped' ? '已停止生成' : '回复未生成完整'}
+                      </span>
+                      <button
+                        onClick={() => onContinue(message.id)}
+                        disabled={disabled}
+                        className={styles.deliveryAction}
+                      >
+                        继续生成
+                      </button>
+                    </div>
                   )}
                   <div className={styles.messageTime}>
+                    {renderBranchNav(message.id)}
                     {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {message.usage && (
+                      <span
+                        className={styles.messageUsage}
+                        title={`输入 ${message.usage.promptTokens} / 输出 ${message.usage.completionTokens} tokens`}
+                      >
+                        {formatUsage(message.usage)}
+                      </span>
+                    )}
+                    {onCopyMessageLink && !message.loading && (
+                      <button
+                        className={styles.messageLink}
+                        onClick={() => handleCopyLink(message.id)}
+                        title="复制消息链接"
+                      >
+                        {copiedMessageId === message.id ? <Check size={12} /> : <Link2 size={12} />}
+                      </button>
+                    )}
+                    {onEditMessage &&
+                      message.role === 'user' &&
+                      !message.deliveryStatus &&
+                      !disabled &&
+                      editing?.id !== message.id && (
+                        <button
+                          className={styles.messageLink}
+                          onClick={() => setEditing({ id: message.id, content: message.content })}
+                          title="编辑并重新发送"
+                        >
+                          <Pencil size={12} />
+                        </button>
+                      )}
+                    {onRegenerate &&
+                      message.role === 'assistant' &&
+                      index === messages.length - 1 &&
+                      !message.loading &&
+                      !messages[index - 1]?.temporaryId &&
+                      !disabled && (
+                        <>
+                          <button
+                            className={styles.messageLink}
+                            onClick={() => onRegenerate(message.id, thinkingEnabled)}
+                            title="重新生成"
+                          >
+                            <RefreshCw size={12} />
+                          </button>
+                          <button
+                            className={styles.messageLink}
+                            onClick={() => onRegenerate(message.id, !thinkingEnabled)}
+                            title={thinkingEnabled ? '关闭思考模式后重新生成' : '开启思考模式后重新生成'}
+                          >
+                            <Brain size={12} />
+                          </button>
+                        </>
+                      )}
                   </div>
                 </div>
               </div>
@@ -999,67 +1458,110 @@ export function ChatInterface({
         </div>
       </div>
 
-      <div
-        className={clsx(styles.inputContainer, isDragging && styles.dragging)}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        <div className={styles.inputArea}>
-          {attachments.length > 0 && (
-            <div className={styles.attachmentsPreview}>
-              {attachments.map((attachment) => (
-                <div key={attachment.id} className={styles.attachmentPreview}>
-                  <span className={styles.attachmentIcon}>{getFileIcon(attachment.type)}</span>
-                  <span className={styles.attachmentName}>{attachment.name}</span>
-                  <button
-                    onClick={() => removeAttachment(attachment.id)}
-                    className={styles.removeAttachment}
+      {!onSendMessage ? (
+        <div className={styles.readOnlyNotice}>只读会话，不能继续发送消息</div>
+      ) : (
+        <div
+          className={clsx(styles.inputContainer, isDragging && styles.dragging)}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          <div className={styles.inputArea}>
+            {attachments.length > 0 && (
+              <div className={styles.attachmentsPreview}>
+                {attachments.map((attachment) => (
+                  <div
+                    key={attachment.id}
+                    className={clsx(
+                      styles.attachmentPreview,
+                      attachment.uploadStatus === 'error' && styles.uploadFailed
+                    )}
+                    title={attachment.uploadError}
                   >
-                    <X size={14} />
-                  </button>
-                </div>
-              ))}
+                    <span className={styles.attachmentIcon}>{getFileIcon(attachment.type)}</span>
+                    <span className={styles.attachmentName}>{attachment.name}</span>
+                    {(attachment.uploadStatus === 'pending' || attachment.uploadStatus === 'uploading') && (
+                      <span className={styles.uploadProgress}>
+                        <span
+                          className={styles.uploadProgressBar}
+                          style={{ width: `${Math.round((attachment.uploadProgress ?? 0) * 100)}%` }}
+                        />
+                      </span>
+                    )}
+                    {attachment.uploadStatus === 'uploading' && (
+                      <span className={styles.uploadPercent}>
+                        {Math.round((attachment.uploadProgress ?? 0) * 100)}%
+                      </span>
+                    )}
+                    {attachment.uploadStatus === 'pending' && (
+                      <span className={styles.uploadPercent}>等待中</span>
+                    )}
+                    {attachment.uploadStatus === 'error' && (
+                      <button
+                        onClick={() => startUpload(attachment)}
+                        className={styles.retryUpload}
+                        title="重新上传"
+                      >
+                        <RotateCw size={14} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => removeAttachment(attachment.id)}
+                      className={styles.removeAttachment}
+                      title={attachment.uploadStatus === 'uploading' ? '取消上传' : '移除附件'}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className={styles.inputWrapper}>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFileInputChange}
+                className={styles.fileInput}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={styles.attachButton}
+                title="添加附件"
+              >
+                <Paperclip size={20} />
+              </button>
+              <textarea
+                ref={textareaRef}
+                value={input}
+                onChange={handleInput}
+                onKeyDown={handleKeyDown}
+                placeholder={isDragging ? '松开以上传文件' : placeholder}
+                disabled={disabled}
+                className={styles.textarea}
+                rows={1}
+              />
+              <button
+                onClick={handleSend}
+                disabled={(!input.trim() && attachments.length === 0) || disabled || isUploadPending}
+                className={styles.sendButton}
+              >
+                {disabled ? <Loader2 className={styles.spin} size={20} /> : <Send size={20} />}
+              </button>
+            </div>
+            <div className={styles.inputHint}>
+              {offline
+                ? '当前离线，消息将在恢复连接后自动发送'
+                : attachments.some((att) => att.uploadStatus === 'error')
+                  ? '部分附件上传失败，请重试或移除后发送'
+                  : isUploadPending
+                    ? '附件上传中，完成后即可发送'
+                    : '按 Enter 发送，Shift + Enter 换行'}
             </div>
-          )}
-          <div className={styles.inputWrapper}>
-            <input
-              ref={fileInputRef}
-              type="file"
-              multiple
-              onChange={handleFileInputChange}
-              className={styles.fileInput}
-            />
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              className={styles.attachButton}
-              title="添加附件"
-            >
-              <Paperclip size={20} />
-            </button>
-            <textarea
-              ref={textareaRef}
-              value={input}
-              onChange={handleInput}
-              onKeyDown={handleKeyDown}
-              placeholder={isDragging ? '松开以上传文件' : placeholder}
-              disabled={disabled}
-              className={styles.textarea}
-              rows={1}
-            />
-            <button
-              onClick={handleSend}
-              disabled={(!input.trim() && attachments.length === 0) || disabled}
-              className={styles.sendButton}
-            >
-              {disabled ? <Loader2 className={styles.spin} size={20} /> : <Send size={20} />}
-            </button>
-          </div>
-          <div className={styles.inputHint}>
-            按 Enter 发送，Shift + Enter 换行
           </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,454 @@
+import { useState, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import type { ChangeEvent, FormEvent } from 'react'
+import {
+  Plus,
+  Pin,
+  PinOff,
+  Pencil,
+  Trash2,
+  X,
+  Search,
+  Upload,
+  Archive,
+  Loader2,
+  PanelLeftClose,
+  PanelLeftOpen
+} from 'lucide-react'
+import { clsx } from 'clsx'
+import { archiveStore } from '@/services/archives'
+import type { ArchiveSummary } from '@/services/archives'
+import { chatApi } from '@/services/chatApi'
+import type { Conversation, SearchResponse, SearchResult } from '@/services/chatApi'
+import { conversationStore } from '@/services/conversations'
+import { getErrorMessage, isAbortError } from '@/services/errors'
+import { splitHighlights } from '@/services/search'
+import styles from './ConversationSidebar.module.css'
+
+// 侧边栏折叠状态保存在 localStorage 中
+const COLLAPSED_KEY = 'auto-chat:sidebar-collapsed'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// 停止输入后多久开始搜索
+const SEARCH_DELAY = 300
+
+const ROLE_LABELS: Record<SearchResult['role'], string> = {
+  user: '我',
+  assistant: '助手',
+  system: '系统'
+}
+
+interface ConversationGroup {
+  label: string
+  items: Conversation[]
+}
+
+interface ConversationSidebarProps {
+  activeId?: string
+  // 当前打开的导入会话
+  activeArchiveId?: string
+  onSelect: (id: string) => void
+  onNew: () => void
+  // 打开搜索结果对应的消息
+  onOpenMessage: (conversationId: string, messageId: string) => void
+  onOpenArchive: (id: string) => void
+}
+
+function readCollapsed(): boolean {
+  try {
+    return localStorage.getItem(COLLAPSED_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+function writeCollapsed(collapsed: boolean): void {
+  try {
+    localStorage.setItem(COLLAPSED_KEY, String(collapsed))
+  } catch {
+    // localStorage 不可用时不保存
+  }
+}
+
+function getDateLabel(timestamp: number, today: number): string {
+  if (timestamp >= today) return '今天'
+  if (timestamp >= today - DAY) return '昨天'
+  if (timestamp >= today - 6 * DAY) return '最近 7 天'
+  if (timestamp >= today - 29 * DAY) return '最近 30 天'
+  return '更早'
+}
+
+/**
+ * 置顶的会话单独成组，其余按创建时间倒序分组
+ */
+function groupConversations(conversations: Conversation[], pinned: string[]): ConversationGroup[] {
+  const groups: ConversationGroup[] = []
+  const pinnedItems = pinned
+    .map((id) => conversations.find((item) => item.id === id))
+    .filter((item): item is Conversation => !!item)
+  if (pinnedItems.length > 0) groups.push({ label: '置顶', items: pinnedItems })
+
+  const startOfToday = new Date()
+  startOfToday.setHours(0, 0, 0, 0)
+  const today = startOfToday.getTime()
+  const rest = conversations
+    .filter((item) => !pinned.includes(item.id))
+    .sort((a, b) => b.created_at - a.created_at)
+  for (const item of rest) {
+    const label = getDateLabel(item.created_at, today)
+    const last = groups[groups.length - 1]
+    if (last?.label === label) {
+      last.items.push(item)
+    } else {
+      groups.push({ label, items: [item] })
+    }
+  }
+  return groups
+}
+
+/**
+ * 会话侧边栏：按日期分组显示当前后端的会话，支持切换、重命名、置顶、删除与全文搜索，
+ * 导入的会话单独列在最后
+ */
+export function ConversationSidebar({
+  activeId,
+  activeArchiveId,
+  onSelect,
+  onNew,
+  onOpenMessage,
+  onOpenArchive
+}: ConversationSidebarProps) {
+  const { conversations, pinned, loading, error } = useSyncExternalStore(
+    conversationStore.subscribe,
+    conversationStore.getSnapshot
+  )
+  const { archives, error: archiveError } = useSyncExternalStore(
+    archiveStore.subscribe,
+    archiveStore.getSnapshot
+  )
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [collapsed, setCollapsed] = useState(readCollapsed)
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null)
+  const [query, setQuery] = useState('')
+  const [search, setSearch] = useState<SearchResponse | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const keyword = query.trim()
+
+  useEffect(() => {
+    conversationStore.load()
+    archiveStore.load()
+  }, [])
+
+  // 停止输入后再搜索，新的输入会取消进行中的请求
+  useEffect(() => {
+    setSearchError(null)
+    if (!keyword) {
+      setSearch(null)
+      setSearching(false)
+      return
+    }
+    const controller = new AbortController()
+    setSearching(true)
+    const timer = window.setTimeout(async () => {
+      try {
+        setSearch(await chatApi.searchConversations(keyword, controller.signal))
+      } catch (error) {
+        if (isAbortError(error)) return
+        setSearch(null)
+        setSearchError(getErrorMessage(error, '搜索失败'))
+      }
+      setSearching(false)
+    }, SEARCH_DELAY)
+    return () => {
+      window.clearTimeout(timer)
+      controller.abort()
+    }
+  }, [keyword])
+
+  const groups = useMemo(() => groupConversations(conversations, pinned), [conversations, pinned])
+
+  const handleToggleCollapsed = () => {
+    writeCollapsed(!collapsed)
+    setCollapsed(!collapsed)
+  }
+
+  const commitRename = () => {
+    if (!editing) return
+    const title = editing.title.trim()
+    setEditing(null)
+    if (title) conversationStore.rename(editing.id, title)
+  }
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault()
+    commitRename()
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 允许再次选择同一个文件
+    event.target.value = ''
+    if (!file) return
+    const id = await archiveStore.import(file)
+    if (id) onOpenArchive(id)
+  }
+
+  const handleDeleteArchive = (archive: ArchiveSummary) => {
+    if (!window.confirm(`确定删除导入的会话「${archive.title}」吗？`)) return
+    if (archive.id === activeArchiveId) onNew()
+    archiveStore.remove(archive.id)
+  }
+
+  const handleDelete = (conversation: Conversation) => {
+    if (!window.confirm(`确定删除会话「${conversation.title}」吗？删除后无法恢复。`)) return
+    if (conversation.id === activeId) onNew()
+    conversationStore.remove(conversation.id)
+  }
+
+  if (collapsed) {
+    return (
+      <aside className={clsx(styles.sidebar, styles.collapsed)}>
+        <button className={styles.iconButton} onClick={handleToggleCollapsed} title="展开会话列表">
+          <PanelLeftOpen size={18} />
+        </button>
+        <button className={styles.iconButton} onClick={onNew} title="新对话">
+          <Plus size={18} />
+        </button>
+      </aside>
+    )
+  }
+
+  return (
+    <aside className={styles.sidebar}>
+      <div className={styles.header}>
+        <button className={styles.newButton} onClick={onNew}>
+          <Plus size={16} />
+          <span>新对话</span>
+        </button>
+        <button
+          className={styles.iconButton}
+          onClick={() => importInputRef.current?.click()}
+          title="导入会话（JSON）"
+        >
+          <Upload size={18} />
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          hidden
+        />
+        <button className={styles.iconButton} onClick={handleToggleCollapsed} title="收起会话列表">
+          <PanelLeftClose size={18} />
+        </button>
+      </div>
+
+      <div className={styles.search}>
+        <Search size={14} />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setQuery('')
+          }}
+          placeholder="搜索消息"
+        />
+        {query && (
+          <button className={styles.iconButton} onClick={() => setQuery('')} title="清除搜索">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className={styles.error}>
+          <span>{error}</span>
+          <button className={styles.iconButton} onClick={() => conversationStore.dismissError()}>
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {archiveError && (
+        <div className={styles.error}>
+          <span>{archiveError}</span>
+          <button className={styles.iconButton} onClick={() => archiveStore.dismissError()}>
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {keyword ? (
+        <div className={styles.list}>
+          {searchError && <div className={styles.error}>{searchError}</div>}
+          {search?.local && <div className={styles.searchNote}>仅搜索了本地缓存的会话</div>}
+          {!searchError && (!search || search.results.length === 0) && (
+            <div className={styles.empty}>
+              {searching ? (
+                <>
+                  <Loader2 className={styles.spin} size={14} />
+                  <span>搜索中...</span>
+                </>
+              ) : (
+                <span>没有找到相关消息</span>
+              )}
+            </div>
+          )}
+          <ul className={styles.results}>
+            {search?.results.map((result) => (
+              <li
+                key={`${result.conversation_id} ${result.message_id}`}
+                className={styles.result}
+                onClick={() => onOpenMessage(result.conversation_id, result.message_id)}
+              >
+                <div className={styles.resultHeader}>
+                  <span className={styles.itemTitle} title={result.conversation_title}>
+                    {result.conversation_title || '新对话'}
+                  </span>
+                  {result.xml_type && (
+                    <span className={styles.resultBadge}>{result.xml_type.toUpperCase()}</span>
+                  )}
+                </div>
+                <p className={styles.resultSnippet}>
+                  <span className={styles.resultRole}>{ROLE_LABELS[result.role]}：</span>
+                  {splitHighlights(result.snippet, keyword).map((segment, index) =>
+                    segment.match ? (
+                      <mark key={index}>{segment.text}</mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className={styles.list}>
+          {groups.length === 0 && (
+            <div className={styles.empty}>
+              {loading ? (
+                <>
+                  <Loader2 className={styles.spin} size={14} />
+                  <span>加载中...</span>
+                </>
+              ) : (
+                <span>暂无会话</span>
+              )}
+            </div>
+          )}
+
+          {groups.map((group) => (
+            <section key={group.label} className={styles.group}>
+              <h3 className={styles.groupLabel}>{group.label}</h3>
+              <ul>
+                {group.items.map((conversation) => (
+                  <li
+                    key={conversation.id}
+                    className={clsx(styles.item, conversation.id === activeId && styles.activeItem)}
+                    onClick={() => onSelect(conversation.id)}
+                  >
+                    {editing?.id === conversation.id ? (
+                      <form
+                        className={styles.renameForm}
+                        onSubmit={handleRename}
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <input
+                          value={editing.title}
+                          onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Escape') setEditing(null)
+                          }}
+                          autoFocus
+                        />
+                      </form>
+                    ) : (
+                      <>
+                        <div className={styles.itemInfo}>
+                          <span className={styles.itemTitle} title={conversation.title}>
+                            {conversation.title || '新对话'}
+                          </span>
+                          <span className={styles.itemMeta}>
+                            {conversation.message_count} 条消息
+                          </span>
+                        </div>
+                        <div className={styles.itemActions} onClick={(e) => e.stopPropagation()}>
+                          <button
+                            className={styles.iconButton}
+                            onClick={() => conversationStore.togglePin(conversation.id)}
+                            title={pinned.includes(conversation.id) ? '取消置顶' : '置顶'}
+                          >
+                            {pinned.includes(conversation.id) ? (
+                              <PinOff size={13} />
+                            ) : (
+                              <Pin size={13} />
+                            )}
+                          </button>
+                          <button
+                            className={styles.iconButton}
+                            onClick={() =>
+                              setEditing({ id: conversation.id, title: conversation.title })
+                            }
+                            title="重命名"
+                          >
+                            <Pencil size={13} />
+                          </button>
+                          <button
+                            className={styles.iconButton}
+                            onClick={() => handleDelete(conversation)}
+                            title="删除"
+                          >
+                            <Trash2 size={13} />
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          {archives.length > 0 && (
+            <section className={styles.group}>
+              <h3 className={styles.groupLabel}>已导入</h3>
+              <ul>
+                {archives.map((archive) => (
+                  <li
+                    key={archive.id}
+                    className={clsx(
+                      styles.item,
+                      archive.id === activeArchiveId && styles.activeItem
+                    )}
+                    onClick={() => onOpenArchive(archive.id)}
+                  >
+                    <Archive size={14} className={styles.archiveIcon} />
+                    <div className={styles.itemInfo}>
+                      <span className={styles.itemTitle} title={archive.title}>
+                        {archive.title || '新对话'}
+                      </span>
+                      <span className={styles.itemMeta}>{archive.message_count} 条消息 · 只读</span>
+                    </div>
+                    <div className={styles.itemActions} onClick={(e) => e.stopPropagation()}>
+                      <button
+                        className={styles.iconButton}
+                        onClick={() => handleDeleteArchive(archive)}
+                        title="删除"
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect, useSyncExternalStore } from 'react'
+import { Bug, X, Trash2, Copy, Check } from 'lucide-react'
+import { clsx } from 'clsx'
+import { debugStore } from '@/services/debug'
+import { getLogLevel, setLogLevel } from '@/services/logger'
+import type { LogLevel } from '@/services/logger'
+import styles from './DebugDrawer.module.css'
+
+type DebugTab = 'requests' | 'events' | 'logs'
+
+const TAB_LABELS: Record<DebugTab, string> = {
+  requests: '请求',
+  events: 'SSE 事件',
+  logs: '日志'
+}
+
+const LOG_LEVELS: Array<LogLevel | 'silent'> = ['debug', 'info', 'warn', 'error', 'silent']
+
+function formatTime(time: number): string {
+  const date = new Date(time)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(
+    date.getMilliseconds(),
+    3
+  )}`
+}
+
+function formatData(data: unknown[]): string {
+  return data
+    .map((item) => {
+      if (item instanceof Error) return item.message
+      if (typeof item === 'string') return item
+      try {
+        return JSON.stringify(item)
+      } catch {
+        return String(item)
+      }
+    })
+    .join(' ')
+}
+
+/**
+ * 调试面板：展示最近的请求、SSE 事件与日志，Ctrl + Shift + D 开关
+ */
+export function DebugDrawer() {
+  const snapshot = useSyncExternalStore(debugStore.subscribe, debugStore.getSnapshot)
+  const [open, setOpen] = useState(false)
+  const [tab, setTab] = useState<DebugTab>('requests')
+  const [logLevel, setLogLevelState] = useState(getLogLevel())
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'd') {
+        event.preventDefault()
+        debugStore.setEnabled(true)
+        setOpen((prev) => !prev)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  if (!snapshot.enabled) return null
+
+  const handleLogLevelChange = (level: LogLevel | 'silent') => {
+    setLogLevel(level, true)
+    setLogLevelState(level)
+  }
+
+  // 复制全部记录，便于发给支持人员
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(snapshot, null, 2))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // 剪贴板不可用时忽略
+    }
+  }
+
+  const handleDisable = () => {
+    setOpen(false)
+    debugStore.setEnabled(false)
+  }
+
+  if (!open) {
+    return (
+      <button className={styles.toggleButton} onClick={() => setOpen(true)} title="打开调试面板">
+        <Bug size={16} />
+      </button>
+    )
+  }
+
+  const counts: Record<DebugTab, number> = {
+    requests: snapshot.requests.length,
+    events: snapshot.events.length,
+    logs: snapshot.logs.length
+  }
+
+  return (
+    <aside className={styles.drawer}>
+      <div className={styles.header}>
+        <div className={styles.tabs}>
+          {(Object.keys(TAB_LABELS) as DebugTab[]).map((key) => (
+            <button
+              key={key}
+              className={clsx(styles.tab, tab === key && styles.activeTab)}
+              onClick={() => setTab(key)}
+            >
+              {TAB_LABELS[key]}
+              <span className={styles.count}>{counts[key]}</span>
+            </button>
+          ))}
+        </div>
+        <div className={styles.actions}>
+          <label className={styles.levelSelect}>
+            控制台
+            <select
+              value={logLevel}
+              onChange={(event) => handleLogLevelChange(event.target.value as LogLevel | 'silent')}
+            >
+              {LOG_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className={styles.iconButton} onClick={handleCopy} title="复制全部记录">
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+          <button className={styles.iconButton} onClick={() => debugStore.clear()} title="清空">
+            <Trash2 size={14} />
+          </button>
+          <button className={styles.textButton} onClick={handleDisable} title="关闭调试并停止记录">
+            停止记录
+          </button>
+          <button className={styles.iconButton} onClick={() => setOpen(false)} title="收起">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.body}>
+        {tab === 'requests' && (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>时间</th>
+                <th>接口</th>
+                <th>状态</th>
+                <th>耗时</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...snapshot.requests].reverse().map((record) => (
+                <tr key={record.id} title={record.requestId}>
+                  <td className={styles.time}>{formatTime(record.time)}</td>
+                  <td className={styles.endpoint}>
+                    {record.endpoint}
+                    {record.attempt > 0 && (
+                      <span className={styles.attempt}>重试 {record.attempt}</span>
+                    )}
+                    {record.error && <div className={styles.errorText}>{record.error}</div>}
+                  </td>
+                  <td
+                    className={clsx(
+                      styles.status,
+                      (record.error || (record.status && record.status >= 400)) && styles.failed
+                    )}
+                  >
+                    {record.status ?? '失败'}
+                  </td>
+                  <td className={styles.duration}>{Math.round(record.duration)} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {tab === 'events' && (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>时间</th>
+                <th>事件</th>
+                <th>ID</th>
+                <th>大小</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...snapshot.events].reverse().map((record) => (
+                <tr key={record.id} title={record.endpoint}>
+                  <td className={styles.time}>{formatTime(record.time)}</td>
+                  <td>{record.event}</td>
+                  <td className={styles.endpoint}>{record.eventId || '-'}</td>
+                  <td className={styles.duration}>{record.size}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {tab === 'logs' && (
+          <ul className={styles.logList}>
+            {[...snapshot.logs].reverse().map((entry) => (
+              <li key={entry.id} className={clsx(styles.logEntry, styles[entry.level])}>
+                <span className={styles.time}>{formatTime(entry.time)}</span>
+                <span className={styles.namespace}>{entry.namespace}</span>
+                <span className={styles.logMessage}>
+                  {entry.message} {formatData(entry.data)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {counts[tab] === 0 && <div className={styles.empty}>暂无记录</div>}
+      </div>
+    </aside>
+  )
+}
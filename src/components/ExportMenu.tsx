@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef } from 'react'
+import { Download, ChevronDown } from 'lucide-react'
+import { EXPORT_FORMAT_LABELS } from '@/services/conversationExport'
+import type { ExportFormat } from '@/services/conversationExport'
+import styles from './ExportMenu.module.css'
+
+const FORMAT_HINTS: Record<ExportFormat, string> = {
+  markdown: '粘贴到文档或评审记录',
+  html: '单个网页文件，可直接在浏览器打开',
+  json: '完整数据，可重新导入为只读会话'
+}
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  disabled?: boolean
+}
+
+/**
+ * 导出会话：选择 Markdown、HTML 或 JSON 格式下载
+ */
+export function ExportMenu({ onExport, disabled }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // 点击面板外部时收起
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false)
+    onExport(format)
+  }
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <button
+        className={styles.trigger}
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        title="导出会话"
+      >
+        <Download size={14} />
+        <span>导出</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <ul className={styles.panel}>
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <li key={format} className={styles.item} onClick={() => handleExport(format)}>
+              <span className={styles.itemName}>{EXPORT_FORMAT_LABELS[format]}</span>
+              <span className={styles.itemHint}>{FORMAT_HINTS[format]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
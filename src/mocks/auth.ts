@@ -0,0 +1,144 @@
+import type { AuthMode, AuthUser } from '@/services/auth'
+import { SOCKET_AUTH_PROTOCOL } from '@/services/transport'
+import { errorResponse, json, route } from './http'
+import type { MockRequest, MockRoute } from './http'
+
+// 演示账号
+export const MOCK_AUTH_USERNAME = 'demo'
+export const MOCK_AUTH_PASSWORD = 'demo123'
+
+const MOCK_USER: AuthUser = {
+  id: 'mock-user-1',
+  username: MOCK_AUTH_USERNAME,
+  display_name: '演示用户'
+}
+
+export interface AuthRoutesOptions {
+  mode: AuthMode
+  // 访问令牌（或会话）可使用的请求次数，用完后返回 401，用于验证刷新流程；签发时读取
+  tokenLifetime?: () => number | undefined
+}
+
+export interface MockAuth {
+  routes: MockRoute[]
+  // 为需要登录的路由加上凭据校验
+  protect: (routes: MockRoute[]) => MockRoute[]
+  // 校验 WebSocket 握手：bearer 令牌通过 Sec-WebSocket-Protocol 传递，Cookie 由浏览器自动携带
+  authorizeSocket: (url: URL, protocols: string[]) => boolean
+}
+
+interface MockCredential {
+  // 剩余可用次数，undefined 表示不限
+  remaining?: number
+}
+
+/**
+ * 登录相关的模拟路由
+ *
+ * bearer 模式校验 Authorization 请求头；cookie 模式无法在模拟 fetch 中读写 Cookie，
+ * 用请求是否设置 credentials: 'include' 加上内存中的会话状态模拟浏览器的 Cookie。
+ */
+export function createAuthRoutes(options: AuthRoutesOptions): MockAuth {
+  const { mode } = options
+  const tokenLifetime = () => options.tokenLifetime?.()
+  const accessTokens = new Map<string, MockCredential>()
+  const refreshTokens = new Set<string>()
+  // cookie 模式下当前的会话，null 表示未登录
+  let cookieSession: MockCredential | null = null
+  let seq = 0
+
+  const issueTokens = () => {
+    seq += 1
+    const accessToken = `mock-access-${seq}`
+    const refreshToken = `mock-refresh-${seq}`
+    accessTokens.set(accessToken, { remaining: tokenLifetime() })
+    refreshTokens.add(refreshToken)
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'bearer',
+      expires_in: 3600
+    }
+  }
+
+  const findCredential = ({ headers, credentials }: MockRequest): MockCredential | null => {
+    if (mode === 'cookie') return credentials === 'include' ? cookieSession : null
+    const token = /^Bearer (.+)$/.exec(headers.get('Authorization') ?? '')?.[1]
+    return token ? (accessTokens.get(token) ?? null) : null
+  }
+
+  // 消耗一次凭据，过期或无效时返回 false
+  const consume = (request: MockRequest): boolean => {
+    const credential = findCredential(request)
+    if (!credential) return false
+    if (credential.remaining === undefined) return true
+    if (credential.remaining <= 0) return false
+    credential.remaining -= 1
+    return true
+  }
+
+  const routes = [
+    route('POST', '/auth/login', async ({ body }) => {
+      const { username, password } = JSON.parse(typeof body === 'string' ? body : '{}')
+      if (username !== MOCK_AUTH_USERNAME || password !== MOCK_AUTH_PASSWORD) {
+        return errorResponse(401, '用户名或密码错误')
+      }
+      if (mode === 'cookie') {
+        cookieSession = { remaining: tokenLifetime() }
+        return json({ user: MOCK_USER })
+      }
+      return json({ user: MOCK_USER, ...issueTokens() })
+    }),
+
+    route('POST', '/auth/refresh', async (request) => {
+      if (mode === 'cookie') {
+        if (!cookieSession || request.credentials !== 'include') {
+          return errorResponse(401, '会话已失效')
+        }
+        cookieSession = { remaining: tokenLifetime() }
+        return json({ success: true })
+      }
+      const { refresh_token: refreshToken } = JSON.parse(
+        typeof request.body === 'string' ? request.body : '{}'
+      )
+      // 刷新令牌只能使用一次（轮换）
+      if (!refreshTokens.delete(refreshToken)) {
+        return errorResponse(401, '刷新令牌无效')
+      }
+      return json(issueTokens())
+    }),
+
+    route('GET', '/auth/me', (request) =>
+      consume(request) ? json(MOCK_USER) : errorResponse(401, '未登录')
+    ),
+
+    route('POST', '/auth/logout', () => {
+      cookieSession = null
+      accessTokens.clear()
+      refreshTokens.clear()
+      return json({ success: true })
+    })
+  ]
+
+  const protect = (items: MockRoute[]): MockRoute[] =>
+    items.map((item) => ({
+      ...item,
+      handler: (request) =>
+        consume(request) ? item.handler(request) : errorResponse(401, '未登录或登录已过期')
+    }))
+
+  const authorizeSocket = (url: URL, protocols: string[]): boolean => {
+    const index = protocols.indexOf(SOCKET_AUTH_PROTOCOL)
+    const token = index === -1 ? undefined : protocols[index + 1]
+    return consume({
+      method: 'GET',
+      url,
+      params: {},
+      headers: new Headers(token ? { Authorization: `Bearer ${token}` } : {}),
+      body: null,
+      credentials: 'include'
+    })
+  }
+
+  return { routes, protect, authorizeSocket }
+}
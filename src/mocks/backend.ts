@@ -0,0 +1,752 @@
+import type {
+  BuildCommandResponse,
+  ConversationDetail,
+  FileUploadResponse,
+  SendMessageRequest
+} from '@/services/chatApi'
+import type { FetchLike } from '@/services/middleware'
+import type { ChatSocketConnector } from '@/services/transport'
+import type { UploadTransport } from '@/services/upload'
+import type { AuthMode } from '@/services/auth'
+import { searchConversationDetails } from '@/services/search'
+import type { MessageAction, XmlArtifactState } from '@/types/chat'
+import { createAuthRoutes } from './auth'
+import { createMockFetch, createMockUploadTransport, errorResponse, json, route } from './http'
+import type { MockHandler, MockRequest, MockRoute } from './http'
+import { formatSSEEvent, sseResponse } from './sse'
+import type { MockSSEEvent } from './sse'
+import { DEFAULT_MOCK_SCENARIO, MOCK_SCENARIOS } from './scenarios'
+import type { MockLogScript, MockReply, MockScenario } from './scenarios'
+import { createUploadRoutes } from './uploads'
+import { createMockSocketConnector, socketRoute } from './websocket'
+
+type TaskStatus = 'pending' | 'processing' | 'success' | 'failed'
+
+interface MockTask {
+  id: string
+  // 每次查询推进一步，停在最后一个状态
+  statuses: TaskStatus[]
+  polls: number
+  result?: unknown
+  error?: string
+}
+
+interface MockMessageStream {
+  conversationId: string
+  events: MockSSEEvent[]
+}
+
+type MockMessageRequest = Partial<SendMessageRequest> & { enable_thinking?: boolean }
+
+const XML_TYPES = [
+  {
+    type: 'orm',
+    name: 'orm',
+    display_name: 'ORM 实体',
+    element_tag: 'entity',
+    description: '数据实体定义，合并到 app.orm.xml'
+  },
+  {
+    type: 'config',
+    name: 'config',
+    display_name: '配置项',
+    element_tag: 'setting',
+    description: '应用配置，合并到 app.config.xml'
+  },
+  {
+    type: 'api',
+    name: 'api',
+    display_name: '接口',
+    element_tag: 'endpoint',
+    description: '接口定义，合并到 app.api.xml'
+  }
+]
+
+// SSE 内容分块大小（字符）
+const CHUNK_LENGTH = 6
+
+// 继续生成时追加到回复末尾的内容
+const CONTINUE_REPLY = '\n\n（续写）以上就是完整的回复，如需调整可以继续提问。'
+
+function splitChunks(text: string): string[] {
+  const chars = Array.from(text)
+  const chunks: string[] = []
+  for (let i = 0; i < chars.length; i += CHUNK_LENGTH) {
+    chunks.push(chars.slice(i, i + CHUNK_LENGTH).join(''))
+  }
+  return chunks
+}
+
+function readAttribute(xml: string, tag: string, attribute: string): string | undefined {
+  const element = new RegExp(`<${tag}\\b[^>]*>`).exec(xml)?.[0]
+  if (!element) return undefined
+  return new RegExp(`\\b${attribute}="([^"]*)"`).exec(element)?.[1]
+}
+
+async function readJsonBody<T>(body: BodyInit | null | undefined): Promise<T> {
+  return JSON.parse(typeof body === 'string' ? body : '{}') as T
+}
+
+/**
+ * 构建 / 导出日志流事件，最后一个为 complete
+ */
+function logEvents(script: MockLogScript, outputName?: string): MockSSEEvent[] {
+  return [
+    ...script.lines.map((line) => ({ data: { type: 'log', line } })),
+    {
+      data: {
+        type: 'complete',
+        success: script.success,
+        message: script.message,
+        ...(script.success && outputName ? { output_name: outputName } : {})
+      }
+    }
+  ]
+}
+
+/**
+ * 一直保持连接的日志流（模拟开发服务器），直到请求被取消
+ */
+async function* keepAliveEvents(
+  lines: string[],
+  signal?: AbortSignal
+): AsyncGenerator<MockSSEEvent> {
+  for (const line of lines) {
+    yield { data: { type: 'log', line } }
+  }
+  await new Promise<never>((_, reject) => {
+    const onAbort = () => reject(new DOMException('请求已取消', 'AbortError'))
+    if (signal?.aborted) onAbort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export interface MockBackendOptions {
+  // 场景名称或自定义场景
+  scenario?: string | MockScenario
+  // 时间来源，测试中可固定
+  now?: () => number
+  // 认证方式，与 ChatApiClient 的 AuthSession 保持一致，默认不校验登录
+  auth?: AuthMode
+}
+
+export interface MockBackend {
+  fetch: FetchLike
+  uploadTransport: UploadTransport
+  socketConnector: ChatSocketConnector
+  getScenario(): MockScenario
+  // 切换场景，已有的会话数据保留
+  setScenario(scenario: string | MockScenario): void
+  // 清空所有数据并重置 ID 序号
+  reset(): void
+}
+
+function resolveScenario(scenario: string | MockScenario | undefined): MockScenario {
+  if (typeof scenario === 'object') return scenario
+  return MOCK_SCENARIOS[scenario ?? DEFAULT_MOCK_SCENARIO] ?? MOCK_SCENARIOS[DEFAULT_MOCK_SCENARIO]
+}
+
+/**
+ * 创建内存中的模拟后端，实现 ChatApiClient 调用的全部接口
+ */
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+  const now = options.now ?? Date.now
+  let scenario = resolveScenario(options.scenario)
+
+  let seq = 0
+  let conversations = new Map<string, ConversationDetail>()
+  let streams = new Map<string, MockMessageStream>()
+  let tasks = new Map<string, MockTask>()
+  let mergedXml = new Set<string>()
+  // 已触发过的一次性错误
+  let triggeredFailures = new Set<string>()
+  // 登录状态在切换场景时保留
+  const auth =
+    options.auth && options.auth !== 'none'
+      ? createAuthRoutes({ mode: options.auth, tokenLifetime: () => scenario.tokenLifetime })
+      : null
+
+  const nextId = (prefix: string) => {
+    seq += 1
+    return `${prefix}-${seq}`
+  }
+
+  const createTask = (task: Omit<MockTask, 'id' | 'polls'>) => {
+    const id = nextId('mock-task')
+    tasks.set(id, { ...task, id, polls: 0 })
+    return id
+  }
+
+  const addFile = (conversationId: string, file: FileUploadResponse) => {
+    conversations.get(conversationId)?.files.push({
+      id: file.file_id,
+      original_name: file.original_name,
+      file_size: file.file_size,
+      upload_time: now()
+    })
+  }
+
+  const getFileNames = (conversation: ConversationDetail, fileIds: string[] = []) =>
+    conversation.files.filter((file) => fileIds.includes(file.id)).map((file) => file.original_name)
+
+  /**
+   * 生成回复对应的 SSE 事件并保存，断线后可续传
+   */
+  const createReplyEvents = (
+    conversation: ConversationDetail,
+    reply: MockReply,
+    ids: { messageId: string; userMessageId?: string },
+    promptTokens: number,
+    renamed = false
+  ) => {
+    const { messageId } = ids
+    const toolCalls = (reply.toolCalls ?? []).map((call, index) => ({
+      ...call,
+      id: `${messageId}-tool-${index}`
+    }))
+    // 用字符数粗略估算 token 数
+    const completionTokens = Array.from((reply.thinking ?? '') + reply.content).length
+
+    const payloads: Array<Pick<MockSSEEvent, 'event' | 'data'>> = [
+      { event: 'start', data: { message_id: messageId, user_message_id: ids.userMessageId } },
+      { event: 'status', data: { message: '正在理解问题', stage: 'analyzing' } },
+      ...splitChunks(reply.thinking ?? '').map((content) => ({
+        event: 'data',
+        data: { content, thinking: true }
+      })),
+      ...toolCalls.flatMap(({ id, name, arguments: args, result }) => [
+        { event: 'status', data: { message: `正在调用工具 ${name}`, stage: 'tool' } },
+        { event: 'tool_call', data: { id, name, arguments: args } },
+        { event: 'tool_result', data: { id, result } }
+      ]),
+      { event: 'status', data: { message: '正在生成回复', stage: 'generating' } },
+      ...splitChunks(reply.content).map((content) => ({ event: 'data', data: { content } })),
+      ...(renamed
+        ? [
+            {
+              event: 'title',
+              data: { conversation_id: conversation.conversation_id, title: conversation.title }
+            }
+          ]
+        : []),
+      {
+        event: 'usage',
+        data: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens
+        }
+      },
+      { event: 'end', data: { message_id: messageId } }
+    ]
+    const events = payloads.map((payload, index) => ({
+      ...payload,
+      id: `${messageId}:${index}`,
+      retry: index === 0 ? 1000 : undefined
+    }))
+    streams.set(messageId, { conversationId: conversation.conversation_id, events })
+
+    return { messageId, reply, events }
+  }
+
+  /**
+   * 记录一轮对话并生成对应的 SSE 事件
+   *
+   * parentId 为分支点，未提供时接在最后一条消息之后；指定的消息不存在时返回 null。
+   */
+  const recordExchange = (
+    conversation: ConversationDetail,
+    message: string,
+    fileIds: string[] | undefined,
+    enableThinking: boolean,
+    parentId?: string | null
+  ) => {
+    const last = conversation.messages[conversation.messages.length - 1]
+    const parent = parentId === undefined ? (last?.id ?? null) : parentId
+    if (parent !== null && !conversation.messages.some((item) => item.id === parent)) {
+      return null
+    }
+
+    const userMessageId = nextId('mock-message')
+    const messageId = nextId('mock-message')
+    const reply = scenario.reply({
+      message,
+      enableThinking,
+      fileNames: getFileNames(conversation, fileIds)
+    })
+
+    const timestamp = now()
+    conversation.messages.push(
+      {
+        id: userMessageId,
+        role: 'user',
+        parent_id: parent,
+        content: message,
+        timestamp,
+        file_ids: fileIds
+      },
+      {
+        id: messageId,
+        role: 'assistant',
+        parent_id: userMessageId,
+        content: reply.content,
+        timestamp: timestamp + 1,
+        thinking: reply.thinking
+      }
+    )
+    const renamed = conversation.title === '新对话'
+    if (renamed) {
+      conversation.title = Array.from(message).slice(0, 20).join('')
+    }
+
+    return createReplyEvents(
+      conversation,
+      reply,
+      { messageId, userMessageId },
+      Array.from(message).length,
+      renamed
+    )
+  }
+
+  /**
+   * 重新生成用户消息的回复（作为新的分支），或续写已有的回复
+   *
+   * 目标消息不存在或角色不符时返回 null。
+   */
+  const recordAction = (
+    conversation: ConversationDetail,
+    action: MessageAction['type'],
+    targetId: string | undefined,
+    enableThinking: boolean
+  ) => {
+    const target = conversation.messages.find((item) => item.id === targetId)
+    if (action === 'regenerate') {
+      if (target?.role !== 'user') return null
+      const messageId = nextId('mock-message')
+      const reply = scenario.reply({
+        message: target.content,
+        enableThinking,
+        fileNames: getFileNames(conversation, target.file_ids)
+      })
+      conversation.messages.push({
+        id: messageId,
+        role: 'assistant',
+        parent_id: target.id,
+        content: reply.content,
+        timestamp: now(),
+        thinking: reply.thinking
+      })
+      return createReplyEvents(
+        conversation,
+        reply,
+        { messageId },
+        Array.from(target.content).length
+      )
+    }
+
+    if (target?.role !== 'assistant' || !target.id) return null
+    const reply: MockReply = { content: CONTINUE_REPLY }
+    target.content += reply.content
+    return createReplyEvents(
+      conversation,
+      reply,
+      { messageId: target.id },
+      Array.from(target.content).length
+    )
+  }
+
+  /**
+   * 按请求体发送消息、重新生成或续写，请求无效时返回错误信息
+   */
+  const recordMessageRequest = (conversation: ConversationDetail, request: MockMessageRequest) => {
+    const enableThinking = !!request.enable_thinking
+    if (request.action) {
+      return (
+        recordAction(conversation, request.action, request.target_id, enableThinking) ??
+        '目标消息不存在'
+      )
+    }
+    if (!request.message) return '消息内容不能为空'
+    return (
+      recordExchange(
+        conversation,
+        request.message,
+        request.file_ids,
+        enableThinking,
+        request.parent_id
+      ) ?? '分支点对应的消息不存在'
+    )
+  }
+
+  const withConversation =
+    (
+      handler: (conversation: ConversationDetail, request: MockRequest) => ReturnType<MockHandler>
+    ): MockHandler =>
+    (request) => {
+      const conversation = conversations.get(request.params.conversationId)
+      if (!conversation) return errorResponse(404, '会话不存在')
+      return handler(conversation, request)
+    }
+
+  const buildRoutes = (): MockRoute[] => [
+    route('POST', '/conversations/', async ({ body }) => {
+      const { title } = await readJsonBody<{ title?: string }>(body)
+      const conversation: ConversationDetail = {
+        conversation_id: nextId('mock-conversation'),
+        title: title || '新对话',
+        created_at: now(),
+        messages: [],
+        files: []
+      }
+      conversations.set(conversation.conversation_id, conversation)
+      return json({ conversation_id: conversation.conversation_id, title: conversation.title })
+    }),
+
+    route('GET', '/conversations/', () =>
+      json(
+        [...conversations.values()].reverse().map((conversation) => ({
+          id: conversation.conversation_id,
+          title: conversation.title,
+          created_at: conversation.created_at,
+          message_count: conversation.messages.length
+        }))
+      )
+    ),
+
+    route('GET', '/search', ({ url }) =>
+      json(searchConversationDetails([...conversations.values()], url.searchParams.get('q') ?? ''))
+    ),
+
+    route(
+      'GET',
+      '/conversations/:conversationId',
+      withConversation((conversation) => json(conversation))
+    ),
+
+    route(
+      'PATCH',
+      '/conversations/:conversationId',
+      withConversation(async (conversation, { body }) => {
+        const { title } = await readJsonBody<{ title?: string }>(body)
+        if (!title?.trim()) return errorResponse(422, '标题不能为空')
+        conversation.title = title.trim()
+        return json({ success: true })
+      })
+    ),
+
+    route(
+      'PUT',
+      '/conversations/:conversationId/messages/:messageId/artifacts/:partId',
+      withConversation(async (conversation, { params, body }) => {
+        const message = conversation.messages.find((item) => item.id === params.messageId)
+        if (!message) return errorResponse(404, '消息不存在')
+        const { state } = await readJsonBody<{ state?: XmlArtifactState }>(body)
+        if (state !== 'written' && state !== 'built') return errorResponse(422, '未知的状态')
+        message.artifacts = [
+          ...(message.artifacts ?? []).filter((item) => item.part_id !== params.partId),
+          { part_id: params.partId, state, updated_at: now() }
+        ]
+        return json({ success: true })
+      })
+    ),
+
+    route(
+      'DELETE',
+      '/conversations/:conversationId',
+      withConversation((conversation) => {
+        conversations.delete(conversation.conversation_id)
+        return json({ success: true })
+      })
+    ),
+
+    route(
+      'POST',
+      '/conversations/:conversationId/messages',
+      withConversation(async (conversation, { headers, body, signal }) => {
+        const exchange = recordMessageRequest(
+          conversation,
+          await readJsonBody<MockMessageRequest>(body)
+        )
+        if (typeof exchange === 'string') return errorResponse(422, exchange)
+        const { messageId, reply, events } = exchange
+
+        const acceptsStream = headers.get('accept')?.includes('text/event-stream')
+        if (acceptsStream && scenario.sseMode === 'buffered') {
+          // 代理缓冲并改写了响应类型，事件一次性到达
+          return new Response(events.map(formatSSEEvent).join(''), {
+            headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+          })
+        }
+        if (acceptsStream && scenario.sseMode !== 'task') {
+          return sseResponse(events, {
+            interval: scenario.streamInterval,
+            signal,
+            dropAfter: scenario.dropChatStreamAfter
+          })
+        }
+
+        // 非流式发送：返回任务，通过 /tasks/:taskId 查询结果
+        const taskId = createTask({
+          statuses: ['pending', 'processing', 'success'],
+          result: { message_id: messageId, content: reply.content, thinking: reply.thinking }
+        })
+        return json({ task_id: taskId, message_id: messageId, status: 'pending' })
+      })
+    ),
+
+    route(
+      'GET',
+      '/conversations/:conversationId/messages/:messageId/stream',
+      ({ params, headers, signal }) => {
+        const stream = streams.get(params.messageId)
+        if (!stream || stream.conversationId !== params.conversationId) {
+          return errorResponse(404, '消息流不存在或已过期')
+        }
+        const lastEventId = headers.get('last-event-id')
+        const index = stream.events.findIndex((event) => event.id === lastEventId)
+        return sseResponse(stream.events.slice(index + 1), {
+          interval: scenario.streamInterval,
+          signal
+        })
+      }
+    ),
+
+    route('POST', '/upload', () => {
+      const taskId = createTask(
+        scenario.build.success
+          ? {
+              statuses: ['pending', 'processing', 'success'],
+              result: { message: scenario.build.message, logs: scenario.build.lines }
+            }
+          : {
+              statuses: ['pending', 'processing', 'failed'],
+              error: scenario.build.message
+            }
+      )
+      return json({ task_id: taskId })
+    }),
+
+    route('GET', '/tasks/:taskId', ({ params }) => {
+      const task = tasks.get(params.taskId)
+      if (!task) return errorResponse(404, '任务不存在')
+
+      const status = task.statuses[Math.min(task.polls, task.statuses.length - 1)]
+      task.polls++
+      return json({
+        task_id: task.id,
+        status,
+        ...(status === 'success' ? { result: task.result } : {}),
+        ...(status === 'failed' ? { error: task.error } : {})
+      })
+    }),
+
+    route('POST', '/orm/entity', async ({ body }) => {
+      const { xml = '' } = await readJsonBody<{ xml?: string }>(body)
+      const entityName = readAttribute(xml, 'entity', 'name')
+      if (!entityName) return errorResponse(422, '未找到 entity 的 name 属性')
+
+      const key = `orm:${entityName}`
+      const action = mergedXml.has(key) ? 'updated' : 'created'
+      mergedXml.add(key)
+      return json({
+        success: true,
+        entity_name: entityName,
+        action,
+        message: `实体 ${entityName} 已${action === 'created' ? '创建' : '更新'}`
+      })
+    }),
+
+    route('POST', '/xml/merge', async ({ body }) => {
+      const { xml_type: xmlType, xml = '' } = await readJsonBody<{
+        xml_type?: string
+        xml?: string
+      }>(body)
+      const type = XML_TYPES.find((item) => item.type === xmlType)
+      if (!type) return errorResponse(422, `不支持的 XML 类型：${xmlType}`)
+
+      const identifier = readAttribute(xml, type.element_tag, 'name')
+      if (!identifier) {
+        return errorResponse(422, `未找到 ${type.element_tag} 的 name 属性`)
+      }
+
+      const key = `${type.type}:${identifier}`
+      const action = mergedXml.has(key) ? 'updated' : 'created'
+      mergedXml.add(key)
+      const displayName = readAttribute(xml, type.element_tag, 'displayName') || identifier
+      return json({
+        success: true,
+        xml_type: type.type,
+        identifier,
+        action,
+        display_name: displayName,
+        message: `${type.display_name}「${displayName}」已${action === 'created' ? '创建' : '更新'}`
+      })
+    }),
+
+    route('GET', '/xml/types', () => json({ types: XML_TYPES })),
+
+    route('POST', '/build/stop', async ({ body }) => {
+      const { port = 8080 } = await readJsonBody<{ port?: number }>(body)
+      return json({ success: true, message: `已停止端口 ${port} 上的服务` })
+    }),
+
+    route('POST', '/build/execute', async ({ body }) => {
+      const request = await readJsonBody<{ command?: string }>(body)
+      const command = request.command ?? ''
+      const isKill = /\bkill\b/.test(command)
+      const script: MockLogScript = isKill
+        ? { success: true, message: '端口已释放', lines: ['未发现占用 8080 端口的进程'] }
+        : scenario.build
+      const result: BuildCommandResponse = {
+        success: script.success,
+        command,
+        exit_code: script.success ? 0 : 1,
+        stdout: script.lines.join('\n'),
+        stderr: script.success ? '' : script.message,
+        execution_time: script.lines.length * 0.5,
+        message: script.message
+      }
+      return json(result)
+    }),
+
+    route('POST', '/build/execute/stream', async ({ body, signal }) => {
+      const { command = '' } = await readJsonBody<{ command?: string }>(body)
+
+      // 开发服务器不会主动结束，直到被停止
+      if (/quarkus|:dev\b/.test(command)) {
+        return sseResponse(
+          keepAliveEvents(
+            [
+              '[INFO] Scanning for projects...',
+              '__  ____  __  _____   ___  __ ____  ______ ',
+              'INFO  [io.quarkus] labor-tracking-app started in 2.314s.',
+              'INFO  [io.quarkus] Listening on: http://localhost:8080',
+              'INFO  [io.quarkus] Profile dev activated. Live Coding activated.'
+            ],
+            signal
+          ),
+          { interval: scenario.streamInterval, signal }
+        )
+      }
+
+      return sseResponse(logEvents(scenario.build), {
+        interval: scenario.streamInterval,
+        signal
+      })
+    }),
+
+    route('POST', '/build/export/excel', async ({ body }) => {
+      const { output_name: outputName = 'app.orm.xlsx' } = await readJsonBody<{
+        output_name?: string
+      }>(body)
+      return json({
+        success: scenario.export.success,
+        message: scenario.export.message,
+        output_name: outputName
+      })
+    }),
+
+    route('POST', '/build/export/excel/stream', async ({ body, signal }) => {
+      const { output_name: outputName = 'app.orm.xlsx' } = await readJsonBody<{
+        output_name?: string
+      }>(body)
+      return sseResponse(logEvents(scenario.export, outputName), {
+        interval: scenario.streamInterval,
+        signal
+      })
+    }),
+
+    route('GET', '/build/export/excel/download', () => {
+      return new Response(new Blob(['mock excel'], { type: 'application/octet-stream' }), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        }
+      })
+    }),
+
+    ...createUploadRoutes({
+      failChunks: scenario.failChunks,
+      onUploaded: addFile,
+      nextId
+    })
+  ]
+
+  /**
+   * 按场景为路由注入一次性错误
+   */
+  const injectFailures = (routes: MockRoute[]): MockRoute[] =>
+    routes.map((item) => {
+      const key = `${item.method} ${item.path}`
+      const status = scenario.failOnce?.[key]
+      if (!status) return item
+      return {
+        ...item,
+        handler: (request) => {
+          if (!triggeredFailures.has(key)) {
+            triggeredFailures.add(key)
+            return errorResponse(status, '模拟服务暂时不可用')
+          }
+          return item.handler(request)
+        }
+      }
+    })
+
+  let mockFetch: FetchLike
+  const rebuild = () => {
+    triggeredFailures = new Set()
+    const routes = injectFailures(buildRoutes())
+    // 健康检查无需登录
+    const health = route('GET', '/health', () => json({ status: 'ok' }))
+    mockFetch = createMockFetch(
+      [health, ...(auth ? [...auth.routes, ...auth.protect(routes)] : routes)],
+      {
+        latency: () => scenario.latency
+      }
+    )
+  }
+  rebuild()
+
+  // 与真实请求一致：开发者工具切换为离线时请求失败，便于验证离线消息队列
+  const fetchImpl: FetchLike = (input, init) =>
+    typeof navigator !== 'undefined' && !navigator.onLine
+      ? Promise.reject(new TypeError('Failed to fetch'))
+      : mockFetch(input, init)
+
+  // WebSocket 聊天：首帧与 SSE 请求体相同，推送相同的事件
+  const socketConnector = createMockSocketConnector(
+    [
+      socketRoute('/conversations/:conversationId/messages/ws', ({ params, payload }) => {
+        const conversation = conversations.get(params.conversationId)
+        if (!conversation || scenario.webSocket === false) return null
+        const exchange = recordMessageRequest(conversation, payload as MockMessageRequest)
+        return typeof exchange === 'string' ? null : exchange.events
+      })
+    ],
+    {
+      latency: () => scenario.latency,
+      interval: () => scenario.streamInterval,
+      // 不支持 WebSocket 时握手失败
+      authorize: (url, protocols) =>
+        scenario.webSocket !== false && (auth?.authorizeSocket(url, protocols) ?? true)
+    }
+  )
+
+  return {
+    fetch: fetchImpl,
+    uploadTransport: createMockUploadTransport(fetchImpl),
+    socketConnector,
+    getScenario: () => scenario,
+    setScenario(next) {
+      scenario = resolveScenario(next)
+      rebuild()
+    },
+    reset() {
+      seq = 0
+      conversations = new Map()
+      streams = new Map()
+      tasks = new Map()
+      mergedXml = new Set()
+      rebuild()
+    }
+  }
+}
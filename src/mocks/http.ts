@@ -0,0 +1,153 @@
+import type { FetchLike } from '@/services/middleware'
+import type { UploadTransport } from '@/services/upload'
+import { sleep } from '@/services/retry'
+
+/**
+ * 路由处理函数的入参
+ */
+export interface MockRequest {
+  method: string
+  url: URL
+  // 路径中 :name 占位符匹配到的值
+  params: Record<string, string>
+  headers: Headers
+  body: BodyInit | null | undefined
+  // 模拟 Cookie 会话时据此判断浏览器是否会携带 Cookie
+  credentials?: RequestCredentials
+  signal?: AbortSignal
+}
+
+export type MockHandler = (request: MockRequest) => Response | Promise<Response>
+
+export interface MockRoute {
+  method: string
+  // 定义时的路径，如 '/tasks/:taskId'
+  path: string
+  pattern: RegExp
+  keys: string[]
+  handler: MockHandler
+}
+
+/**
+ * 将带 `:name` 占位符的路径编译为正则
+ */
+export function compilePath(path: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = []
+  const source = path
+    .replace(/\/+$/, '')
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key)
+      return '([^/]+)'
+    })
+  return { pattern: new RegExp(`^${source}/?$`), keys }
+}
+
+/**
+ * 按编译后的路径匹配 pathname，返回占位符的值
+ */
+export function matchPath(
+  compiled: { pattern: RegExp; keys: string[] },
+  pathname: string
+): Record<string, string> | null {
+  const match = compiled.pattern.exec(pathname.replace(/\/+$/, '') || '/')
+  if (!match) return null
+  const params: Record<string, string> = {}
+  compiled.keys.forEach((key, index) => {
+    params[key] = decodeURIComponent(match[index + 1])
+  })
+  return params
+}
+
+/**
+ * 定义模拟路由，path 支持 `:name` 占位符
+ */
+export function route(method: string, path: string, handler: MockHandler): MockRoute {
+  return { method: method.toUpperCase(), path, ...compilePath(path), handler }
+}
+
+/**
+ * 构造 JSON 响应
+ */
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers)
+  headers.set('Content-Type', 'application/json')
+  return new Response(JSON.stringify(body), { ...init, headers })
+}
+
+/**
+ * 构造与后端一致的错误响应（{ detail }）
+ */
+export function errorResponse(status: number, detail: string): Response {
+  return json({ detail }, { status })
+}
+
+export interface MockFetchOptions {
+  // 未匹配任何路由时的处理，默认返回 404
+  fallback?: FetchLike
+  // 模拟网络延迟（毫秒），传入函数时每次请求重新计算
+  latency?: number | (() => number)
+}
+
+/**
+ * 创建基于路由表的 fetch 实现，只按路径匹配，忽略请求的域名
+ */
+export function createMockFetch(routes: MockRoute[], options: MockFetchOptions = {}): FetchLike {
+  const { fallback, latency = 0 } = options
+
+  return async (input, init = {}) => {
+    const url = new URL(input, window.location.origin)
+    const method = (init.method ?? 'GET').toUpperCase()
+
+    for (const item of routes) {
+      if (item.method !== method) continue
+      const params = matchPath(item, url.pathname)
+      if (!params) continue
+
+      const delay = typeof latency === 'function' ? latency() : latency
+      if (delay > 0) await sleep(delay, init.signal ?? undefined)
+      if (init.signal?.aborted) {
+        throw new DOMException('请求已取消', 'AbortError')
+      }
+
+      return item.handler({
+        method,
+        url,
+        params,
+        headers: new Headers(init.headers),
+        body: init.body,
+        credentials: init.credentials,
+        signal: init.signal ?? undefined
+      })
+    }
+
+    if (fallback) return fallback(input, init)
+    return errorResponse(404, `Mock route not found: ${method} ${url.pathname}`)
+  }
+}
+
+function getBodySize(body: BodyInit | null | undefined): number {
+  if (body instanceof Blob) return body.size
+  if (body instanceof FormData) {
+    let size = 0
+    body.forEach((value) => {
+      if (value instanceof Blob) size += value.size
+    })
+    return size
+  }
+  return 0
+}
+
+/**
+ * 基于模拟 fetch 的上传实现，按请求体大小分几步上报进度
+ */
+export function createMockUploadTransport(mockFetch: FetchLike, steps = 5): UploadTransport {
+  return async (url, init, onProgress) => {
+    const total = getBodySize(init.body)
+    for (let step = 1; step <= steps && total > 0; step++) {
+      await sleep(30, init.signal ?? undefined)
+      onProgress?.(Math.round((total * step) / steps), total)
+    }
+    return mockFetch(url, init)
+  }
+}
@@ -0,0 +1,67 @@
+import { getAuthModeFromEnv } from '@/services/auth'
+import type { ChatApiClientOptions } from '@/services/chatApi'
+import { createMockBackend } from './backend'
+import type { MockBackend } from './backend'
+import { DEFAULT_MOCK_SCENARIO, MOCK_SCENARIOS } from './scenarios'
+
+export { createMockBackend } from './backend'
+export type { MockBackend, MockBackendOptions } from './backend'
+export { MOCK_SCENARIOS, DEFAULT_MOCK_SCENARIO } from './scenarios'
+export type { MockScenario, MockChatRequest, MockReply, MockLogScript } from './scenarios'
+export { MOCK_AUTH_USERNAME, MOCK_AUTH_PASSWORD } from './auth'
+
+// 当前场景保存在 localStorage 中，刷新后保持
+const MOCK_SCENARIO_KEY = 'auto-chat:mock-scenario'
+
+let backend: MockBackend | undefined
+
+/**
+ * 是否启用浏览器内的模拟后端（VITE_API_MOCK=true）
+ */
+export function isMockEnabled(): boolean {
+  return import.meta.env.VITE_API_MOCK === 'true'
+}
+
+/**
+ * 当前场景：URL 参数 ?mock-scenario= > localStorage > VITE_MOCK_SCENARIO > default
+ */
+export function getMockScenarioName(): string {
+  const candidates = [
+    new URLSearchParams(window.location.search).get('mock-scenario'),
+    localStorage.getItem(MOCK_SCENARIO_KEY),
+    import.meta.env.VITE_MOCK_SCENARIO
+  ]
+  return candidates.find((name) => name && name in MOCK_SCENARIOS) ?? DEFAULT_MOCK_SCENARIO
+}
+
+/**
+ * 切换场景，立即对后续请求生效
+ */
+export function setMockScenario(name: string): void {
+  if (!(name in MOCK_SCENARIOS)) {
+    throw new Error(`未知的模拟场景：${name}`)
+  }
+  localStorage.setItem(MOCK_SCENARIO_KEY, name)
+  backend?.setScenario(name)
+}
+
+/**
+ * 应用内共享的模拟后端
+ */
+export function getMockBackend(): MockBackend {
+  if (!backend) {
+    backend = createMockBackend({ scenario: getMockScenarioName(), auth: getAuthModeFromEnv() })
+  }
+  return backend
+}
+
+/**
+ * 让 ChatApiClient 使用模拟后端的配置
+ */
+export function getMockClientOptions(): Pick<
+  ChatApiClientOptions,
+  'fetch' | 'uploadTransport' | 'socketConnector'
+> {
+  const { fetch, uploadTransport, socketConnector } = getMockBackend()
+  return { fetch, uploadTransport, socketConnector }
+}
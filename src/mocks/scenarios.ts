@@ -0,0 +1,223 @@
+/**
+ * 聊天请求摘要，供场景生成回复
+ */
+export interface MockChatRequest {
+  message: string
+  enableThinking: boolean
+  fileNames: string[]
+}
+
+/**
+ * 回复正文之前的工具调用
+ */
+export interface MockToolCall {
+  name: string
+  arguments: Record<string, unknown>
+  result: unknown
+}
+
+export interface MockReply {
+  thinking?: string
+  toolCalls?: MockToolCall[]
+  content: string
+}
+
+/**
+ * 构建 / 导出日志脚本
+ */
+export interface MockLogScript {
+  success: boolean
+  lines: string[]
+  message: string
+}
+
+/**
+ * 模拟后端的行为脚本，相同输入总是产生相同的输出
+ */
+export interface MockScenario {
+  name: string
+  description: string
+  // 普通请求的响应延迟（毫秒）
+  latency: number
+  // SSE 事件之间的间隔（毫秒）
+  streamInterval: number
+  reply: (request: MockChatRequest) => MockReply
+  // 聊天流发送 n 个事件后断开一次，用于验证 Last-Event-ID 续传
+  dropChatStreamAfter?: number
+  build: MockLogScript
+  export: MockLogScript
+  // 首次上传时失败的分片序号
+  failChunks?: number[]
+  // 按 'METHOD /path/:param' 注入一次性的错误状态码
+  failOnce?: Record<string, number>
+  // 启用登录时，访问令牌可使用的请求次数
+  tokenLifetime?: number
+  // 聊天 SSE 的表现：stream 正常推送；buffered 模拟代理改写响应（非 text/event-stream）；
+  // task 模拟代理去掉 Accept 头，后端返回非流式任务。默认 stream
+  sseMode?: 'stream' | 'buffered' | 'task'
+  // 是否支持 WebSocket 聊天，默认 true
+  webSocket?: boolean
+}
+
+const ORM_ENTITY_XML = `<entity name="app.labor.WorkOrder" tableName="work_order" displayName="工单">
+  <columns>
+    <column name="id" code="ID" propId="1" stdSqlType="VARCHAR" precision="36" primary="true"/>
+    <column name="title" code="TITLE" propId="2" stdSqlType="VARCHAR" precision="200"/>
+    <column name="status" code="STATUS" propId="3" stdSqlType="INTEGER"/>
+    <column name="createdAt" code="CREATED_AT" propId="4" stdSqlType="TIMESTAMP"/>
+  </columns>
+</entity>`
+
+const CONFIG_XML = `<setting name="labor.work-order.max-hours" value="12" displayName="单个工单最大工时"/>`
+
+const API_XML = `<endpoint name="listWorkOrders" path="/api/work-orders" method="GET" displayName="查询工单列表"/>`
+
+/**
+ * 按关键词生成固定的回复，匹配不到时复述用户消息
+ */
+function scriptedReply({ message, enableThinking, fileNames }: MockChatRequest): MockReply {
+  let content: string
+  let thinking: string
+  let toolCalls: MockToolCall[] | undefined
+
+  if (/实体|entity|表|orm/i.test(message)) {
+    thinking = '用户需要一个数据实体。先确定主键和基础字段，再补充业务字段，最后输出 ORM XML。'
+    toolCalls = [
+      {
+        name: 'search_entities',
+        arguments: { keyword: '工单' },
+        result: { matches: [], message: '项目中不存在同名实体' }
+      }
+    ]
+    content = `已根据需求生成工单实体：\n\n\`\`\`xml\n${ORM_ENTITY_XML}\n\`\`\`\n\n点击「构建」即可写入 app.orm.xml。`
+  } else if (/配置|config|setting/i.test(message)) {
+    thinking = '这是一个配置项需求，使用 setting 标签描述即可。'
+    content = `可以添加如下配置：\n\n\`\`\`xml\n${CONFIG_XML}\n\`\`\``
+  } else if (/接口|api|endpoint/i.test(message)) {
+    thinking = '需要定义一个查询接口，使用 endpoint 标签。'
+    content = `接口定义如下：\n\n\`\`\`xml\n${API_XML}\n\`\`\``
+  } else {
+    thinking = '用户的问题比较简单，直接回答即可。'
+    content = `收到你的消息：「${message}」。\n\n这是模拟后端的回复，可以尝试让我“生成一个工单实体”。`
+  }
+
+  if (fileNames.length > 0) {
+    content += `\n\n已读取附件：${fileNames.join('、')}`
+  }
+
+  return { thinking: enableThinking ? thinking : undefined, toolCalls, content }
+}
+
+const BUILD_SUCCESS: MockLogScript = {
+  success: true,
+  message: '构建成功',
+  lines: [
+    '[INFO] Scanning for projects...',
+    '[INFO] Reactor Build Order:',
+    '[INFO]   labor-tracking-dao',
+    '[INFO]   labor-tracking-service',
+    '[INFO]   labor-tracking-app',
+    '[INFO] --- maven-compiler-plugin:3.11.0:compile (default-compile) ---',
+    '[INFO] Compiling 42 source files',
+    '[INFO] BUILD SUCCESS',
+    '[INFO] Total time:  8.214 s'
+  ]
+}
+
+const BUILD_FAILURE: MockLogScript = {
+  success: false,
+  message: '构建失败，退出码 1',
+  lines: [
+    '[INFO] Scanning for projects...',
+    '[INFO] --- maven-compiler-plugin:3.11.0:compile (default-compile) ---',
+    '[ERROR] /app/labor-tracking-dao/src/main/java/app/labor/WorkOrder.java:[12,8] cannot find symbol',
+    '[ERROR]   symbol:   class LocalDateTime',
+    '[INFO] BUILD FAILURE',
+    '[ERROR] Failed to execute goal org.apache.maven.plugins:maven-compiler-plugin:3.11.0:compile'
+  ]
+}
+
+const EXPORT_SUCCESS: MockLogScript = {
+  success: true,
+  message: '导出成功',
+  lines: ['读取 app.orm.xml', '解析到 1 个实体', '生成工作表：工单', '写入 Excel 文件']
+}
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  default: {
+    name: 'default',
+    description: '所有请求成功，响应迅速',
+    latency: 150,
+    streamInterval: 40,
+    reply: scriptedReply,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS
+  },
+  'build-failure': {
+    name: 'build-failure',
+    description: '构建与导出失败，XML 合并成功',
+    latency: 150,
+    streamInterval: 40,
+    reply: scriptedReply,
+    build: BUILD_FAILURE,
+    export: { success: false, message: '导出失败：未找到 app.orm.xml', lines: ['读取 app.orm.xml'] }
+  },
+  flaky: {
+    name: 'flaky',
+    description: '网络不稳定：聊天流中途断开、分片上传失败、首次请求返回 503',
+    latency: 300,
+    streamInterval: 60,
+    reply: scriptedReply,
+    dropChatStreamAfter: 6,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS,
+    failChunks: [1],
+    failOnce: {
+      'POST /conversations/': 503,
+      'GET /conversations/:conversationId': 503,
+      'POST /xml/merge': 502
+    }
+  },
+  'token-expiry': {
+    name: 'token-expiry',
+    description: '启用登录时访问令牌很快过期，用于验证自动刷新',
+    latency: 150,
+    streamInterval: 40,
+    reply: scriptedReply,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS,
+    tokenLifetime: 3
+  },
+  'proxy-buffered': {
+    name: 'proxy-buffered',
+    description: '代理缓冲并改写 SSE 响应类型，按 SSE 解析一次性到达的事件',
+    latency: 150,
+    streamInterval: 40,
+    reply: scriptedReply,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS,
+    sseMode: 'buffered'
+  },
+  'no-streaming': {
+    name: 'no-streaming',
+    description: 'SSE 与 WebSocket 都不可用，退回非流式发送并轮询任务',
+    latency: 150,
+    streamInterval: 40,
+    reply: scriptedReply,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS,
+    sseMode: 'task',
+    webSocket: false
+  },
+  slow: {
+    name: 'slow',
+    description: '响应缓慢，便于观察加载状态',
+    latency: 1500,
+    streamInterval: 300,
+    reply: scriptedReply,
+    build: BUILD_SUCCESS,
+    export: EXPORT_SUCCESS
+  }
+}
+
+export const DEFAULT_MOCK_SCENARIO = 'default'
@@ -0,0 +1,80 @@
+import { sleep } from '@/services/retry'
+
+/**
+ * 模拟的 SSE 事件，data 会被序列化为 JSON
+ */
+export interface MockSSEEvent {
+  event?: string
+  data: unknown
+  id?: string
+  retry?: number
+}
+
+/**
+ * 将事件编码为 SSE 文本
+ */
+export function formatSSEEvent(event: MockSSEEvent): string {
+  let text = ''
+  if (event.event) text += `event: ${event.event}\n`
+  if (event.id !== undefined) text += `id: ${event.id}\n`
+  if (event.retry !== undefined) text += `retry: ${event.retry}\n`
+  for (const line of JSON.stringify(event.data).split('\n')) {
+    text += `data: ${line}\n`
+  }
+  return `${text}\n`
+}
+
+export interface SSEResponseOptions {
+  // 事件之间的间隔（毫秒）
+  interval?: number
+  signal?: AbortSignal
+  // 发送完 dropAfter 个事件后直接关闭连接，模拟网络中断
+  dropAfter?: number
+}
+
+/**
+ * 按固定间隔逐个推送事件的 SSE 响应
+ */
+export function sseResponse(
+  events: Iterable<MockSSEEvent> | AsyncIterable<MockSSEEvent>,
+  options: SSEResponseOptions = {}
+): Response {
+  const { interval = 0, signal, dropAfter } = options
+  const encoder = new TextEncoder()
+  const iterator =
+    Symbol.asyncIterator in events
+      ? events[Symbol.asyncIterator]()
+      : (events as Iterable<MockSSEEvent>)[Symbol.iterator]()
+  let sent = 0
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (dropAfter !== undefined && sent >= dropAfter) {
+        controller.close()
+        return
+      }
+      try {
+        if (sent > 0 && interval > 0) await sleep(interval, signal)
+        const result = await iterator.next()
+        if (result.done) {
+          controller.close()
+          return
+        }
+        sent++
+        controller.enqueue(encoder.encode(formatSSEEvent(result.value)))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
@@ -0,0 +1,130 @@
+import type { ChunkedUploadSession, FileUploadResponse } from '@/services/chatApi'
+import { errorResponse, json, route } from './http'
+import type { MockRoute } from './http'
+
+interface MockUpload {
+  session: ChunkedUploadSession
+  fileName: string
+  fileSize: number
+  chunks: Map<number, Blob>
+}
+
+export interface UploadRoutesOptions {
+  // 首次上传时返回 503 的分片序号，用于验证重试与续传
+  failChunks?: number[]
+  // 文件上传完成后回调，用于同步会话的文件列表
+  onUploaded?: (conversationId: string, file: FileUploadResponse) => void
+  // 生成 ID，默认使用路由内部的自增序号
+  nextId?: (prefix: string) => string
+}
+
+/**
+ * 文件上传相关的模拟路由（普通上传与分片上传），数据仅保存在内存中
+ */
+export function createUploadRoutes(options: UploadRoutesOptions = {}): MockRoute[] {
+  const uploads = new Map<string, MockUpload>()
+  // 同一文件指纹复用上传会话，模拟服务端的去重
+  const byFingerprint = new Map<string, string>()
+  const pendingFailures = new Set(options.failChunks ?? [])
+  let seq = 0
+  const nextId =
+    options.nextId ??
+    ((prefix: string) => {
+      seq += 1
+      return `${prefix}-${seq}`
+    })
+
+  const findUpload = (params: Record<string, string>) => uploads.get(params.uploadId)
+
+  return [
+    route('POST', '/conversations/:conversationId/upload', async ({ params, body }) => {
+      const file = body instanceof FormData ? body.get('files') : null
+      if (!(file instanceof File)) {
+        return errorResponse(422, '缺少上传文件')
+      }
+      const result: FileUploadResponse = {
+        file_id: nextId('mock-file'),
+        original_name: file.name,
+        file_size: file.size
+      }
+      options.onUploaded?.(params.conversationId, result)
+      return json(result)
+    }),
+
+    route('POST', '/conversations/:conversationId/uploads', async ({ body }) => {
+      const payload = JSON.parse(String(body ?? '{}'))
+      if (typeof payload.file_size !== 'number' || !payload.file_name) {
+        return errorResponse(422, '缺少文件信息')
+      }
+
+      const existingId = payload.fingerprint ? byFingerprint.get(payload.fingerprint) : undefined
+      const existing = existingId ? uploads.get(existingId) : undefined
+      if (existing) return json(existing.session)
+
+      const chunkSize = Math.max(1, payload.chunk_size || 1024 * 1024)
+      const session: ChunkedUploadSession = {
+        upload_id: nextId('mock-upload'),
+        chunk_size: chunkSize,
+        total_chunks: Math.max(1, Math.ceil(payload.file_size / chunkSize)),
+        received_chunks: []
+      }
+      uploads.set(session.upload_id, {
+        session,
+        fileName: payload.file_name,
+        fileSize: payload.file_size,
+        chunks: new Map()
+      })
+      if (payload.fingerprint) byFingerprint.set(payload.fingerprint, session.upload_id)
+      return json(session, { status: 201 })
+    }),
+
+    route('GET', '/conversations/:conversationId/uploads/:uploadId', ({ params }) => {
+      const upload = findUpload(params)
+      if (!upload) return errorResponse(404, '上传会话不存在')
+      return json(upload.session)
+    }),
+
+    route(
+      'PUT',
+      '/conversations/:conversationId/uploads/:uploadId/chunks/:index',
+      ({ params, body }) => {
+        const upload = findUpload(params)
+        if (!upload) return errorResponse(404, '上传会话不存在')
+
+        const index = Number(params.index)
+        if (!Number.isInteger(index) || index < 0 || index >= upload.session.total_chunks) {
+          return errorResponse(422, `分片序号无效：${params.index}`)
+        }
+        if (pendingFailures.delete(index)) {
+          return errorResponse(503, '模拟分片上传失败')
+        }
+
+        upload.chunks.set(index, body instanceof Blob ? body : new Blob([]))
+        upload.session.received_chunks = [...upload.chunks.keys()].sort((a, b) => a - b)
+        return new Response(null, { status: 204 })
+      }
+    ),
+
+    route('POST', '/conversations/:conversationId/uploads/:uploadId/complete', ({ params }) => {
+      const upload = findUpload(params)
+      if (!upload) return errorResponse(404, '上传会话不存在')
+
+      const missing = upload.session.total_chunks - upload.chunks.size
+      if (missing > 0) {
+        return errorResponse(409, `还有 ${missing} 个分片未上传`)
+      }
+
+      uploads.delete(params.uploadId)
+      for (const [fingerprint, id] of byFingerprint) {
+        if (id === params.uploadId) byFingerprint.delete(fingerprint)
+      }
+      const result: FileUploadResponse = {
+        file_id: nextId('mock-file'),
+        original_name: upload.fileName,
+        file_size: upload.fileSize
+      }
+      options.onUploaded?.(params.conversationId, result)
+      return json(result)
+    })
+  ]
+}
@@ -0,0 +1,129 @@
+import { sleep } from '@/services/retry'
+import type { ChatSocketConnector } from '@/services/transport'
+import { compilePath, matchPath } from './http'
+import type { MockSSEEvent } from './sse'
+
+export interface MockSocketRequest {
+  url: URL
+  params: Record<string, string>
+  // 客户端发送的首帧（已解析的 JSON）
+  payload: unknown
+  signal: AbortSignal
+}
+
+/**
+ * 处理一次连接，返回要推送的事件；返回 null 时以 1008 关闭连接
+ */
+export type MockSocketHandler = (
+  request: MockSocketRequest
+) =>
+  | Iterable<MockSSEEvent>
+  | AsyncIterable<MockSSEEvent>
+  | null
+  | Promise<Iterable<MockSSEEvent> | AsyncIterable<MockSSEEvent> | null>
+
+export interface MockSocketRoute {
+  path: string
+  pattern: RegExp
+  keys: string[]
+  handler: MockSocketHandler
+}
+
+/**
+ * 定义 WebSocket 模拟路由，path 支持 `:name` 占位符
+ */
+export function socketRoute(path: string, handler: MockSocketHandler): MockSocketRoute {
+  return { path, ...compilePath(path), handler }
+}
+
+function findRoute(
+  routes: MockSocketRoute[],
+  pathname: string
+): { route: MockSocketRoute; params: Record<string, string> } | null {
+  for (const route of routes) {
+    const params = matchPath(route, pathname)
+    if (params) return { route, params }
+  }
+  return null
+}
+
+export interface MockSocketOptions {
+  // 建立连接的延迟（毫秒）
+  latency?: () => number
+  // 事件之间的间隔（毫秒）
+  interval?: () => number
+  // 返回 false 时拒绝连接（握手失败），用于模拟未登录
+  authorize?: (url: URL, protocols: string[]) => boolean
+}
+
+/**
+ * 创建基于路由表的 WebSocket 连接实现
+ *
+ * 只处理客户端发送的首帧，事件以 `{ event, data, id }` 帧推送，推送完毕后由服务端关闭连接。
+ * 未匹配路由或未通过 authorize 时连接无法建立。
+ */
+export function createMockSocketConnector(
+  routes: MockSocketRoute[],
+  options: MockSocketOptions = {}
+): ChatSocketConnector {
+  return (rawUrl, handlers, protocols = []) => {
+    const url = new URL(rawUrl)
+    const controller = new AbortController()
+    let opened = false
+    let closed = false
+    let started = false
+
+    const close = (code: number, reason = '') => {
+      if (closed) return
+      closed = true
+      controller.abort()
+      // 与浏览器一致，close 事件异步触发
+      setTimeout(() => handlers.onClose({ code, reason, opened }), 0)
+    }
+
+    const found = findRoute(routes, url.pathname)
+
+    sleep(options.latency?.() ?? 0, controller.signal)
+      .then(() => {
+        if (!found || options.authorize?.(url, protocols) === false) {
+          close(1006)
+          return
+        }
+        opened = true
+        handlers.onOpen()
+      })
+      .catch(() => undefined)
+
+    const run = async (data: string) => {
+      if (!found) return
+      const events = await found.route.handler({
+        url,
+        params: found.params,
+        payload: JSON.parse(data),
+        signal: controller.signal
+      })
+      if (!events) {
+        close(1008, 'rejected')
+        return
+      }
+      for await (const event of events) {
+        await sleep(options.interval?.() ?? 0, controller.signal)
+        if (closed) return
+        handlers.onMessage(JSON.stringify({ event: event.event, data: event.data, id: event.id }))
+      }
+      close(1000)
+    }
+
+    return {
+      send(data) {
+        if (!opened) throw new DOMException('连接尚未建立', 'InvalidStateError')
+        if (closed || started) return
+        started = true
+        run(data).catch(() => close(1011, 'error'))
+      },
+      close(code = 1000, reason = '') {
+        close(code, reason)
+      }
+    }
+  }
+}
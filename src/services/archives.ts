@@ -0,0 +1,144 @@
+import { parseConversationExport } from './conversationExport'
+import type { ConversationExport } from './conversationExport'
+import { withStore } from './db'
+import { getErrorMessage } from './errors'
+import { createLogger } from './logger'
+import { createRequestId } from './middleware'
+
+const log = createLogger('archives')
+
+/**
+ * 从 JSON 导出文件导入的会话，只读，与任何后端无关
+ */
+export interface ConversationArchive {
+  // 导入时生成的 ID，与原会话 ID 无关
+  id: string
+  imported_at: number
+  data: ConversationExport
+}
+
+export interface ArchiveSummary {
+  id: string
+  title: string
+  message_count: number
+  imported_at: number
+}
+
+export interface ArchiveListSnapshot {
+  archives: ArchiveSummary[]
+  error: string | null
+}
+
+function toSummary(archive: ConversationArchive): ArchiveSummary {
+  return {
+    id: archive.id,
+    title: archive.data.conversation.title,
+    message_count: archive.data.messages.length,
+    imported_at: archive.imported_at
+  }
+}
+
+/**
+ * 导入的会话归档，保存在 IndexedDB（archives 存储）中
+ *
+ * IndexedDB 不可用时只保存在内存中，刷新页面后丢失。
+ */
+class ArchiveStore {
+  private snapshot: ArchiveListSnapshot = { archives: [], error: null }
+  private listeners = new Set<() => void>()
+  private archives = new Map<string, ConversationArchive>()
+
+  async load(): Promise<void> {
+    try {
+      const stored = await withStore<ConversationArchive[]>('archives', 'readonly', (store) =>
+        store.getAll()
+      )
+      stored?.forEach((archive) => this.archives.set(archive.id, archive))
+    } catch (error) {
+      log.debug('读取导入的会话失败', error)
+    }
+    this.publish()
+  }
+
+  async get(id: string): Promise<ConversationArchive | undefined> {
+    const loaded = this.archives.get(id)
+    if (loaded) return loaded
+    try {
+      const archive = await withStore<ConversationArchive | undefined>(
+        'archives',
+        'readonly',
+        (store) => store.get(id)
+      )
+      if (archive) this.archives.set(id, archive)
+      return archive
+    } catch (error) {
+      log.debug('读取导入的会话失败', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 导入 JSON 导出文件，返回归档 ID；文件无效时通过 error 提示并返回 undefined
+   */
+  async import(file: File): Promise<string | undefined> {
+    let data: ConversationExport
+    try {
+      data = parseConversationExport(await file.text())
+    } catch (error) {
+      this.setSnapshot({ error: `导入失败：${getErrorMessage(error, '无法读取文件')}` })
+      return undefined
+    }
+
+    const archive: ConversationArchive = {
+      id: `archive-${createRequestId()}`,
+      imported_at: Date.now(),
+      data
+    }
+    this.archives.set(archive.id, archive)
+    try {
+      await withStore('archives', 'readwrite', (store) => store.put(archive))
+    } catch (error) {
+      log.warn('保存导入的会话失败，刷新后将丢失', error)
+    }
+    log.info('导入会话', { id: archive.id, messages: data.messages.length })
+    this.publish()
+    return archive.id
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.archives.delete(id)) return
+    this.publish()
+    try {
+      await withStore('archives', 'readwrite', (store) => store.delete(id))
+    } catch (error) {
+      log.warn('删除导入的会话失败', error)
+    }
+  }
+
+  dismissError(): void {
+    this.setSnapshot({ error: null })
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): ArchiveListSnapshot => this.snapshot
+
+  private publish(): void {
+    const archives = [...this.archives.values()]
+      .sort((a, b) => b.imported_at - a.imported_at)
+      .map(toSummary)
+    this.setSnapshot({ archives })
+  }
+
+  private setSnapshot(patch: Partial<ArchiveListSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const archiveStore = new ArchiveStore()
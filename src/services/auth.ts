@@ -0,0 +1,198 @@
+/**
+ * 认证方式
+ * - bearer: 请求头携带 Authorization: Bearer <token>，401 时用 refresh_token 刷新
+ * - cookie: 由浏览器携带会话 Cookie（credentials: 'include'），401 时调用刷新接口续期
+ * - none: 不认证（本地开发）
+ */
+export type AuthMode = 'bearer' | 'cookie' | 'none'
+
+export interface AuthTokens {
+  access_token: string
+  refresh_token?: string
+  token_type?: string
+  // 有效期（秒）
+  expires_in?: number
+}
+
+export interface AuthUser {
+  id: string
+  username: string
+  display_name?: string
+}
+
+export type AuthStatus = 'unknown' | 'anonymous' | 'authenticated'
+
+export interface AuthState {
+  // unknown 表示尚未向服务端确认登录状态
+  status: AuthStatus
+  user: AuthUser | null
+}
+
+interface StoredSession {
+  tokens: AuthTokens | null
+  user: AuthUser | null
+}
+
+export interface AuthSessionOptions {
+  mode: AuthMode
+  // 保存令牌的 localStorage 键，传 null 时仅保存在内存中
+  storageKey?: string | null
+}
+
+/**
+ * 登录状态与凭据，ChatApiClient 通过它为请求附加凭据
+ */
+export class AuthSession {
+  readonly mode: AuthMode
+  private storageKey: string | null
+  private tokens: AuthTokens | null = null
+  private state: AuthState
+  private listeners = new Set<() => void>()
+  private refreshing: Promise<boolean> | null = null
+
+  constructor(options: AuthSessionOptions) {
+    this.mode = options.mode
+    this.storageKey = options.storageKey === undefined ? 'auto-chat:auth' : options.storageKey
+
+    const stored = this.load()
+    this.tokens = stored?.tokens ?? null
+    this.state =
+      this.mode === 'none'
+        ? { status: 'authenticated', user: null }
+        : { status: 'unknown', user: stored?.user ?? null }
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'none'
+  }
+
+  get accessToken(): string | null {
+    return this.tokens?.access_token ?? null
+  }
+
+  get refreshToken(): string | null {
+    return this.tokens?.refresh_token ?? null
+  }
+
+  /**
+   * 为请求附加凭据，返回应使用的 credentials
+   */
+  applyCredentials(headers: Headers): RequestCredentials | undefined {
+    if (this.mode === 'cookie') return 'include'
+    if (this.mode === 'bearer' && this.tokens && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${this.tokens.access_token}`)
+    }
+    return undefined
+  }
+
+  /**
+   * 登录成功或确认会话有效后调用
+   */
+  setSession(user: AuthUser, tokens?: AuthTokens | null): void {
+    if (tokens !== undefined) this.tokens = tokens
+    this.setState({ status: 'authenticated', user })
+    this.save()
+  }
+
+  /**
+   * 刷新令牌后更新，保留原有的 refresh_token（服务端未轮换时）
+   */
+  updateTokens(tokens: AuthTokens): void {
+    this.tokens = {
+      ...tokens,
+      refresh_token: tokens.refresh_token ?? this.tokens?.refresh_token
+    }
+    this.save()
+  }
+
+  /**
+   * 退出登录或会话失效
+   */
+  clear(): void {
+    this.tokens = null
+    this.setState({ status: this.enabled ? 'anonymous' : 'authenticated', user: null })
+    this.save()
+  }
+
+  /**
+   * 刷新凭据，多个请求同时遇到 401 时只刷新一次
+   *
+   * staleToken 为失败请求使用的令牌，若令牌已被其他请求刷新则直接返回 true。
+   * 刷新请求本身失败（如网络错误）时抛出，不视为会话失效。
+   */
+  refreshOnce(refresher: () => Promise<boolean>, staleToken: string | null): Promise<boolean> {
+    if (this.mode === 'bearer' && staleToken !== this.accessToken) {
+      return Promise.resolve(this.accessToken !== null)
+    }
+    if (!this.refreshing) {
+      this.refreshing = refresher().finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  /**
+   * 切换保存位置（如切换后端配置），读取对应的登录状态并等待重新确认
+   */
+  switchStorage(storageKey: string | null): void {
+    if (storageKey === this.storageKey) return
+    this.storageKey = storageKey
+    const stored = this.load()
+    this.tokens = stored?.tokens ?? null
+    if (this.enabled) this.setState({ status: 'unknown', user: stored?.user ?? null })
+  }
+
+  getState = (): AuthState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private setState(state: AuthState): void {
+    this.state = state
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private load(): StoredSession | null {
+    if (!this.storageKey) return null
+    try {
+      const raw = localStorage.getItem(this.storageKey)
+      return raw ? (JSON.parse(raw) as StoredSession) : null
+    } catch {
+      return null
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey) return
+    try {
+      if (!this.tokens && !this.state.user) {
+        localStorage.removeItem(this.storageKey)
+        return
+      }
+      // cookie 模式下令牌由浏览器管理，只保存用户信息
+      const session: StoredSession = {
+        tokens: this.mode === 'bearer' ? this.tokens : null,
+        user: this.state.user
+      }
+      localStorage.setItem(this.storageKey, JSON.stringify(session))
+    } catch {
+      // localStorage 不可用时仅保存在内存中
+    }
+  }
+}
+
+/**
+ * 从环境变量读取认证方式（VITE_AUTH_MODE），默认不认证
+ */
+export function getAuthModeFromEnv(): AuthMode {
+  const mode = import.meta.env.VITE_AUTH_MODE
+  return mode === 'bearer' || mode === 'cookie' ? mode : 'none'
+}
+
+// 应用共享的登录状态
+export const authSession = new AuthSession({ mode: getAuthModeFromEnv() })
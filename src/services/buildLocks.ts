@@ -0,0 +1,247 @@
+import { createLogger } from './logger'
+import { profileStore } from './profiles'
+import { TAB_ID, tabSync } from './tabSync'
+import type { BuildLock, BuildTask, TabMessage } from './tabSync'
+
+const log = createLogger('tabs')
+
+// 持有者发送心跳的间隔（毫秒），超过 LOCK_TIMEOUT 未收到心跳时向浏览器查询锁是否仍被持有
+const LOCK_HEARTBEAT = 2000
+const LOCK_TIMEOUT = 6000
+// Web Locks 的锁名前缀，与同源的其他应用区分
+const WEB_LOCK_PREFIX = 'auto-chat:'
+
+export interface BuildLockSnapshot {
+  // 各标签页（包括当前标签页）持有的锁
+  locks: BuildLock[]
+}
+
+export interface BuildLockHandle {
+  // 更新进度，同步到其他标签页
+  update(status: string): void
+  release(): void
+}
+
+/**
+ * 锁名称：构建与开发服务器分别加锁，按后端配置区分
+ */
+export function getBuildLockName(kind: BuildTask['kind']): string {
+  return `${profileStore.getActive().id}:${kind}`
+}
+
+function getWebLocks(): LockManager | null {
+  return typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null
+}
+
+/**
+ * 标签页之间的构建锁，保证同一后端上的构建（或开发服务器）只由一个标签页执行
+ *
+ * 互斥由 Web Locks（navigator.locks）保证，标签页关闭或崩溃时浏览器自动释放，不受后台标签页的定时器节流影响。
+ * BroadcastChannel 只用于同步进度：持有者定时广播 lock-state，其他标签页据此显示；超时未收到时
+ * 先向浏览器查询锁是否仍被持有，未被持有才视为已释放。浏览器不支持 Web Locks 时只在当前标签页内互斥。
+ */
+class BuildLockManager {
+  private snapshot: BuildLockSnapshot = { locks: [] }
+  private listeners = new Set<() => void>()
+  private locks = new Map<string, BuildLock>()
+  // 正在申请的锁
+  private pending = new Set<string>()
+  // 释放 Web Lock：结束 request 回调返回的 Promise
+  private webLockReleases = new Map<string, () => void>()
+  private heartbeatTimers = new Map<string, ReturnType<typeof setInterval>>()
+  private expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private stopHandlers = new Map<string, () => void>()
+
+  constructor() {
+    tabSync.subscribe((message, from) => this.handleMessage(message, from))
+    // 获取已打开的标签页中正在执行的任务
+    tabSync.publish({ type: 'hello' })
+    if (typeof window !== 'undefined') {
+      // 关闭标签页时释放持有的锁，异常退出时由其他标签页按心跳超时处理
+      window.addEventListener('pagehide', () => {
+        this.ownLocks().forEach((lock) => this.release(lock.name))
+      })
+    }
+  }
+
+  /**
+   * 申请锁，已被任一标签页持有时返回 null
+   *
+   * onStop 在其他标签页请求停止任务时调用。
+   */
+  async acquire(
+    name: string,
+    task: BuildTask,
+    status: string,
+    onStop?: () => void
+  ): Promise<BuildLockHandle | null> {
+    if (this.pending.has(name) || this.locks.get(name)?.tabId === TAB_ID) return null
+    this.pending.add(name)
+    const acquired = await this.requestWebLock(name).finally(() => this.pending.delete(name))
+    if (!acquired) {
+      log.info('其他标签页正在执行', name)
+      return null
+    }
+
+    const lock: BuildLock = { name, tabId: TAB_ID, task, status }
+    this.setLock(lock)
+    tabSync.publish({ type: 'lock-state', lock })
+    if (onStop) this.stopHandlers.set(name, onStop)
+    this.heartbeatTimers.set(
+      name,
+      setInterval(() => {
+        const current = this.locks.get(name)
+        if (current) tabSync.publish({ type: 'lock-state', lock: current })
+      }, LOCK_HEARTBEAT)
+    )
+    log.debug('获得锁', name)
+
+    let released = false
+    return {
+      update: (next) => {
+        const current = this.locks.get(name)
+        if (released || !current || current.status === next) return
+        const updated = { ...current, status: next }
+        this.setLock(updated)
+        tabSync.publish({ type: 'lock-state', lock: updated })
+      },
+      release: () => {
+        if (released) return
+        released = true
+        this.release(name)
+      }
+    }
+  }
+
+  /**
+   * 请求持有者停止任务，当前标签页持有时直接停止
+   */
+  requestStop(name: string): void {
+    const lock = this.locks.get(name)
+    if (!lock) return
+    if (lock.tabId === TAB_ID) {
+      this.stopHandlers.get(name)?.()
+    } else {
+      tabSync.publish({ type: 'lock-stop', name })
+    }
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): BuildLockSnapshot => this.snapshot
+
+  private handleMessage(message: TabMessage, from: string): void {
+    switch (message.type) {
+      case 'hello':
+        this.ownLocks().forEach((lock) => tabSync.publish({ type: 'lock-state', lock }))
+        break
+      case 'lock-state': {
+        const { lock } = message
+        if (lock.tabId !== from || this.locks.get(lock.name)?.tabId === TAB_ID) break
+        this.setLock(lock)
+        this.scheduleExpiry(lock.name)
+        break
+      }
+      case 'lock-release':
+        if (this.locks.get(message.name)?.tabId === from) this.removeLock(message.name)
+        break
+      case 'lock-stop':
+        if (this.locks.get(message.name)?.tabId === TAB_ID) this.stopHandlers.get(message.name)?.()
+        break
+    }
+  }
+
+  /**
+   * 申请 Web Lock，已被其他标签页持有时立即返回 false；获得后一直持有到 release
+   */
+  private requestWebLock(name: string): Promise<boolean> {
+    const webLocks = getWebLocks()
+    // 不支持时只在当前标签页内互斥
+    if (!webLocks) return Promise.resolve(!this.locks.has(name))
+    return new Promise((resolve) => {
+      webLocks
+        .request(WEB_LOCK_PREFIX + name, { ifAvailable: true }, (lock) => {
+          if (!lock) {
+            resolve(false)
+            return undefined
+          }
+          resolve(true)
+          return new Promise<void>((release) => this.webLockReleases.set(name, release))
+        })
+        .catch((error) => {
+          log.warn('申请锁失败', name, error)
+          resolve(false)
+        })
+    })
+  }
+
+  /**
+   * 超时未收到心跳时查询锁：后台标签页的定时器会被节流，心跳可能迟到，锁仍被持有时继续等待
+   */
+  private scheduleExpiry(name: string): void {
+    clearTimeout(this.expiryTimers.get(name))
+    this.expiryTimers.set(
+      name,
+      setTimeout(async () => {
+        if (await this.isHeldElsewhere(name)) {
+          log.debug('持有锁的标签页心跳延迟，锁仍被持有', name)
+          this.scheduleExpiry(name)
+          return
+        }
+        log.warn('持有锁的标签页无响应，视为已释放', name)
+        this.removeLock(name)
+      }, LOCK_TIMEOUT)
+    )
+  }
+
+  private async isHeldElsewhere(name: string): Promise<boolean> {
+    const webLocks = getWebLocks()
+    if (!webLocks) return false
+    try {
+      const { held = [] } = await webLocks.query()
+      return held.some((lock) => lock.name === WEB_LOCK_PREFIX + name)
+    } catch (error) {
+      log.debug('查询锁失败', name, error)
+      return false
+    }
+  }
+
+  private ownLocks(): BuildLock[] {
+    return [...this.locks.values()].filter((lock) => lock.tabId === TAB_ID)
+  }
+
+  private release(name: string): void {
+    if (this.locks.get(name)?.tabId !== TAB_ID) return
+    this.webLockReleases.get(name)?.()
+    this.webLockReleases.delete(name)
+    this.removeLock(name)
+    tabSync.publish({ type: 'lock-release', name })
+    log.debug('释放锁', name)
+  }
+
+  private setLock(lock: BuildLock): void {
+    this.locks.set(lock.name, lock)
+    this.publish()
+  }
+
+  private removeLock(name: string): void {
+    clearInterval(this.heartbeatTimers.get(name))
+    clearTimeout(this.expiryTimers.get(name))
+    this.heartbeatTimers.delete(name)
+    this.expiryTimers.delete(name)
+    this.stopHandlers.delete(name)
+    if (this.locks.delete(name)) this.publish()
+  }
+
+  private publish(): void {
+    this.snapshot = { locks: [...this.locks.values()] }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const buildLocks = new BuildLockManager()
@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChatApiClient } from './chatApi'
+import type { ChatSocketConnector } from './transport'
+
+const BASE_URL = 'http://api.test'
+
+// 按 SSE 格式编码事件：[event, data, id?]
+function sse(...events: Array<[string, unknown, string?]>): string {
+  return events
+    .map(
+      ([event, data, id]) =>
+        `event: ${event}\n${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`
+    )
+    .join('')
+}
+
+// 每段作为单独的一块数据到达
+function streamResponse(chunks: string[], contentType = 'text/event-stream'): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+  return new Response(body, { headers: { 'content-type': contentType } })
+}
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { headers: { 'content-type': 'application/json' } })
+}
+
+const reply = (id: string, content: string) =>
+  [
+    ['start', { message_id: id }],
+    ['data', { content }],
+    ['end', { message_id: id }]
+  ] as Array<[string, unknown]>
+
+// frames 返回 null 时握手失败
+function createSocketConnector(frames: () => unknown[] | null): ChatSocketConnector {
+  return (_url, handlers) => {
+    const queued = frames()
+    setTimeout(() => {
+      if (!queued) {
+        handlers.onClose({ code: 1006, reason: '', opened: false })
+        return
+      }
+      handlers.onOpen()
+    }, 0)
+    return {
+      send() {
+        queued?.forEach((frame) => handlers.onMessage(JSON.stringify(frame)))
+        // 推送完毕后服务端断开，已收到 end 时客户端已先行关闭
+        setTimeout(() => handlers.onClose({ code: 1006, reason: '', opened: true }), 0)
+      },
+      close() {
+        // 与浏览器一致，close 事件异步触发
+        setTimeout(() => handlers.onClose({ code: 1000, reason: '', opened: true }), 0)
+      }
+    }
+  }
+}
+
+async function send(client: ChatApiClient): Promise<string> {
+  let content = ''
+  await client.sendMessageStream('c1', 'hi', undefined, {
+    callbacks: { onChunk: (chunk) => (content += chunk) },
+    reconnect: false
+  })
+  return content
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { origin: BASE_URL } })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('sendMessageStream 自动选择传输方式', () => {
+  it('SSE 被缓冲时本条消息不重发，之后依次改用 WebSocket 与轮询', async () => {
+    const posts: string[] = []
+    const fetch = vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === 'POST') {
+        posts.push(new Headers(init.headers).get('accept') ?? '')
+        // 第一条经 SSE 发送，第三条经轮询发送
+        return posts.length === 1
+          ? streamResponse([sse(...reply('a1', '缓冲'))], 'text/plain')
+          : jsonResponse({ task_id: 't3' })
+      }
+      expect(url).toBe(`${BASE_URL}/tasks/t3`)
+      return jsonResponse({
+        task_id: 't3',
+        status: 'success',
+        result: { message_id: 'a3', content: '轮询' }
+      })
+    })
+    const sockets = [
+      () => reply('a2', 'WebSocket').map(([event, data]) => ({ event, data })),
+      () => null
+    ]
+    let connects = 0
+    const client = new ChatApiClient(BASE_URL, {
+      fetch,
+      socketConnector: createSocketConnector(() => sockets[connects++]())
+    })
+
+    expect(await send(client)).toBe('缓冲')
+    expect(posts).toEqual(['text/event-stream'])
+    expect(connects).toBe(0)
+
+    expect(await send(client)).toBe('WebSocket')
+    expect(posts).toHaveLength(1)
+    expect(connects).toBe(1)
+
+    // WebSocket 握手失败，不再尝试已知被缓冲的 SSE
+    expect(await send(client)).toBe('轮询')
+    expect(connects).toBe(2)
+    expect(posts).toEqual(['text/event-stream', ''])
+  })
+
+  it('响应类型未被改写但所有事件一次性到达时同样视为被缓冲', async () => {
+    const fetch = vi.fn(async () => streamResponse([sse(...reply('a1', '缓冲'))]))
+    const connector = vi.fn(
+      createSocketConnector(() =>
+        reply('a2', 'WebSocket').map(([event, data]) => ({ event, data }))
+      )
+    )
+    const client = new ChatApiClient(BASE_URL, { fetch, socketConnector: connector })
+
+    expect(await send(client)).toBe('缓冲')
+    expect(await send(client)).toBe('WebSocket')
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(connector).toHaveBeenCalledTimes(1)
+  })
+
+  it('SSE 逐条到达时继续使用 SSE', async () => {
+    const fetch = vi.fn(async () => streamResponse(reply('a1', '流式').map((event) => sse(event))))
+    const connector = vi.fn(createSocketConnector(() => null))
+    const client = new ChatApiClient(BASE_URL, { fetch, socketConnector: connector })
+
+    expect(await send(client)).toBe('流式')
+    expect(await send(client)).toBe('流式')
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(connector).not.toHaveBeenCalled()
+  })
+
+  it('WebSocket 收到事件后断开时不再改用其他方式重发', async () => {
+    const fetch = vi.fn(async () => streamResponse(reply('a1', 'SSE').map((event) => sse(event))))
+    const client = new ChatApiClient(BASE_URL, {
+      fetch,
+      transport: 'websocket',
+      socketConnector: createSocketConnector(() => [
+        { event: 'start', data: { message_id: 'a1' } },
+        { event: 'data', data: { content: '部分' } }
+      ])
+    })
+
+    await expect(send(client)).rejects.toMatchObject({ retryable: true })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+// 逐块到达，发送完后连接中断（读取时抛出 TypeError，与 fetch 的网络错误一致）
+function droppedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  let index = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]))
+      } else {
+        controller.error(new TypeError('network error'))
+      }
+    }
+  })
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } })
+}
+
+describe('sendMessageStream 断线续传', () => {
+  // fetch 依次返回 responses，记录每次请求的地址与 Last-Event-ID
+  function createClient(responses: Response[]) {
+    const requests: Array<{ url: string; lastEventId: string | null }> = []
+    const fetch = vi.fn(async (url: string, init?: RequestInit) => {
+      requests.push({ url, lastEventId: new Headers(init?.headers).get('last-event-id') })
+      const response = responses.shift()
+      if (!response) throw new Error(`意外的请求 ${url}`)
+      return response
+    })
+    return { client: new ChatApiClient(BASE_URL, { fetch, transport: 'sse' }), requests }
+  }
+
+  async function sendWithReconnect(
+    client: ChatApiClient,
+    reconnect: { maxRetries: number; baseDelay: number }
+  ) {
+    let content = ''
+    const delays: number[] = []
+    await client.sendMessageStream('c1', 'hi', undefined, {
+      callbacks: {
+        onChunk: (chunk) => (content += chunk),
+        onReconnecting: (delay) => delays.push(delay)
+      },
+      reconnect: { ...reconnect, maxDelay: 1000 }
+    })
+    return { content, delays }
+  }
+
+  it('续传时携带最后一个非空的事件 ID', async () => {
+    const { client, requests } = createClient([
+      droppedResponse([
+        sse(['start', { message_id: 'a1' }, '1'], ['data', { content: '一' }, '2'])
+      ]),
+      // 续传的连接中事件不带 id，不应覆盖之前的 ID
+      droppedResponse([sse(['data', { content: '二' }])]),
+      streamResponse([sse(['data', { content: '三' }, '3']), sse(['end', { message_id: 'a1' }])])
+    ])
+
+    const { content } = await sendWithReconnect(client, { maxRetries: 3, baseDelay: 1 })
+    expect(content).toBe('一二三')
+    expect(requests.map((request) => request.url)).toEqual([
+      `${BASE_URL}/conversations/c1/messages`,
+      `${BASE_URL}/conversations/c1/messages/a1/stream`,
+      `${BASE_URL}/conversations/c1/messages/a1/stream`
+    ])
+    expect(requests.map((request) => request.lastEventId)).toEqual([null, '2', '2'])
+  })
+
+  it('收到事件后重置重连次数', async () => {
+    const { client } = createClient([
+      droppedResponse([sse(['start', { message_id: 'a1' }, '1'])]),
+      droppedResponse([sse(['data', { content: '一' }, '2'])]),
+      droppedResponse([sse(['data', { content: '二' }, '3'])]),
+      streamResponse([sse(['end', { message_id: 'a1' }, '4'])])
+    ])
+
+    // 每次中断前都收到了事件，只允许重连一次也能完成
+    const { content, delays } = await sendWithReconnect(client, { maxRetries: 1, baseDelay: 1 })
+    expect(content).toBe('一二')
+    expect(delays).toHaveLength(3)
+  })
+
+  it('连续重连失败超过次数后放弃', async () => {
+    const { client, requests } = createClient([
+      droppedResponse([sse(['start', { message_id: 'a1' }, '1'])]),
+      new Response('', { status: 503 }),
+      new Response('', { status: 503 })
+    ])
+
+    await expect(sendWithReconnect(client, { maxRetries: 2, baseDelay: 1 })).rejects.toMatchObject({
+      kind: 'stream',
+      retryable: true
+    })
+    expect(requests).toHaveLength(3)
+  })
+
+  it('按服务端 retry 字段建议的间隔重连', async () => {
+    const { client } = createClient([
+      droppedResponse([`retry: 40\n${sse(['start', { message_id: 'a1' }, '1'])}`]),
+      streamResponse([sse(['end', { message_id: 'a1' }, '2'])])
+    ])
+
+    const { delays } = await sendWithReconnect(client, { maxRetries: 3, baseDelay: 1 })
+    // 带抖动，在 [retry / 2, retry] 之间
+    expect(delays).toHaveLength(1)
+    expect(delays[0]).toBeGreaterThanOrEqual(20)
+    expect(delays[0]).toBeLessThanOrEqual(40)
+  })
+
+  it('续传返回 4xx 时直接放弃', async () => {
+    const { client, requests } = createClient([
+      droppedResponse([sse(['start', { message_id: 'a1' }, '1'])]),
+      new Response(JSON.stringify({ detail: '消息已过期' }), {
+        status: 410,
+        headers: { 'content-type': 'application/json' }
+      })
+    ])
+
+    await expect(sendWithReconnect(client, { maxRetries: 3, baseDelay: 1 })).rejects.toMatchObject({
+      status: 410
+    })
+    expect(requests).toHaveLength(2)
+  })
+})
@@ -3,16 +3,134 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000
 
 // 导入 SSE 相关类型
 import type {
+  MessageAction,
   SSECallbacks,
-  SSEContentData,
-  SSEEndData,
-  SSEErrorEvent,
   SSEEventType,
-  SSEStartData,
   StreamMessageOptions,
+  StreamReconnectOptions,
+  XmlArtifactState,
+  XmlArtifactType,
 } from '@/types/chat'
+import { createSSEDispatcher, readSSEStream } from './sse'
+import type { SSEMessage, SSEMessageHandler } from './sse'
+import { createRequestId, runMiddleware } from './middleware'
+import type { ApiMiddleware, FetchLike } from './middleware'
+import {
+  HttpError,
+  InvalidRequestError,
+  NetworkError,
+  RequestAbortedError,
+  StreamError,
+  TaskError,
+  createHttpError,
+  isAbortError,
+  isRetryableError,
+  toApiError,
+} from './errors'
+import { DEFAULT_RETRY_POLICY, computeBackoff, sleep, withRetry } from './retry'
+import type { RetryPolicy } from './retry'
+import {
+  clearUploadSession,
+  getFileFingerprint,
+  loadUploadSession,
+  saveUploadSession,
+  xhrUploadTransport,
+} from './upload'
+import type { UploadProgressHandler, UploadTransport } from './upload'
+import {
+  SOCKET_AUTH_PROTOCOL,
+  browserSocketConnector,
+  getChatTransportSetting,
+  readSocketStream,
+} from './transport'
+import type { ChatSocketConnector, ChatTransport, ChatTransportSetting } from './transport'
+import { createLogger } from './logger'
+import { authSession } from './auth'
+import { DEFAULT_PROFILE_ID, profileStore } from './profiles'
+import type { AuthSession, AuthUser } from './auth'
+import { debugMiddleware, debugStore } from './debug'
+import { conversationCache } from './conversationCache'
+import { detectXmlArtifactType } from './messageParts'
+import { searchConversationDetails } from './search'
+import { saveBlob } from './download'
+import type { CachedData, ConversationCache } from './conversationCache'
+import { SchemaValidationError, validate } from './schema'
+import type { Validator } from './schema'
+import {
+  authTokensSchema,
+  authUserSchema,
+  buildCommandSchema,
+  buildStreamCompleteSchema,
+  buildStreamLogSchema,
+  buildTaskSchema,
+  chunkedUploadSessionSchema,
+  conversationDetailSchema,
+  conversationListSchema,
+  createConversationSchema,
+  fileUploadSchema,
+  loginResponseSchema,
+  messageTaskResultSchema,
+  messageTaskSubmitSchema,
+  ormEntityWriteSchema,
+  searchResultsSchema,
+  sseEventSchemas,
+  stopServiceSchema,
+  submitBuildTaskSchema,
+  xmlMergeSchema,
+  xmlTypesSchema,
+} from './contracts'
+import { getMockClientOptions, isMockEnabled } from '@/mocks'
+
+const apiLog = createLogger('api')
+const sseLog = createLogger('sse')
+const buildLog = createLogger('build')
+
+// 流式消息默认重连策略
+const DEFAULT_STREAM_RECONNECT: StreamReconnectOptions = {
+  maxRetries: 5,
+  baseDelay: 1000,
+  maxDelay: 15000,
+}
+
+// 各方法的默认重试策略，未列出的方法（如流式请求）不自动重试
+const DEFAULT_RETRY_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  createConversation: {},
+  uploadFile: { retries: 2, baseDelay: 1000 },
+  getConversation: {},
+  listConversations: {},
+  renameConversation: {},
+  updateArtifactState: {},
+  searchConversations: {},
+  getBuildTask: {},
+  getXmlTypes: {},
+  getCurrentUser: {},
+  getMessageTask: {},
+  writeOrmEntity: { retries: 2 },
+  buildXml: { retries: 2 },
+  initChunkedUpload: {},
+  getChunkedUpload: {},
+  uploadChunk: { retries: 4, baseDelay: 1000 },
+  completeChunkedUpload: {},
+}
+
+// 超过该大小的文件改用分片上传
+const DEFAULT_CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024
+const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024
+
+// 非流式发送时轮询消息任务的间隔与次数
+const MESSAGE_TASK_POLL_INTERVAL = 1000
+const MESSAGE_TASK_MAX_POLLS = 300
 
 // API 响应类型
+// 登录响应，cookie 模式下不返回令牌
+export interface LoginResponse {
+  user: AuthUser
+  access_token?: string
+  refresh_token?: string
+  token_type?: string
+  expires_in?: number
+}
+
 export interface CreateConversationResponse {
   conversation_id: string
   title: string
@@ -24,10 +142,50 @@ export interface FileUploadResponse {
   file_size: number
 }
 
+// 分片上传会话
+export interface ChunkedUploadSession {
+  upload_id: string
+  chunk_size: number
+  total_chunks: number
+  // 服务端已确认的分片序号
+  received_chunks: number[]
+}
+
+// 非流式发送消息后返回的任务
+export interface MessageTaskSubmitResponse {
+  task_id: string
+  message_id?: string
+  status?: string
+}
+
+// 非流式发送的消息任务完成后的结果
+export interface MessageTaskResult {
+  message_id: string
+  content: string
+  thinking?: string
+}
+
+// 消息中 XML 片段的处理进度
+export interface ConversationArtifact {
+  // 对应 XML 片段的 id
+  part_id: string
+  state: XmlArtifactState
+  updated_at: number
+}
+
+// id、thinking、file_ids、artifacts 在较早的后端中不存在
 export interface ConversationMessage {
+  id?: string
   role: 'user' | 'assistant' | 'system'
+  // 对话分支中的上一条消息，null 为第一条；不返回时按顺序视为同一分支
+  parent_id?: string | null
   content: string
   timestamp: number
+  // 思考模式下的思考过程
+  thinking?: string
+  // 随消息发送的文件，对应 ConversationDetail.files
+  file_ids?: string[]
+  artifacts?: ConversationArtifact[]
 }
 
 export interface ConversationFile {
@@ -52,6 +210,25 @@ export interface Conversation {
   message_count: number
 }
 
+// 全文搜索命中的消息
+export interface SearchResult {
+  conversation_id: string
+  conversation_title: string
+  message_id: string
+  role: 'user' | 'assistant' | 'system'
+  // 命中位置附近的内容
+  snippet: string
+  timestamp: number
+  // 命中助手回复中的 XML 时为其类型
+  xml_type?: XmlArtifactType
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  // 后端不支持搜索或无法连接时，改为搜索本地缓存的会话
+  local: boolean
+}
+
 // 请求类型
 export interface CreateConversationRequest {
   title?: string
@@ -60,6 +237,11 @@ export interface CreateConversationRequest {
 export interface SendMessageRequest {
   message: string
   file_ids?: string[]
+  // 分支点，见 StreamMessageOptions.parentId
+  parent_id?: string | null
+  // 重新生成或续写时的操作类型与目标消息，此时 message 为空
+  action?: MessageAction['type']
+  target_id?: string
 }
 
 // 构建命令类型
@@ -81,52 +263,657 @@ export interface BuildCommandResponse {
   phase?: 'build' | 'dev'  // build = 构建阶段, dev = 开发服务器启动阶段
 }
 
+// 构建任务
+export interface BuildTask {
+  task_id: string
+  status: 'pending' | 'processing' | 'success' | 'failed'
+  result?: unknown
+  error?: string
+}
+
+export interface OrmEntityWriteResponse {
+  success: boolean
+  entity_name: string
+  action: 'created' | 'updated'
+  message: string
+}
+
+export interface XmlMergeResponse {
+  success: boolean
+  xml_type: string
+  identifier: string
+  action: 'created' | 'updated'
+  display_name: string
+  message: string
+}
+
+export interface XmlTypesResponse {
+  types: Array<{
+    type: string
+    name: string
+    display_name: string
+    element_tag: string
+    description: string
+  }>
+}
+
+export interface StopServiceResponse {
+  success: boolean
+  message: string
+}
+
+// 构建 / 导出流式事件（data 字段中的 JSON）
+export interface BuildStreamLogEvent {
+  type: 'log'
+  line: string
+}
+
+export interface BuildStreamCompleteEvent {
+  type: 'complete'
+  success: boolean
+  message: string
+  output_name?: string
+}
+
+export type BuildStreamEvent = BuildStreamLogEvent | BuildStreamCompleteEvent
+
+// 单次请求选项
+interface RequestOptions {
+  // 失败提示前缀，如 '创建会话失败'
+  action: string
+  // 超时时间（毫秒）
+  timeout?: number
+  // 为修改类请求附加 Idempotency-Key，重试时保持不变
+  idempotent?: boolean
+  // 提供时改用 uploadTransport 发送以获取上传进度
+  onUploadProgress?: UploadProgressHandler
+  // 401 时不尝试刷新登录状态（登录、刷新接口本身）
+  skipAuthRefresh?: boolean
+}
+
+/**
+ * 生成错误与中间件使用的端点描述，如 'POST /xml/merge'
+ */
+function getEndpoint(path: string, init: RequestInit): string {
+  return `${(init.method ?? 'GET').toUpperCase()} ${path}`
+}
+
+// 客户端配置
+export interface ChatApiClientOptions {
+  // 请求中间件（鉴权、租户、请求 ID、耗时统计等）
+  middleware?: ApiMiddleware[]
+  // 自定义 fetch 实现
+  fetch?: FetchLike
+  // 按方法名覆盖重试策略，false 表示禁用
+  retry?: Record<string, Partial<RetryPolicy> | false>
+  // 带上传进度的请求实现，默认基于 XMLHttpRequest
+  uploadTransport?: UploadTransport
+  // 超过该大小（字节）的文件使用分片上传，Infinity 表示禁用
+  chunkedUploadThreshold?: number
+  // 收到流式事件时回调（调试面板使用）
+  onStreamEvent?: (endpoint: string, message: SSEMessage) => void
+  // 登录状态，提供时为所有请求（包括流式请求与上传）附加凭据
+  auth?: AuthSession
+  // 聊天消息的传输方式，传入函数时每次发送重新读取，默认 auto
+  transport?: ChatTransportSetting | (() => ChatTransportSetting)
+  // WebSocket 连接实现，默认使用浏览器 WebSocket
+  socketConnector?: ChatSocketConnector
+  // 会话详情与列表的本地缓存，提供时请求成功后写入、删除会话与退出登录时清除
+  cache?: ConversationCache
+}
+
+// 后端健康检查结果
+export interface HealthCheckResult {
+  ok: boolean
+  // 响应耗时（毫秒）
+  latency: number
+  message?: string
+}
+
+// 文件上传选项
+export interface UploadFileOptions {
+  signal?: AbortSignal
+  // 上传进度（0 ~ 1）
+  onProgress?: (progress: number) => void
+}
+
+// 分片上传选项
+export interface ChunkedUploadOptions extends UploadFileOptions {
+  // 分片大小（字节），以服务端返回的为准
+  chunkSize?: number
+}
+
+// 一次消息流在各传输方式间共享的状态
+interface MessageStreamSession {
+  conversationId: string
+  body: SendMessageRequest & { enable_thinking: boolean }
+  callbacks: SSECallbacks
+  signal?: AbortSignal
+  // 记录事件 ID 与重连状态后交给分发器
+  onMessage: SSEMessageHandler
+  // 已收到的事件数，收到事件后不再切换传输方式
+  received: number
+  messageId: string
+  lastEventId: string
+  retryInterval?: number
+  finished: boolean
+  // 重连次数，收到事件后重置
+  attempt: number
+  contractError?: unknown
+  // SSE 响应被代理缓冲（或改写为非流式响应），回复一次性到达
+  buffered?: boolean
+}
+
 /**
  * API 客户端类
  */
 class ChatApiClient {
-  private baseUrl: string
+  private resolveBaseUrl: () => string
+  private middleware: ApiMiddleware[]
+  private fetchImpl: FetchLike
+  private retryOverrides: Record<string, Partial<RetryPolicy> | false>
+  private uploadTransport: UploadTransport
+  private chunkedUploadThreshold: number
+  private onStreamEvent?: (endpoint: string, message: SSEMessage) => void
+  private auth?: AuthSession
+  private resolveTransport: () => ChatTransportSetting
+  private socketConnector: ChatSocketConnector
+  private cache?: ConversationCache
+  // 自动模式下上次可用的流式传输方式，切换后端后失效
+  private preferredTransport?: { baseUrl: string; transport: ChatTransport }
+  // SSE 响应被代理缓冲的后端，自动模式下不再使用 SSE
+  private bufferedSSE = new Set<string>()
+
+  // baseUrl 传入函数时每次请求重新读取，用于运行时切换后端
+  constructor(baseUrl: string | (() => string) = API_BASE_URL, options: ChatApiClientOptions = {}) {
+    this.resolveBaseUrl = typeof baseUrl === 'function' ? baseUrl : () => baseUrl
+    this.middleware = [...(options.middleware ?? [])]
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init))
+    this.retryOverrides = options.retry ?? {}
+    this.uploadTransport = options.uploadTransport ?? xhrUploadTransport
+    this.chunkedUploadThreshold = options.chunkedUploadThreshold ?? DEFAULT_CHUNKED_UPLOAD_THRESHOLD
+    this.onStreamEvent = options.onStreamEvent
+    this.auth = options.auth
+    const { transport = 'auto' } = options
+    this.resolveTransport = typeof transport === 'function' ? transport : () => transport
+    this.socketConnector = options.socketConnector ?? browserSocketConnector
+    this.cache = options.cache
+  }
 
-  constructor(baseUrl: string = API_BASE_URL) {
-    this.baseUrl = baseUrl
+  /**
+   * 当前请求的后端地址
+   */
+  getBaseUrl(): string {
+    return this.resolveBaseUrl()
   }
 
   /**
-   * 创建新会话
+   * 获取方法的重试策略，返回 null 表示不重试
    */
-  async createConversation(title?: string): Promise<CreateConversationResponse> {
-    const response = await fetch(`${this.baseUrl}/conversations/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ title }),
-    })
+  private getRetryPolicy(operation: string): RetryPolicy | null {
+    const override = this.retryOverrides[operation]
+    if (override === false) return null
+
+    const defaults = DEFAULT_RETRY_POLICIES[operation]
+    if (!defaults && !override) return null
+
+    return { ...DEFAULT_RETRY_POLICY, ...defaults, ...override }
+  }
+
+  /**
+   * 追加中间件
+   */
+  use(...middleware: ApiMiddleware[]): this {
+    this.middleware.push(...middleware)
+    return this
+  }
+
+  /**
+   * 发送请求，按方法的重试策略自动重试可恢复的错误
+   */
+  private request(
+    operation: string,
+    path: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<Response> {
+    const headers = new Headers(init.headers)
+    // 同一次调用的所有重试共用一个幂等键，避免重复写入
+    if (options.idempotent && !headers.has('Idempotency-Key')) {
+      headers.set('Idempotency-Key', createRequestId())
+    }
+    const requestInit = { ...init, headers }
+
+    const policy = this.getRetryPolicy(operation)
+    if (!policy) {
+      return this.send(operation, path, requestInit, options, 0)
+    }
+
+    return withRetry(
+      (attempt) => this.send(operation, path, requestInit, options, attempt),
+      policy,
+      {
+        signal: init.signal ?? undefined,
+        onRetry: (error, attempt, delay) => {
+          apiLog.warn(`${getEndpoint(path, init)} 第 ${attempt} 次重试（${delay}ms 后）`, error)
+        },
+      }
+    )
+  }
+
+  /**
+   * 经过中间件链发送单次请求，非 2xx 响应与网络错误统一抛出 ApiError
+   */
+  private async send(
+    operation: string,
+    path: string,
+    init: RequestInit,
+    options: RequestOptions,
+    attempt: number
+  ): Promise<Response> {
+    const { headers, signal, ...rest } = init
+    const endpoint = getEndpoint(path, init)
+
+    // 超时控制：与调用方的 signal 合并
+    let timedOut = false
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    let requestSignal = signal ?? undefined
+    let onAbort: (() => void) | undefined
+    if (options.timeout) {
+      const controller = new AbortController()
+      timeoutId = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, options.timeout)
+      onAbort = () => controller.abort()
+      if (signal?.aborted) controller.abort()
+      signal?.addEventListener('abort', onAbort, { once: true })
+      requestSignal = controller.signal
+    }
+
+    const { onUploadProgress } = options
+    const transport: FetchLike = onUploadProgress
+      ? (input, requestInit) => this.uploadTransport(input, requestInit ?? {}, onUploadProgress)
+      : this.fetchImpl
+
+    // 附加登录凭据，记录本次使用的令牌以便 401 时判断是否已被刷新
+    const requestHeaders = new Headers(headers)
+    const credentials = this.auth?.applyCredentials(requestHeaders)
+    const tokenUsed = this.auth?.accessToken ?? null
+
+    let response: Response
+    try {
+      response = await runMiddleware(
+        this.middleware,
+        {
+          operation,
+          endpoint,
+          url: `${this.getBaseUrl()}${path}`,
+          headers: requestHeaders,
+          init: { ...rest, ...(credentials ? { credentials } : {}), signal: requestSignal },
+          attempt,
+          meta: {},
+        },
+        // 中间件的 onError 收到的是已转换的 ApiError
+        (input, requestInit) =>
+          transport(input, requestInit).catch((error) => {
+            throw toApiError(error, endpoint, { action: options.action, timedOut })
+          })
+      )
+    } catch (error) {
+      throw toApiError(error, endpoint, { action: options.action, timedOut })
+    } finally {
+      clearTimeout(timeoutId)
+      // 调用方的 signal 可能在多次请求（重试）间复用，请求结束后移除监听
+      if (onAbort) signal?.removeEventListener('abort', onAbort)
+    }
+
+    if (response.status === 401 && this.auth?.enabled && !options.skipAuthRefresh) {
+      await response.body?.cancel().catch(() => undefined)
+      const refreshed = await this.auth.refreshOnce(() => this.refreshSession(), tokenUsed)
+      if (refreshed) {
+        return this.send(operation, path, init, { ...options, skipAuthRefresh: true }, attempt)
+      }
+      // 刷新失败说明会话已失效，回到登录页
+      this.auth.clear()
+      throw new HttpError(`${options.action}（401）：登录已失效，请重新登录`, {
+        endpoint,
+        status: 401,
+        statusText: response.statusText,
+      })
+    }
 
     if (!response.ok) {
-      throw new Error(`创建会话失败: ${response.statusText}`)
+      throw await createHttpError(response, endpoint, options.action)
+    }
+
+    return response
+  }
+
+  /**
+   * 发送请求，解析 JSON 响应并按 schema 校验
+   */
+  private async requestJson<T>(
+    operation: string,
+    path: string,
+    init: RequestInit,
+    options: RequestOptions,
+    schema: Validator<T>
+  ): Promise<T> {
+    const response = await this.request(operation, path, init, options)
+    try {
+      return validate(schema, await response.json())
+    } catch (error) {
+      throw toApiError(error, getEndpoint(path, init), { action: options.action })
+    }
+  }
+
+  /**
+   * 登录，成功后更新 auth 中的登录状态
+   */
+  async login(username: string, password: string): Promise<AuthUser> {
+    const result = await this.requestJson(
+      'login',
+      '/auth/login',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      },
+      { action: '登录失败', skipAuthRefresh: true },
+      loginResponseSchema
+    )
+    const { user, access_token: accessToken, ...tokens } = result
+    this.auth?.setSession(user, accessToken ? { ...tokens, access_token: accessToken } : null)
+    return user
+  }
+
+  /**
+   * 刷新登录状态，返回 false 表示会话已失效需要重新登录
+   */
+  async refreshSession(): Promise<boolean> {
+    if (!this.auth?.enabled) return false
+
+    const refreshToken = this.auth.refreshToken
+    if (this.auth.mode === 'bearer' && !refreshToken) return false
+
+    try {
+      const response = await this.request(
+        'refreshSession',
+        '/auth/refresh',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(refreshToken ? { refresh_token: refreshToken } : {}),
+        },
+        { action: '刷新登录状态失败', skipAuthRefresh: true }
+      )
+      if (this.auth.mode === 'bearer') {
+        const tokens = validate(authTokensSchema, await response.json())
+        this.auth.updateTokens(tokens)
+      }
+      return true
+    } catch (error) {
+      if (error instanceof HttpError && (error.status === 401 || error.status === 403)) {
+        return false
+      }
+      throw toApiError(error, 'POST /auth/refresh', { action: '刷新登录状态失败' })
+    }
+  }
+
+  /**
+   * 获取当前登录用户
+   */
+  async getCurrentUser(): Promise<AuthUser> {
+    return this.requestJson(
+      'getCurrentUser',
+      '/auth/me',
+      {},
+      { action: '获取登录状态失败' },
+      authUserSchema
+    )
+  }
+
+  /**
+   * 启动时确认登录状态，未登录或会话失效时返回 null
+   */
+  async restoreSession(): Promise<AuthUser | null> {
+    if (!this.auth?.enabled) return null
+    if (this.auth.mode === 'bearer' && !this.auth.accessToken) {
+      this.auth.clear()
+      return null
     }
 
-    return response.json()
+    try {
+      const user = await this.getCurrentUser()
+      this.auth.setSession(user)
+      return user
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 401) {
+        this.auth.clear()
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * 退出登录，服务端请求失败时也清除本地状态
+   */
+  async logout(): Promise<void> {
+    try {
+      await this.request(
+        'logout',
+        '/auth/logout',
+        { method: 'POST' },
+        { action: '退出登录失败', skipAuthRefresh: true }
+      )
+    } finally {
+      this.auth?.clear()
+      await this.cache?.clear(this.getBaseUrl())
+    }
   }
 
   /**
-   * 上传文件到会话
+   * 检查后端是否可用（GET /health），不重试也不附加登录凭据
    */
-  async uploadFile(conversationId: string, file: File): Promise<FileUploadResponse> {
+  async checkHealth(
+    baseUrl: string = this.getBaseUrl(),
+    timeout = 5000
+  ): Promise<HealthCheckResult> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    const startTime = performance.now()
+    const elapsed = () => Math.round(performance.now() - startTime)
+
+    try {
+      const response = await this.fetchImpl(`${baseUrl}/health`, { signal: controller.signal })
+      await response.body?.cancel().catch(() => undefined)
+      return response.ok
+        ? { ok: true, latency: elapsed() }
+        : { ok: false, latency: elapsed(), message: `HTTP ${response.status}` }
+    } catch {
+      return {
+        ok: false,
+        latency: elapsed(),
+        message: controller.signal.aborted ? '连接超时' : '无法连接',
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  /**
+   * 创建新会话
+   */
+  async createConversation(title?: string): Promise<CreateConversationResponse> {
+    return this.requestJson(
+      'createConversation',
+      '/conversations/',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      },
+      { action: '创建会话失败', idempotent: true },
+      createConversationSchema
+    )
+  }
+
+  /**
+   * 上传文件到会话，支持进度回调与取消
+   */
+  async uploadFile(
+    conversationId: string,
+    file: File,
+    options: UploadFileOptions = {}
+  ): Promise<FileUploadResponse> {
+    if (file.size > this.chunkedUploadThreshold) {
+      return this.uploadFileChunked(conversationId, file, options)
+    }
+
+    const { signal, onProgress } = options
     const formData = new FormData()
     formData.append('files', file)
 
-    const response = await fetch(`${this.baseUrl}/conversations/${conversationId}/upload`, {
-      method: 'POST',
-      body: formData,
-    })
+    return this.requestJson(
+      'uploadFile',
+      `/conversations/${conversationId}/upload`,
+      {
+        method: 'POST',
+        body: formData,
+        signal,
+      },
+      {
+        action: '上传文件失败',
+        idempotent: true,
+        onUploadProgress: onProgress
+          ? (loaded, total) => onProgress(total > 0 ? loaded / total : 0)
+          : undefined,
+      },
+      fileUploadSchema
+    )
+  }
 
-    if (!response.ok) {
-      throw new Error(`上传文件失败: ${response.statusText}`)
+  /**
+   * 分片上传文件，失败或刷新页面后可从最后确认的分片继续
+   */
+  async uploadFileChunked(
+    conversationId: string,
+    file: File,
+    options: ChunkedUploadOptions = {}
+  ): Promise<FileUploadResponse> {
+    const { signal, onProgress, chunkSize = DEFAULT_CHUNK_SIZE } = options
+    const basePath = `/conversations/${conversationId}/uploads`
+    const fingerprint = getFileFingerprint(conversationId, file)
+
+    // 优先恢复之前未完成的上传
+    let session: ChunkedUploadSession | null = null
+    const savedUploadId = loadUploadSession(fingerprint)
+    if (savedUploadId) {
+      session = await this.getChunkedUpload(conversationId, savedUploadId, signal)
+      if (!session) clearUploadSession(fingerprint)
     }
 
-    return response.json()
+    if (!session) {
+      session = await this.requestJson(
+        'initChunkedUpload',
+        basePath,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            file_name: file.name,
+            file_size: file.size,
+            content_type: file.type,
+            chunk_size: chunkSize,
+            fingerprint,
+          }),
+          signal,
+        },
+        { action: '初始化分片上传失败', idempotent: true },
+        chunkedUploadSessionSchema
+      )
+      saveUploadSession(fingerprint, session.upload_id)
+    }
+
+    const { upload_id: uploadId, chunk_size: size, total_chunks: totalChunks } = session
+    const received = new Set(session.received_chunks)
+    const chunkBytes = (index: number) => Math.min(size, file.size - index * size)
+
+    let uploadedBytes = 0
+    received.forEach((index) => {
+      uploadedBytes += chunkBytes(index)
+    })
+    onProgress?.(file.size > 0 ? uploadedBytes / file.size : 0)
+
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) continue
+
+      const chunk = file.slice(index * size, index * size + size)
+      await this.request(
+        'uploadChunk',
+        `${basePath}/${uploadId}/chunks/${index}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+          body: chunk,
+          signal,
+        },
+        {
+          action: `上传分片 ${index + 1}/${totalChunks} 失败`,
+          onUploadProgress: onProgress
+            ? (loaded) => onProgress((uploadedBytes + loaded) / file.size)
+            : undefined,
+        }
+      )
+      uploadedBytes += chunk.size
+      onProgress?.(uploadedBytes / file.size)
+    }
+
+    const result = await this.requestJson(
+      'completeChunkedUpload',
+      `${basePath}/${uploadId}/complete`,
+      { method: 'POST', signal },
+      { action: '完成分片上传失败', idempotent: true },
+      fileUploadSchema
+    )
+    clearUploadSession(fingerprint)
+    return result
+  }
+
+  /**
+   * 查询分片上传会话，会话不存在或已过期时返回 null
+   */
+  async getChunkedUpload(
+    conversationId: string,
+    uploadId: string,
+    signal?: AbortSignal
+  ): Promise<ChunkedUploadSession | null> {
+    try {
+      return await this.requestJson(
+        'getChunkedUpload',
+        `/conversations/${conversationId}/uploads/${uploadId}`,
+        { signal },
+        { action: '查询分片上传失败' },
+        chunkedUploadSessionSchema
+      )
+    } catch (error) {
+      if (error instanceof HttpError && (error.status === 404 || error.status === 410)) {
+        return null
+      }
+      throw error
+    }
   }
 
   /**
@@ -135,28 +922,43 @@ class ChatApiClient {
   async sendMessage(
     conversationId: string,
     message: string,
-    fileIds?: string[]
+    fileIds?: string[],
+    options: {
+      enableThinking?: boolean
+      parentId?: string | null
+      action?: MessageAction
+      signal?: AbortSignal
+    } = {}
   ): Promise<MessageTaskSubmitResponse> {
-    const response = await fetch(`${this.baseUrl}/conversations/${conversationId}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    return this.requestJson(
+      'sendMessage',
+      `/conversations/${conversationId}/messages`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message,
+          file_ids: fileIds,
+          parent_id: options.parentId,
+          action: options.action?.type,
+          target_id: options.action?.messageId,
+          enable_thinking: options.enableThinking,
+        }),
+        signal: options.signal,
       },
-      body: JSON.stringify({
-        message,
-        file_ids: fileIds,
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`发送消息失败: ${response.statusText}`)
-    }
-
-    return response.json()
+      { action: '发送消息失败' },
+      messageTaskSubmitSchema
+    )
   }
 
   /**
-   * 发送消息（SSE 流式响应）
+   * 发送消息（流式响应）
+   *
+   * 按传输方式设置依次尝试 SSE、WebSocket，都不可用时退回非流式发送并轮询任务结果。
+   * SSE 连接意外中断时，使用 Last-Event-ID 续传同一条消息的事件流。
+   * 提供 options.action 时重新生成或续写已有的回复，message 传空字符串。
    */
   async sendMessageStream(
     conversationId: string,
@@ -166,176 +968,614 @@ class ChatApiClient {
     enableThinking: boolean = false
   ): Promise<string> {
     const { signal, callbacks } = options
+    const reconnect =
+      options.reconnect === false ? null : { ...DEFAULT_STREAM_RECONNECT, ...options.reconnect }
+
+    sseLog.debug('发送消息', {
+      conversationId,
+      enableThinking,
+      action: options.action?.type,
+      fileCount: fileIds?.length ?? 0,
+    })
+
+    const endpoint = `POST /conversations/${conversationId}/messages`
+    const session: MessageStreamSession = {
+      conversationId,
+      body: {
+        message,
+        file_ids: fileIds,
+        parent_id: options.parentId,
+        action: options.action?.type,
+        target_id: options.action?.messageId,
+        enable_thinking: enableThinking,
+      },
+      callbacks,
+      signal,
+      onMessage: () => undefined,
+      received: 0,
+      messageId: '',
+      lastEventId: '',
+      finished: false,
+      attempt: 0,
+    }
+
+    const dispatch = createSSEDispatcher(
+      {
+        start: (data) => {
+          sseLog.debug('start', data)
+          if (data.message_id) session.messageId = data.message_id
+          callbacks.onStart?.(data)
+        },
+        data: (data) => {
+          callbacks.onChunk?.(data.content, data.thinking)
+        },
+        end: (data) => {
+          sseLog.debug('end', data)
+          session.finished = true
+          if (data.message_id) session.messageId = data.message_id
+          callbacks.onEnd?.(data)
+        },
+        error: (data) => {
+          session.finished = true
+          callbacks.onError?.(data.error)
+        },
+        status: (data) => {
+          callbacks.onStatus?.(data)
+        },
+        usage: (data) => {
+          callbacks.onUsage?.(data)
+        },
+        title: (data) => {
+          callbacks.onTitle?.(data)
+        },
+        tool_call: (data) => {
+          sseLog.debug('tool_call', data)
+          callbacks.onToolCall?.(data)
+        },
+        tool_result: (data) => {
+          sseLog.debug('tool_result', data)
+          callbacks.onToolResult?.(data)
+        },
+      },
+      (error) => {
+        // 事件结构与约定不符时无法继续渲染，终止本次流
+        if (error instanceof SchemaValidationError) {
+          session.contractError = toApiError(error, endpoint)
+          return true
+        }
+        sseLog.error('解析 SSE 事件失败', error)
+        callbacks.onError?.('解析响应数据失败')
+      },
+      sseEventSchemas
+    )
+
+    session.onMessage = (event) => {
+      session.received++
+      // 重连后的解码器从空 id 开始，与 EventSource 一致保留最后一个非空 id，避免续传时从头重放
+      if (event.id) session.lastEventId = event.id
+      if (event.retry !== undefined) session.retryInterval = event.retry
+      // 收到事件说明连接正常，重置重连计数
+      session.attempt = 0
+      return dispatch(event)
+    }
+
+    const transports = this.getTransportOrder()
+    try {
+      for (let index = 0; ; index++) {
+        const transport = transports[index]
+        try {
+          await this.streamMessageVia(transport, session, reconnect)
+          const baseUrl = this.getBaseUrl()
+          if (session.buffered) {
+            // 本条消息已送达，不再重发；之后的消息改用 WebSocket
+            sseLog.warn('SSE 响应被缓冲，之后的消息改用 WebSocket', baseUrl)
+            this.bufferedSSE.add(baseUrl)
+          } else if (transport !== 'polling') {
+            // 轮询只是兜底，不作为下次的首选
+            this.preferredTransport = { baseUrl, transport }
+          }
+          return session.messageId
+        } catch (error) {
+          // 只在请求未到达后端（如 WebSocket 握手失败）且尚未收到事件时切换，否则会重复发送消息
+          const next = transports[index + 1]
+          if (!next || !(error instanceof StreamError && error.unsupported) || session.received) {
+            throw error
+          }
+          sseLog.warn(`${transport} 不可用，改用 ${next}`, error)
+        }
+      }
+    } catch (error) {
+      // 主动停止不是错误，不调用 onError，由调用方根据 abort 类别的 ApiError 处理
+      throw toApiError(error, endpoint)
+    }
+  }
 
-    const requestBody = {
+  /**
+   * 按设置确定依次尝试的传输方式
+   */
+  private getTransportOrder(): ChatTransport[] {
+    const setting = this.resolveTransport()
+    if (setting === 'polling') return ['polling']
+    if (setting !== 'auto') return [setting, 'polling']
+
+    // 自动模式优先使用当前后端上次可用的方式；SSE 被缓冲时效果与轮询相同，不再尝试
+    const baseUrl = this.getBaseUrl()
+    if (this.bufferedSSE.has(baseUrl)) return ['websocket', 'polling']
+    const preferred =
+      this.preferredTransport?.baseUrl === baseUrl ? this.preferredTransport.transport : 'sse'
+    return preferred === 'websocket'
+      ? ['websocket', 'sse', 'polling']
+      : ['sse', 'websocket', 'polling']
+  }
+
+  private streamMessageVia(
+    transport: ChatTransport,
+    session: MessageStreamSession,
+    reconnect: StreamReconnectOptions | null
+  ): Promise<void> {
+    switch (transport) {
+      case 'sse':
+        return this.streamMessageSSE(session, reconnect)
+      case 'websocket':
+        return this.streamMessageWebSocket(session)
+      case 'polling':
+        return this.streamMessagePolling(session)
+    }
+  }
+
+  /**
+   * 通过 SSE 接收消息事件，断线时续传
+   */
+  private async streamMessageSSE(
+    session: MessageStreamSession,
+    reconnect: StreamReconnectOptions | null
+  ): Promise<void> {
+    const { conversationId, callbacks, signal } = session
+    const endpoint = `POST /conversations/${conversationId}/messages`
+
+    let response = await this.request(
+      'sendMessageStream',
+      `/conversations/${conversationId}/messages`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(session.body),
+        signal,
+      },
+      { action: '发送消息失败' }
+    )
+
+    // 代理去掉 Accept 头时后端按非流式处理并返回任务，直接轮询，避免重复发送
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      let task: MessageTaskSubmitResponse
+      try {
+        task = validate(messageTaskSubmitSchema, await response.json())
+      } catch (error) {
+        throw toApiError(error, endpoint, { action: '发送消息失败' })
+      }
+      sseLog.warn('服务器返回了非流式响应，改为轮询任务结果', task)
+      session.buffered = true
+      return this.pollMessageTask(session, task)
+    }
+
+    for (;;) {
+      let dropError: unknown
+      try {
+        if (await this.readMessageStream(response, endpoint, session.onMessage, signal)) {
+          session.buffered = true
+        }
+      } catch (error) {
+        // 只有网络层错误视为连接中断
+        if (!(error instanceof NetworkError)) throw error
+        dropError = error
+      }
+
+      if (session.contractError) throw session.contractError
+      if (session.finished) return
+
+      // 尚未收到 start 事件时无法续传
+      if (!reconnect || !session.messageId) {
+        throw dropError ?? new StreamError('连接意外中断', { endpoint, retryable: true })
+      }
+
+      sseLog.warn('连接中断，准备重连', {
+        messageId: session.messageId,
+        lastEventId: session.lastEventId,
+      })
+      response = await this.reconnectMessageStream(
+        conversationId,
+        session.messageId,
+        session.lastEventId,
+        () => {
+          session.attempt++
+          if (session.attempt > reconnect.maxRetries) return null
+          return computeBackoff(session.attempt, {
+            ...DEFAULT_RETRY_POLICY,
+            retries: reconnect.maxRetries,
+            // 服务端通过 retry 字段建议的间隔优先
+            baseDelay: session.retryInterval ?? reconnect.baseDelay,
+            maxDelay: reconnect.maxDelay,
+          })
+        },
+        callbacks,
+        signal
+      )
+    }
+  }
+
+  /**
+   * 通过 WebSocket 接收消息事件，首帧发送与 SSE 相同的请求体
+   */
+  private async streamMessageWebSocket(session: MessageStreamSession): Promise<void> {
+    const path = `/conversations/${session.conversationId}/messages/ws`
+    const endpoint = `WS ${path}`
+    const url = new URL(`${this.getBaseUrl()}${path}`, window.location.origin)
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+    const protocols =
+      this.auth?.mode === 'bearer' && this.auth.accessToken
+        ? [SOCKET_AUTH_PROTOCOL, this.auth.accessToken]
+        : undefined
+
+    await readSocketStream(this.socketConnector, url.toString(), {
+      endpoint,
+      payload: session.body,
+      protocols,
+      onMessage: (message) => {
+        this.onStreamEvent?.(endpoint, message)
+        // 收到 end / error 后由客户端关闭连接
+        return session.onMessage(message) === true || session.finished
+      },
+      signal: session.signal,
+    })
+
+    if (session.contractError) throw session.contractError
+  }
+
+  /**
+   * 非流式发送并轮询任务结果，最后一次性输出完整回复
+   */
+  private async streamMessagePolling(session: MessageStreamSession): Promise<void> {
+    const {
       message,
       file_ids: fileIds,
+      parent_id: parentId,
+      action,
+      target_id: targetId,
       enable_thinking: enableThinking,
+    } = session.body
+    const task = await this.sendMessage(session.conversationId, message, fileIds, {
+      enableThinking,
+      parentId,
+      action: action && targetId ? { type: action, messageId: targetId } : undefined,
+      signal: session.signal,
+    })
+    await this.pollMessageTask(session, task)
+  }
+
+  /**
+   * 轮询消息任务，完成后按 start / data / end 事件分发结果
+   */
+  private async pollMessageTask(
+    session: MessageStreamSession,
+    submitted: MessageTaskSubmitResponse
+  ): Promise<void> {
+    const endpoint = `GET /tasks/${submitted.task_id}`
+    const emit = (event: SSEEventType, data: unknown) => {
+      const message: SSEMessage = { event, data: JSON.stringify(data), id: '' }
+      this.onStreamEvent?.(endpoint, message)
+      session.onMessage(message)
     }
 
-    // 调试日志
-    console.log('发送请求:', { enableThinking, requestBody })
+    for (let poll = 0; poll < MESSAGE_TASK_MAX_POLLS; poll++) {
+      const task = await this.requestJson(
+        'getMessageTask',
+        `/tasks/${submitted.task_id}`,
+        { signal: session.signal },
+        { action: '查询消息结果失败' },
+        buildTaskSchema
+      )
 
-    const response = await fetch(`${this.baseUrl}/conversations/${conversationId}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-      signal,
-    })
+      if (task.status === 'failed') {
+        emit('error', { error: task.error || '生成回复失败' })
+        return
+      }
 
-    if (!response.ok) {
-      throw new Error(`发送消息失败: ${response.statusText}`)
+      if (task.status === 'success') {
+        let result: MessageTaskResult
+        try {
+          result = validate(messageTaskResultSchema, task.result, 'result')
+        } catch (error) {
+          throw toApiError(error, endpoint)
+        }
+        emit('start', { message_id: result.message_id })
+        if (result.thinking) emit('data', { content: result.thinking, thinking: true })
+        emit('data', { content: result.content })
+        emit('end', { message_id: result.message_id })
+        if (session.contractError) throw session.contractError
+        return
+      }
+
+      await sleep(MESSAGE_TASK_POLL_INTERVAL, session.signal)
     }
 
-    // 验证响应类型是 SSE
-    const contentType = response.headers.get('content-type')
-    if (!contentType?.includes('text/event-stream')) {
-      throw new Error('服务器不支持流式响应')
+    throw new StreamError('等待回复超时', { endpoint, retryable: true })
+  }
+
+  /**
+   * 校验并读取一次消息事件流连接，返回响应是否被缓冲（非流式）
+   */
+  private async readMessageStream(
+    response: Response,
+    endpoint: string,
+    onMessage: SSEMessageHandler,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (!response.body) {
+      throw new StreamError('无法读取响应流', { endpoint })
     }
 
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('无法读取响应流')
+    // 2xx 响应说明后端已接受消息，不能再改用其他传输方式重新发送；
+    // 代理缓冲或改写了响应类型时仍按 SSE 解析，读不到任何事件才报错
+    const streaming = response.headers.get('content-type')?.includes('text/event-stream')
+    if (!streaming) {
+      sseLog.warn('响应类型不是 text/event-stream，尝试按 SSE 解析', endpoint)
     }
 
-    const decoder = new TextDecoder()
-    let buffer = ''
-    let messageId = ''
+    // 所有事件在同一块数据中到达说明被代理缓冲
+    let chunks = 0
+    const body = response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          chunks++
+          controller.enqueue(chunk)
+        },
+      })
+    )
 
+    let received = 0
     try {
-      while (true) {
-        // 检查是否被中止
-        if (signal?.aborted) {
-          reader.cancel()
-          throw new Error('请求已取消')
-        }
+      // 未指定 event 字段时视为内容数据
+      await readSSEStream(
+        body,
+        (message) => {
+          received++
+          this.onStreamEvent?.(endpoint, message)
+          return onMessage(message)
+        },
+        { signal, defaultEvent: 'data' }
+      )
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
 
-        const { done, value } = await reader.read()
-
-        if (done) break
-
-        // 解码并追加到缓冲区
-        buffer += decoder.decode(value, { stream: true })
-
-        // 按行处理 SSE 数据
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || '' // 保留未完成的行
-
-        let currentEvent: SSEEventType | null = null
-        let currentData = ''
-
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            currentEvent = line.substring(7).trim() as SSEEventType
-          } else if (line.startsWith('data: ')) {
-            currentData = line.substring(6)
-          } else if (line === '') {
-            // 空行表示事件结束
-            if (currentData) {
-              // 如果没有 event 类型，默认为 'data'
-              const eventType = currentEvent || 'data'
-              this.handleSSEEvent(eventType, currentData, callbacks)
-              if (eventType === 'start' || eventType === 'end') {
-                try {
-                  const data = JSON.parse(currentData)
-                  if (data.message_id) messageId = data.message_id
-                } catch {
-                  // 忽略解析错误
-                }
-              }
-            }
-            currentEvent = null
-            currentData = ''
-          }
-        }
+    if (!streaming && received === 0) {
+      throw new StreamError('服务器不支持流式响应', { endpoint })
+    }
+    return !streaming || (chunks === 1 && received > 2)
+  }
+
+  /**
+   * 按退避间隔重连消息事件流，nextDelay 返回 null 时放弃
+   */
+  private async reconnectMessageStream(
+    conversationId: string,
+    messageId: string,
+    lastEventId: string,
+    nextDelay: () => number | null,
+    callbacks: SSECallbacks,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    for (;;) {
+      const delay = nextDelay()
+      if (delay === null) {
+        throw new StreamError('连接已断开，重连失败', {
+          endpoint: `GET /conversations/${conversationId}/messages/${messageId}/stream`,
+          retryable: true,
+        })
       }
 
-      return messageId
-    } catch (error) {
-      // 处理中止错误
-      if (error instanceof Error && error.name === 'AbortError') {
-        callbacks.onError?.('请求已取消')
+      callbacks.onReconnecting?.(delay)
+      await sleep(delay, signal)
+
+      let response: Response
+      try {
+        response = await this.request(
+          'sendMessageStream',
+          `/conversations/${conversationId}/messages/${messageId}/stream`,
+          {
+            headers: {
+              Accept: 'text/event-stream',
+              ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+            },
+            signal,
+          },
+          { action: '恢复消息流失败' }
+        )
+      } catch (error) {
+        // 网络错误与 5xx 继续重试，客户端错误（如消息已过期）直接放弃
+        if (isRetryableError(error)) continue
         throw error
       }
-      throw error
-    } finally {
-      reader.releaseLock()
+
+      callbacks.onReconnected?.()
+      return response
     }
   }
 
   /**
-   * 处理 SSE 事件
+   * 读取构建 / 导出日志流，收到 complete 事件后结束
    */
-  private handleSSEEvent(type: SSEEventType, data: string, callbacks: SSECallbacks): void {
-    try {
-      switch (type) {
-        case 'start':
-          console.log('SSE start:', data)
-          callbacks.onStart?.(JSON.parse(data) as SSEStartData)
-          break
-        case 'data':
-          const parsed = JSON.parse<SSEContentData>(data)
-          // 调试日志 - 显示完整的 thinking 值
-          console.log('SSE data:', {
-            content: parsed.content.substring(0, 100),
-            thinking: parsed.thinking,
-            thinkingType: typeof parsed.thinking
-          })
-          callbacks.onChunk?.(parsed.content, parsed.thinking)
-          break
-        case 'end':
-          console.log('SSE end:', data)
-          callbacks.onEnd?.(JSON.parse(data) as SSEEndData)
-          break
-        case 'error':
-          const errorData = JSON.parse<{ error: string }>(data)
-          callbacks.onError?.(errorData.error)
-          break
-      }
-    } catch (error) {
-      console.error('解析 SSE 事件失败:', error)
-      callbacks.onError?.('解析响应数据失败')
+  private async consumeLogStream(
+    response: Response,
+    endpoint: string,
+    handlers: {
+      onLog: (line: string) => void
+      onComplete: (event: BuildStreamCompleteEvent) => void
+    },
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!response.body) {
+      throw new StreamError('无法读取响应流', { endpoint })
     }
+
+    await readSSEStream(
+      response.body,
+      (message) => {
+        this.onStreamEvent?.(endpoint, message)
+
+        let data: unknown
+        try {
+          data = JSON.parse(message.data)
+        } catch (e) {
+          buildLog.error('解析 SSE 事件失败', e, message.data)
+          return
+        }
+
+        // 结构不符时抛出，由 toApiError 转换为 ContractError
+        const type = (data as Partial<BuildStreamEvent> | null)?.type
+        if (type === 'log') {
+          handlers.onLog(validate(buildStreamLogSchema, data).line)
+        } else if (type === 'complete') {
+          handlers.onComplete(validate(buildStreamCompleteSchema, data))
+          return true
+        }
+      },
+      { signal }
+    ).catch((error) => {
+      throw toApiError(error, endpoint)
+    })
   }
 
   /**
    * 获取会话详情
    */
   async getConversation(conversationId: string): Promise<ConversationDetail> {
-    const response = await fetch(`${this.baseUrl}/conversations/${conversationId}`)
-
-    if (!response.ok) {
-      throw new Error(`获取会话失败: ${response.statusText}`)
-    }
+    const detail = await this.requestJson(
+      'getConversation',
+      `/conversations/${conversationId}`,
+      {},
+      { action: '获取会话失败' },
+      conversationDetailSchema
+    )
+    this.cache?.setConversation(this.getBaseUrl(), detail)
+    return detail
+  }
 
-    return response.json()
+  /**
+   * 读取本地缓存的会话详情，未命中时返回 undefined
+   *
+   * 用于先显示缓存内容，再通过 getConversation 获取最新数据。
+   */
+  async getCachedConversation(
+    conversationId: string
+  ): Promise<CachedData<ConversationDetail> | undefined> {
+    return this.cache?.getConversation(this.getBaseUrl(), conversationId)
   }
 
   /**
    * 列出所有会话
    */
   async listConversations(): Promise<Conversation[]> {
-    const response = await fetch(`${this.baseUrl}/conversations/`)
+    const conversations = await this.requestJson(
+      'listConversations',
+      '/conversations/',
+      {},
+      { action: '获取会话列表失败' },
+      conversationListSchema
+    )
+    this.cache?.setConversationList(this.getBaseUrl(), conversations)
+    return conversations
+  }
 
-    if (!response.ok) {
-      throw new Error(`获取会话列表失败: ${response.statusText}`)
-    }
+  /**
+   * 读取本地缓存的会话列表，未命中时返回 undefined
+   */
+  async getCachedConversations(): Promise<CachedData<Conversation[]> | undefined> {
+    return this.cache?.getConversationList(this.getBaseUrl())
+  }
 
-    return response.json()
+  /**
+   * 修改会话标题，成功后同步更新本地缓存
+   */
+  async renameConversation(conversationId: string, title: string): Promise<void> {
+    await this.request(
+      'renameConversation',
+      `/conversations/${conversationId}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      },
+      { action: '重命名会话失败' }
+    )
+    await this.cache?.renameConversation(this.getBaseUrl(), conversationId, title)
   }
 
   /**
-   * 删除会话
+   * 记录消息中 XML 片段的写入 / 构建状态，重新打开会话时据此恢复
    */
-  async deleteConversation(conversationId: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/conversations/${conversationId}`, {
-      method: 'DELETE',
-    })
+  async updateArtifactState(
+    conversationId: string,
+    messageId: string,
+    partId: string,
+    state: XmlArtifactState
+  ): Promise<void> {
+    await this.request(
+      'updateArtifactState',
+      `/conversations/${conversationId}/messages/${messageId}/artifacts/${partId}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ state }),
+      },
+      { action: '保存构建状态失败' }
+    )
+  }
 
-    if (!response.ok) {
-      throw new Error(`删除会话失败: ${response.statusText}`)
+  /**
+   * 在所有会话的消息与生成的 XML 中搜索
+   *
+   * 后端未提供搜索接口（404）或无法连接时，在本地缓存的会话详情中搜索。
+   */
+  async searchConversations(query: string, signal?: AbortSignal): Promise<SearchResponse> {
+    try {
+      const results = await this.requestJson(
+        'searchConversations',
+        `/search?q=${encodeURIComponent(query)}`,
+        { signal },
+        { action: '搜索失败' },
+        searchResultsSchema
+      )
+      return { results, local: false }
+    } catch (error) {
+      const unsupported = error instanceof HttpError && error.status === 404
+      if (!unsupported && !(error instanceof NetworkError)) throw error
+      apiLog.info('改为搜索本地缓存的会话', error)
+      const details = (await this.cache?.getConversations(this.getBaseUrl())) ?? []
+      return { results: searchConversationDetails(details, query), local: true }
+    }
+  }
+
+  /**
+   * 删除会话，无论成功与否都清除该会话的本地缓存
+   */
+  async deleteConversation(conversationId: string): Promise<void> {
+    try {
+      await this.request(
+        'deleteConversation',
+        `/conversations/${conversationId}`,
+        { method: 'DELETE' },
+        { action: '删除会话失败' }
+      )
+    } finally {
+      await this.cache?.removeConversation(this.getBaseUrl(), conversationId)
     }
   }
 
@@ -348,35 +1588,30 @@ class ChatApiClient {
     const formData = new FormData()
     formData.append('file', blob, 'orm.xml')
 
-    const response = await fetch(`${this.baseUrl}/upload`, {
-      method: 'POST',
-      body: formData,
-    })
-
-    if (!response.ok) {
-      throw new Error(`提交构建任务失败: ${response.statusText}`)
-    }
-
-    const result = await response.json()
+    const result = await this.requestJson(
+      'submitBuildTask',
+      '/upload',
+      {
+        method: 'POST',
+        body: formData,
+      },
+      { action: '提交构建任务失败' },
+      submitBuildTaskSchema
+    )
     return result.task_id
   }
 
   /**
    * 获取构建任务状态
    */
-  async getBuildTask(taskId: string): Promise<{
-    task_id: string
-    status: 'pending' | 'processing' | 'success' | 'failed'
-    result?: any
-    error?: string
-  }> {
-    const response = await fetch(`${this.baseUrl}/tasks/${taskId}`)
-
-    if (!response.ok) {
-      throw new Error(`查询构建任务失败: ${response.statusText}`)
-    }
-
-    return response.json()
+  async getBuildTask(taskId: string): Promise<BuildTask> {
+    return this.requestJson(
+      'getBuildTask',
+      `/tasks/${taskId}`,
+      {},
+      { action: '查询构建任务失败' },
+      buildTaskSchema
+    )
   }
 
   /**
@@ -387,9 +1622,9 @@ class ChatApiClient {
     options: {
       interval?: number
       maxAttempts?: number
-      onProgress?: (task: any) => void
+      onProgress?: (task: BuildTask) => void
     } = {}
-  ): Promise<any> {
+  ): Promise<BuildTask> {
     const { interval = 1000, maxAttempts = 60, onProgress } = options
 
     for (let i = 0; i < maxAttempts; i++) {
@@ -404,14 +1639,18 @@ class ChatApiClient {
       }
 
       if (task.status === 'failed') {
-        throw new Error(task.error || '构建任务失败')
+        throw new TaskError(task.error || '构建任务失败', {
+          endpoint: `GET /tasks/${taskId}`,
+          taskId,
+          detail: task.error,
+        })
       }
 
       // 等待后重试
       await new Promise((resolve) => setTimeout(resolve, interval))
     }
 
-    throw new Error('构建任务超时')
+    throw new RequestAbortedError({ endpoint: `GET /tasks/${taskId}`, timeout: true })
   }
 
   /**
@@ -423,51 +1662,33 @@ class ChatApiClient {
       source?: 'ai' | 'chat' | 'manual'
       taskId?: string
     } = {}
-  ): Promise<{
-    success: boolean
-    entity_name: string
-    action: 'created' | 'updated'
-    message: string
-  }> {
+  ): Promise<OrmEntityWriteResponse> {
     const { source = 'chat', taskId } = options
 
-    const response = await fetch(`${this.baseUrl}/orm/entity`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    return this.requestJson(
+      'writeOrmEntity',
+      '/orm/entity',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          xml: xmlContent,
+          source,
+          task_id: taskId,
+        }),
       },
-      body: JSON.stringify({
-        xml: xmlContent,
-        source,
-        task_id: taskId,
-      }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: '写入 ORM Entity 失败' }))
-      throw new Error(error.detail || `写入 ORM Entity 失败: ${response.statusText}`)
-    }
-
-    return response.json()
+      { action: '写入 ORM Entity 失败', idempotent: true },
+      ormEntityWriteSchema
+    )
   }
 
   /**
    * 检测 XML 类型
    */
   detectXmlType(xmlContent: string): string | null {
-    // 移除代码块标记
-    const cleaned = xmlContent.replace(/```xml\n?/g, '').replace(/```\n?/g, '').trim()
-
-    // 检测 entity 标签 -> orm（放宽条件，只要检测到 entity 标签即可）
-    if (/<entity\b/.test(cleaned)) return 'orm'
-
-    // 检测 setting 标签 -> config
-    if (/<setting\b/.test(cleaned)) return 'config'
-
-    // 检测 endpoint 标签 -> api
-    if (/<endpoint\b/.test(cleaned)) return 'api'
-
-    return null
+    return detectXmlArtifactType(xmlContent)
   }
 
   /**
@@ -480,126 +1701,114 @@ class ChatApiClient {
       source?: 'ai' | 'chat' | 'manual'
       taskId?: string
     } = {}
-  ): Promise<{
-    success: boolean
-    xml_type: string
-    identifier: string
-    action: 'created' | 'updated'
-    display_name: string
-    message: string
-  }> {
+  ): Promise<XmlMergeResponse> {
     const { xmlType, source = 'chat', taskId } = options
 
     // 自动检测类型（如果未指定）
     const detectedType = xmlType || this.detectXmlType(xmlContent)
 
     if (!detectedType) {
-      throw new Error('无法识别 XML 类型，请检查 XML 格式')
+      throw new InvalidRequestError('无法识别 XML 类型，请检查 XML 格式', {
+        endpoint: 'POST /xml/merge',
+      })
     }
 
-    const response = await fetch(`${this.baseUrl}/xml/merge`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    return this.requestJson(
+      'buildXml',
+      '/xml/merge',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          xml_type: detectedType,
+          xml: xmlContent,
+          source,
+          task_id: taskId,
+        }),
       },
-      body: JSON.stringify({
-        xml_type: detectedType,
-        xml: xmlContent,
-        source,
-        task_id: taskId,
-      }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'XML 构建失败' }))
-      throw new Error(error.detail || `XML 构建失败: ${response.statusText}`)
-    }
-
-    return response.json()
+      { action: 'XML 构建失败', idempotent: true },
+      xmlMergeSchema
+    )
   }
 
   /**
    * 获取支持的 XML 类型列表
    */
-  async getXmlTypes(): Promise<{
-    types: Array<{
-      type: string
-      name: string
-      display_name: string
-      element_tag: string
-      description: string
-    }>
-  }> {
-    const response = await fetch(`${this.baseUrl}/xml/types`)
-
-    if (!response.ok) {
-      throw new Error(`获取 XML 类型失败: ${response.statusText}`)
-    }
-
-    return response.json()
+  async getXmlTypes(): Promise<XmlTypesResponse> {
+    return this.requestJson(
+      'getXmlTypes',
+      '/xml/types',
+      {},
+      { action: '获取 XML 类型失败' },
+      xmlTypesSchema
+    )
   }
 
   /**
    * 停止运行中的服务
    */
-  async stopService(port: number = 8080): Promise<{
-    success: boolean
-    message: string
-  }> {
-    const response = await fetch(`${this.baseUrl}/build/stop`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+  async stopService(port: number = 8080): Promise<StopServiceResponse> {
+    return this.requestJson(
+      'stopService',
+      '/build/stop',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ port }),
       },
-      body: JSON.stringify({ port }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`停止服务失败: ${response.statusText}`)
-    }
-
-    return response.json()
+      { action: '停止服务失败' },
+      stopServiceSchema
+    )
   }
 
   /**
    * 导出 Excel（非流式）
    */
   async exportExcel(outputName: string = 'app.orm.xlsx'): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/build/export/excel`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const response = await this.request(
+      'exportExcel',
+      '/build/export/excel',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          output_name: outputName
+        }),
       },
-      body: JSON.stringify({
-        output_name: outputName
-      }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.detail || `导出 Excel 失败: ${response.statusText}`)
-    }
+      { action: '导出 Excel 失败' }
+    )
 
     // 检查响应是否是文件下载
     const contentType = response.headers.get('content-type')
     if (contentType?.includes('spreadsheetml')) {
       // 下载文件
-      const blob = await response.blob()
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = outputName
-      document.body.appendChild(a)
-      a.click()
-      window.URL.revokeObjectURL(url)
-      document.body.removeChild(a)
+      saveBlob(await response.blob(), outputName)
     } else {
       // JSON 响应
       const data = await response.json()
-      console.log('导出结果:', data)
+      buildLog.info('导出结果', data)
     }
   }
 
+  /**
+   * 下载导出的 Excel 文件（经过 request 以携带登录凭据）
+   */
+  async downloadExportedFile(outputName: string): Promise<void> {
+    const response = await this.request(
+      'downloadExportedFile',
+      `/build/export/excel/download?filename=${encodeURIComponent(outputName)}`,
+      {},
+      { action: '下载文件失败' }
+    )
+    saveBlob(await response.blob(), outputName)
+  }
+
   /**
    * 流式导出 Excel
    */
@@ -612,73 +1821,43 @@ class ChatApiClient {
     },
     signal?: AbortSignal
   ): Promise<void> {
-    console.log('开始流式导出Excel:', outputName)
+    buildLog.info('开始流式导出 Excel', outputName)
 
-    const response = await fetch(`${this.baseUrl}/build/export/excel/stream`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const response = await this.request(
+      'exportExcelStream',
+      '/build/export/excel/stream',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          output_name: outputName
+        }),
+        signal,
       },
-      body: JSON.stringify({
-        output_name: outputName
-      }),
-      signal,
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: '导出 Excel 失败' }))
-      throw new Error(error.detail || `导出 Excel 失败: ${response.statusText}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('无法读取响应流')
-    }
-
-    const decoder = new TextDecoder()
-    let buffer = ''
+      { action: '导出 Excel 失败' }
+    )
 
     try {
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // 按行处理 SSE 数据
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.substring(6)
-
-            try {
-              const event = JSON.parse(data)
-
-              if (event.type === 'log') {
-                callbacks.onLog(event.line)
-              } else if (event.type === 'complete') {
-                console.log(`导出完成: success=${event.success}, message=${event.message}`)
-                callbacks.onComplete(event.success, event.message, event.output_name)
-                return
-              }
-            } catch (e) {
-              console.error('解析 SSE 事件失败:', e, 'data:', data)
-            }
-          }
-        }
-      }
+      await this.consumeLogStream(
+        response,
+        'POST /build/export/excel/stream',
+        {
+          onLog: callbacks.onLog,
+          onComplete: (event) => {
+            buildLog.info('导出完成', event)
+            callbacks.onComplete(event.success, event.message, event.output_name)
+          },
+        },
+        signal
+      )
     } catch (error) {
-      console.error('流式导出异常:', error)
-      if (error instanceof Error && error.name === 'AbortError') {
+      buildLog.error('流式导出异常', error)
+      if (isAbortError(error)) {
         callbacks.onError('请求已取消')
-        throw error
       }
       throw error
-    } finally {
-      reader.releaseLock()
     }
   }
 
@@ -686,41 +1865,27 @@ class ChatApiClient {
    * 执行构建命令
    */
   async executeBuildCommand(request: BuildCommandRequest): Promise<BuildCommandResponse> {
-    console.log('发送构建请求:', request)
-
-    // 创建 AbortController 用于超时控制
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), (request.timeout || 300) * 1000 + 5000)
+    buildLog.info('执行构建命令', request)
 
     try {
-      const response = await fetch(`${this.baseUrl}/build/execute`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const result = await this.requestJson(
+        'executeBuildCommand',
+        '/build/execute',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(request),
         },
-        body: JSON.stringify(request),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      console.log('构建响应状态:', response.status)
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ detail: '执行构建命令失败' }))
-        console.error('构建请求失败:', error)
-        throw new Error(error.detail || `执行构建命令失败: ${response.statusText}`)
-      }
-
-      const result = await response.json()
-      console.log('构建响应结果:', result)
+        // 比命令自身的超时多留 5 秒
+        { action: '执行构建命令失败', timeout: (request.timeout || 300) * 1000 + 5000 },
+        buildCommandSchema
+      )
+      buildLog.info('构建命令结果', { success: result.success, exit_code: result.exit_code })
       return result
     } catch (error) {
-      clearTimeout(timeoutId)
-      console.error('构建请求异常:', error)
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('请求超时')
-      }
+      buildLog.error('构建请求异常', error)
       throw error
     }
   }
@@ -737,84 +1902,72 @@ class ChatApiClient {
     },
     signal?: AbortSignal
   ): Promise<void> {
-    console.log('开始流式构建请求:', request)
+    buildLog.info('开始流式构建', request)
 
-    const response = await fetch(`${this.baseUrl}/build/execute/stream`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const response = await this.request(
+      'executeBuildCommandStream',
+      '/build/execute/stream',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal,
       },
-      body: JSON.stringify(request),
-      signal,
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: '执行构建命令失败' }))
-      throw new Error(error.detail || `执行构建命令失败: ${response.statusText}`)
-    }
+      { action: '执行构建命令失败' }
+    )
 
-    console.log('流式响应已建立，开始读取...')
+    buildLog.debug('流式响应已建立，开始读取')
 
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('无法读取响应流')
-    }
-
-    const decoder = new TextDecoder()
-    let buffer = ''
     let logCount = 0
 
     try {
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) {
-          console.log(`流式响应结束，共接收 ${logCount} 条日志`)
-          break
-        }
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // 按行处理 SSE 数据
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.substring(6)
-
-            try {
-              const event = JSON.parse(data)
-
-              if (event.type === 'log') {
-                logCount++
-                callbacks.onLog(event.line)
-              } else if (event.type === 'complete') {
-                console.log(`收到 complete 事件: success=${event.success}, message=${event.message}`)
-                callbacks.onComplete(event.success, event.message)
-                return
-              }
-            } catch (e) {
-              console.error('解析 SSE 事件失败:', e, 'data:', data)
-            }
-          }
-        }
-      }
+      await this.consumeLogStream(
+        response,
+        'POST /build/execute/stream',
+        {
+          onLog: (line) => {
+            logCount++
+            callbacks.onLog(line)
+          },
+          onComplete: (event) => {
+            buildLog.info('构建完成', event)
+            callbacks.onComplete(event.success, event.message)
+          },
+        },
+        signal
+      )
+      buildLog.debug(`流式响应结束，共接收 ${logCount} 条日志`)
     } catch (error) {
-      console.error('流式请求异常:', error)
-      if (error instanceof Error && error.name === 'AbortError') {
+      buildLog.error('流式构建异常', error)
+      if (isAbortError(error)) {
         callbacks.onError('请求已取消')
-        throw error
       }
       throw error
-    } finally {
-      reader.releaseLock()
     }
   }
 }
 
-// 导出单例实例
-export const chatApi = new ChatApiClient()
+// 每个后端配置单独保存登录状态，默认配置沿用原来的键
+const getAuthStorageKey = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? 'auto-chat:auth' : `auto-chat:auth:${profileId}`
+
+authSession.switchStorage(getAuthStorageKey(profileStore.getSnapshot().activeId))
+profileStore.subscribe(() => {
+  authSession.switchStorage(getAuthStorageKey(profileStore.getSnapshot().activeId))
+})
+
+// 导出单例实例，请求地址跟随当前后端配置
+// VITE_API_MOCK=true 时所有请求由浏览器内的模拟后端处理
+export const chatApi = new ChatApiClient(() => profileStore.getActive().baseUrl, {
+  ...(isMockEnabled() ? getMockClientOptions() : {}),
+  auth: authSession,
+  cache: conversationCache,
+  transport: getChatTransportSetting,
+  middleware: [debugMiddleware()],
+  onStreamEvent: (endpoint, message) => debugStore.recordStreamEvent(endpoint, message),
+})
 
 // 导出类以便自定义配置
 export { ChatApiClient }
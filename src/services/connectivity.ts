@@ -0,0 +1,90 @@
+import { chatApi } from './chatApi'
+import { createLogger } from './logger'
+
+const log = createLogger('connectivity')
+
+export interface ConnectivitySnapshot {
+  // 后端是否可达
+  online: boolean
+}
+
+// 离线期间探测后端的间隔（毫秒）
+const PROBE_INTERVAL = 10000
+
+/**
+ * 网络连通性：结合浏览器 online/offline 事件与后端健康检查
+ *
+ * 浏览器报告联网只代表有网络连接，还需探测当前后端确实可用才视为恢复。
+ * 请求出现网络错误时由调用方 reportOffline，离线期间定时探测。
+ */
+class ConnectivityMonitor {
+  private snapshot: ConnectivitySnapshot
+  private listeners = new Set<() => void>()
+  private probeTimer: ReturnType<typeof setTimeout> | null = null
+  private probing: Promise<boolean> | null = null
+
+  constructor() {
+    this.snapshot = { online: typeof navigator === 'undefined' || navigator.onLine }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.probe()
+      })
+      window.addEventListener('offline', () => {
+        this.reportOffline()
+      })
+    }
+  }
+
+  /**
+   * 标记为离线，并开始定时探测后端
+   */
+  reportOffline(): void {
+    this.setOnline(false)
+    this.scheduleProbe()
+  }
+
+  /**
+   * 立即探测当前后端，返回是否可用；并发调用共享同一次探测
+   */
+  probe(): Promise<boolean> {
+    if (!this.probing) {
+      this.probing = chatApi
+        .checkHealth()
+        .then((result) => {
+          this.setOnline(result.ok)
+          if (!result.ok) this.scheduleProbe()
+          return result.ok
+        })
+        .finally(() => {
+          this.probing = null
+        })
+    }
+    return this.probing
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): ConnectivitySnapshot => this.snapshot
+
+  private scheduleProbe(): void {
+    if (this.probeTimer) return
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null
+      this.probe()
+    }, PROBE_INTERVAL)
+  }
+
+  private setOnline(online: boolean): void {
+    if (this.snapshot.online === online) return
+    log.info(online ? '后端已恢复连接' : '后端不可达，进入离线模式')
+    this.snapshot = { online }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const connectivity = new ConnectivityMonitor()
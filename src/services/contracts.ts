@@ -0,0 +1,223 @@
+import type { SSEEventDataMap, SSEEventType } from '@/types/chat'
+import type {
+  BuildCommandResponse,
+  BuildStreamCompleteEvent,
+  BuildStreamLogEvent,
+  BuildTask,
+  ChunkedUploadSession,
+  Conversation,
+  ConversationDetail,
+  CreateConversationResponse,
+  FileUploadResponse,
+  LoginResponse,
+  MessageTaskResult,
+  MessageTaskSubmitResponse,
+  OrmEntityWriteResponse,
+  SearchResult,
+  StopServiceResponse,
+  XmlMergeResponse,
+  XmlTypesResponse
+} from './chatApi'
+import type { AuthTokens, AuthUser } from './auth'
+import * as s from './schema'
+import type { Validator } from './schema'
+
+/**
+ * 后端接口的数据约定，字段与 chatApi.ts 中的响应类型一一对应
+ */
+
+export const authUserSchema: Validator<AuthUser> = s.object({
+  id: s.string(),
+  username: s.string(),
+  display_name: s.optional(s.string())
+})
+
+export const authTokensSchema: Validator<AuthTokens> = s.object({
+  access_token: s.string(),
+  refresh_token: s.optional(s.string()),
+  token_type: s.optional(s.string()),
+  expires_in: s.optional(s.number())
+})
+
+export const loginResponseSchema: Validator<LoginResponse> = s.object({
+  user: authUserSchema,
+  access_token: s.optional(s.string()),
+  refresh_token: s.optional(s.string()),
+  token_type: s.optional(s.string()),
+  expires_in: s.optional(s.number())
+})
+
+export const createConversationSchema: Validator<CreateConversationResponse> = s.object({
+  conversation_id: s.string(),
+  title: s.string()
+})
+
+export const fileUploadSchema: Validator<FileUploadResponse> = s.object({
+  file_id: s.string(),
+  original_name: s.string(),
+  file_size: s.number()
+})
+
+export const chunkedUploadSessionSchema: Validator<ChunkedUploadSession> = s.object({
+  upload_id: s.string(),
+  chunk_size: s.number(),
+  total_chunks: s.number(),
+  received_chunks: s.array(s.number())
+})
+
+export const messageTaskSubmitSchema: Validator<MessageTaskSubmitResponse> = s.object({
+  task_id: s.string(),
+  message_id: s.optional(s.string()),
+  status: s.optional(s.string())
+})
+
+export const messageTaskResultSchema: Validator<MessageTaskResult> = s.object({
+  message_id: s.string(),
+  content: s.string(),
+  thinking: s.optional(s.string())
+})
+
+export const conversationDetailSchema: Validator<ConversationDetail> = s.object({
+  conversation_id: s.string(),
+  title: s.string(),
+  created_at: s.number(),
+  messages: s.array(
+    s.object({
+      id: s.optional(s.string()),
+      role: s.literal('user', 'assistant', 'system'),
+      parent_id: s.optional(s.nullable(s.string())),
+      content: s.string(),
+      timestamp: s.number(),
+      thinking: s.optional(s.string()),
+      file_ids: s.optional(s.array(s.string())),
+      artifacts: s.optional(
+        s.array(
+          s.object({
+            part_id: s.string(),
+            state: s.literal('written', 'built'),
+            updated_at: s.number()
+          })
+        )
+      )
+    })
+  ),
+  files: s.array(
+    s.object({
+      id: s.string(),
+      original_name: s.string(),
+      file_size: s.number(),
+      upload_time: s.number()
+    })
+  )
+})
+
+export const conversationListSchema: Validator<Conversation[]> = s.array(
+  s.object({
+    id: s.string(),
+    title: s.string(),
+    created_at: s.number(),
+    message_count: s.number()
+  })
+)
+
+export const searchResultsSchema: Validator<SearchResult[]> = s.array(
+  s.object({
+    conversation_id: s.string(),
+    conversation_title: s.string(),
+    message_id: s.string(),
+    role: s.literal('user', 'assistant', 'system'),
+    snippet: s.string(),
+    timestamp: s.number(),
+    xml_type: s.optional(s.literal('orm', 'config', 'api'))
+  })
+)
+
+export const submitBuildTaskSchema: Validator<{ task_id: string }> = s.object({
+  task_id: s.string()
+})
+
+export const buildTaskSchema: Validator<BuildTask> = s.object({
+  task_id: s.string(),
+  status: s.literal('pending', 'processing', 'success', 'failed'),
+  result: s.unknown(),
+  error: s.optional(s.string())
+})
+
+export const ormEntityWriteSchema: Validator<OrmEntityWriteResponse> = s.object({
+  success: s.boolean(),
+  entity_name: s.string(),
+  action: s.literal('created', 'updated'),
+  message: s.string()
+})
+
+export const xmlMergeSchema: Validator<XmlMergeResponse> = s.object({
+  success: s.boolean(),
+  xml_type: s.string(),
+  identifier: s.string(),
+  action: s.literal('created', 'updated'),
+  display_name: s.string(),
+  message: s.string()
+})
+
+export const xmlTypesSchema: Validator<XmlTypesResponse> = s.object({
+  types: s.array(
+    s.object({
+      type: s.string(),
+      name: s.string(),
+      display_name: s.string(),
+      element_tag: s.string(),
+      description: s.string()
+    })
+  )
+})
+
+export const stopServiceSchema: Validator<StopServiceResponse> = s.object({
+  success: s.boolean(),
+  message: s.string()
+})
+
+export const buildCommandSchema: Validator<BuildCommandResponse> = s.object({
+  success: s.nullable(s.boolean()),
+  command: s.string(),
+  exit_code: s.nullable(s.number()),
+  stdout: s.string(),
+  stderr: s.string(),
+  execution_time: s.number(),
+  message: s.string(),
+  phase: s.optional(s.literal('build', 'dev'))
+})
+
+// 构建 / 导出日志流事件，按 type 字段区分
+export const buildStreamLogSchema: Validator<BuildStreamLogEvent> = s.object({
+  type: s.literal('log'),
+  line: s.string()
+})
+
+export const buildStreamCompleteSchema: Validator<BuildStreamCompleteEvent> = s.object({
+  type: s.literal('complete'),
+  success: s.boolean(),
+  message: s.string(),
+  output_name: s.optional(s.string())
+})
+
+// 聊天 SSE 事件
+export const sseEventSchemas: { [K in SSEEventType]: Validator<SSEEventDataMap[K]> } = {
+  start: s.object({ message_id: s.string(), user_message_id: s.optional(s.string()) }),
+  data: s.object({ content: s.string(), thinking: s.optional(s.boolean()) }),
+  end: s.object({ message_id: s.string() }),
+  error: s.object({ error: s.string() }),
+  status: s.object({ message: s.string(), stage: s.optional(s.string()) }),
+  usage: s.object({
+    prompt_tokens: s.number(),
+    completion_tokens: s.number(),
+    total_tokens: s.optional(s.number()),
+    latency_ms: s.optional(s.number())
+  }),
+  title: s.object({ conversation_id: s.optional(s.string()), title: s.string() }),
+  tool_call: s.object({ id: s.string(), name: s.string(), arguments: s.optional(s.unknown()) }),
+  tool_result: s.object({
+    id: s.string(),
+    result: s.optional(s.unknown()),
+    error: s.optional(s.string())
+  })
+}
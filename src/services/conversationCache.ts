@@ -0,0 +1,198 @@
+import type { Conversation, ConversationDetail } from './chatApi'
+import { withStore } from './db'
+import { createLogger } from './logger'
+
+const log = createLogger('cache')
+
+// 缓存上限，超出后按更新时间淘汰最旧的会话
+const MAX_CACHED_CONVERSATIONS = 50
+const MAX_CACHE_SIZE = 5 * 1024 * 1024
+
+// 会话列表在缓存中的 ID
+const LIST_ID = '*'
+
+interface CacheEntry {
+  // `${scope} ${id}`
+  key: string
+  // 后端地址，不同后端的缓存互不影响
+  scope: string
+  id: string
+  data: ConversationDetail | Conversation[]
+  // 序列化后的长度，用于估算占用空间
+  size: number
+  updatedAt: number
+}
+
+export interface CachedData<T> {
+  data: T
+  updatedAt: number
+}
+
+function toKey(scope: string, id: string): string {
+  return `${scope} ${id}`
+}
+
+/**
+ * 会话详情与会话列表的本地缓存（IndexedDB）
+ *
+ * 只用于加快首屏显示，读写失败时视为未命中，不影响正常请求。
+ */
+export class ConversationCache {
+  getConversation(
+    scope: string,
+    conversationId: string
+  ): Promise<CachedData<ConversationDetail> | undefined> {
+    return this.read(scope, conversationId)
+  }
+
+  setConversation(scope: string, detail: ConversationDetail): Promise<void> {
+    return this.write(scope, detail.conversation_id, detail)
+  }
+
+  /**
+   * 读取一个后端缓存的全部会话详情（用于离线搜索）
+   */
+  async getConversations(scope: string): Promise<ConversationDetail[]> {
+    try {
+      const entries = await this.readAll()
+      return entries
+        .filter((entry) => entry.scope === scope && entry.id !== LIST_ID)
+        .map((entry) => entry.data as ConversationDetail)
+    } catch (error) {
+      log.debug('读取会话缓存失败', error)
+      return []
+    }
+  }
+
+  getConversationList(scope: string): Promise<CachedData<Conversation[]> | undefined> {
+    return this.read(scope, LIST_ID)
+  }
+
+  setConversationList(scope: string, conversations: Conversation[]): Promise<void> {
+    return this.write(scope, LIST_ID, conversations)
+  }
+
+  /**
+   * 修改缓存中会话详情与会话列表里的标题
+   */
+  async renameConversation(scope: string, conversationId: string, title: string): Promise<void> {
+    const [detail, list] = await Promise.all([
+      this.getConversation(scope, conversationId),
+      this.getConversationList(scope)
+    ])
+    if (detail) {
+      await this.setConversation(scope, { ...detail.data, title })
+    }
+    if (list) {
+      await this.setConversationList(
+        scope,
+        list.data.map((item) => (item.id === conversationId ? { ...item, title } : item))
+      )
+    }
+  }
+
+  /**
+   * 删除会话的缓存，并从缓存的会话列表中移除
+   */
+  async removeConversation(scope: string, conversationId: string): Promise<void> {
+    try {
+      await withStore('conversations', 'readwrite', (store) =>
+        store.delete(toKey(scope, conversationId))
+      )
+      const list = await this.getConversationList(scope)
+      if (list) {
+        await this.setConversationList(
+          scope,
+          list.data.filter((item) => item.id !== conversationId)
+        )
+      }
+    } catch (error) {
+      log.warn('删除会话缓存失败', error)
+    }
+  }
+
+  /**
+   * 清除一个后端的全部缓存（退出登录时调用）
+   */
+  async clear(scope: string): Promise<void> {
+    try {
+      const entries = await this.readAll()
+      const keys = entries.filter((entry) => entry.scope === scope).map((entry) => entry.key)
+      if (keys.length === 0) return
+      await withStore('conversations', 'readwrite', (store) => {
+        keys.forEach((key) => store.delete(key))
+      })
+    } catch (error) {
+      log.warn('清除会话缓存失败', error)
+    }
+  }
+
+  private async read<T extends CacheEntry['data']>(
+    scope: string,
+    id: string
+  ): Promise<CachedData<T> | undefined> {
+    try {
+      const entry = await withStore<CacheEntry | undefined>('conversations', 'readonly', (store) =>
+        store.get(toKey(scope, id))
+      )
+      return entry ? { data: entry.data as T, updatedAt: entry.updatedAt } : undefined
+    } catch (error) {
+      log.debug('读取会话缓存失败', error)
+      return undefined
+    }
+  }
+
+  private async write(scope: string, id: string, data: CacheEntry['data']): Promise<void> {
+    const size = JSON.stringify(data).length
+    // 单个会话超过上限时不缓存
+    if (size > MAX_CACHE_SIZE) return
+    const entry: CacheEntry = {
+      key: toKey(scope, id),
+      scope,
+      id,
+      data,
+      size,
+      updatedAt: Date.now()
+    }
+    try {
+      await withStore('conversations', 'readwrite', (store) => store.put(entry))
+      await this.prune()
+    } catch (error) {
+      log.debug('写入会话缓存失败', error)
+    }
+  }
+
+  private async readAll(): Promise<CacheEntry[]> {
+    const entries = await withStore<CacheEntry[]>('conversations', 'readonly', (store) =>
+      store.getAll()
+    )
+    return entries ?? []
+  }
+
+  /**
+   * 超出数量或空间上限时淘汰最早更新的会话详情
+   */
+  private async prune(): Promise<void> {
+    const entries = await this.readAll()
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    let count = entries.filter((entry) => entry.id !== LIST_ID).length
+    if (count <= MAX_CACHED_CONVERSATIONS && total <= MAX_CACHE_SIZE) return
+
+    const evicted: string[] = []
+    const details = entries
+      .filter((entry) => entry.id !== LIST_ID)
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+    for (const entry of details) {
+      if (count <= MAX_CACHED_CONVERSATIONS && total <= MAX_CACHE_SIZE) break
+      evicted.push(entry.key)
+      count -= 1
+      total -= entry.size
+    }
+    log.debug('淘汰会话缓存', evicted.length)
+    await withStore('conversations', 'readwrite', (store) => {
+      evicted.forEach((key) => store.delete(key))
+    })
+  }
+}
+
+export const conversationCache = new ConversationCache()
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '@/types/chat'
+import {
+  createConversationExport,
+  formatConversationExport,
+  parseConversationExport
+} from './conversationExport'
+import { resolveThread } from './messageTree'
+
+function message(id: string, parentId: string | null, extra: Partial<Message> = {}): Message {
+  return {
+    id,
+    parentId,
+    role: id.startsWith('u') ? 'user' : 'assistant',
+    content: id,
+    timestamp: 0,
+    ...extra
+  }
+}
+
+const conversation = { id: 'c1', title: '分支' }
+
+describe('createConversationExport', () => {
+  it('保留所有分支，重新导入后 parentId 仍指向文件中的消息', () => {
+    const messages = [
+      message('u1', null),
+      message('a1', 'u1'),
+      message('u2', 'a1'),
+      message('a2', 'u2'),
+      message('u3', 'a1'),
+      message('a3', 'u3')
+    ]
+    const data = parseConversationExport(
+      formatConversationExport('json', createConversationExport(conversation, messages))
+    )
+    const ids = new Set(data.messages.map((msg) => msg.id))
+    expect(ids.size).toBe(6)
+    expect(data.messages.every((msg) => !msg.parentId || ids.has(msg.parentId))).toBe(true)
+    expect(resolveThread(data.messages, 'a2').messages.map((msg) => msg.id)).toEqual([
+      'u1',
+      'a1',
+      'u2',
+      'a2'
+    ])
+  })
+
+  it('不导出正在生成的回复与未发送的消息，其后的消息接到上一条消息', () => {
+    const messages = [
+      message('u1', null),
+      message('a1', 'u1', { loading: true }),
+      message('u2', 'a1', { deliveryStatus: 'failed' }),
+      message('u3', 'u2', { deliveryStatus: 'pending' }),
+      message('u4', 'a1')
+    ]
+    const data = createConversationExport(conversation, messages)
+    expect(data.messages.map((msg) => [msg.id, msg.parentId])).toEqual([
+      ['u1', null],
+      ['u4', 'u1']
+    ])
+  })
+})
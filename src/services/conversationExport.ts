@@ -0,0 +1,490 @@
+import type {
+  Attachment,
+  BuildLogPart,
+  ExportResultPart,
+  Message,
+  MessagePart,
+  ToolCallPart,
+  XmlArtifactPart,
+  XmlArtifactState
+} from '@/types/chat'
+import { saveBlob } from './download'
+import { getMessageParts } from './messageParts'
+import { removeMessage } from './messageTree'
+import * as s from './schema'
+import { SchemaValidationError, validate } from './schema'
+import type { Validator } from './schema'
+
+export type ExportFormat = 'markdown' | 'html' | 'json'
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  json: 'JSON'
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json'
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  json: 'application/json'
+}
+
+// JSON 导出文件的格式标识与版本，导入时据此识别
+const FORMAT_ID = 'auto-chat/conversation'
+const FORMAT_VERSION = 1
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: '用户',
+  assistant: '助手',
+  system: '系统'
+}
+
+const ARTIFACT_STATE_LABELS: Record<XmlArtifactState, string> = {
+  written: '已写入',
+  built: '已构建'
+}
+
+const TOOL_STATUS_LABELS: Record<ToolCallPart['status'], string> = {
+  running: '未完成',
+  success: '成功',
+  error: '失败'
+}
+
+export interface ExportedConversation {
+  // 导出时的会话 ID
+  id: string
+  title: string
+}
+
+/**
+ * JSON 导出格式：保留消息的全部片段，包括 XML 的处理进度、构建日志、导出结果与工具调用
+ */
+export interface ConversationExport {
+  format: typeof FORMAT_ID
+  version: number
+  exported_at: number
+  conversation: ExportedConversation
+  messages: Message[]
+}
+
+const partFields = { id: s.string() }
+const contentPartFields = { ...partFields, start: s.number() }
+const nullableBoolean = s.nullable(s.boolean())
+
+const messagePartSchema: Validator<MessagePart> = s.variant('type', {
+  text: s.object({ ...contentPartFields, type: s.literal('text'), text: s.string() }),
+  code: s.object({
+    ...contentPartFields,
+    type: s.literal('code'),
+    lang: s.string(),
+    code: s.string(),
+    complete: s.boolean()
+  }),
+  xml: s.object({
+    ...contentPartFields,
+    type: s.literal('xml'),
+    xmlType: s.literal('orm', 'config', 'api'),
+    xml: s.string(),
+    complete: s.boolean(),
+    state: s.optional(s.literal('written', 'built'))
+  }),
+  'build-log': s.object({
+    ...partFields,
+    type: s.literal('build-log'),
+    artifactId: s.string(),
+    phase: s.literal('build', 'dev'),
+    command: s.string(),
+    success: nullableBoolean,
+    exitCode: s.nullable(s.number()),
+    output: s.string(),
+    error: s.string(),
+    executionTime: s.number(),
+    message: s.string()
+  }),
+  'export-result': s.object({
+    ...partFields,
+    type: s.literal('export-result'),
+    artifactId: s.string(),
+    success: nullableBoolean,
+    message: s.string(),
+    log: s.string(),
+    outputName: s.optional(s.string())
+  }),
+  'tool-call': s.object({
+    ...partFields,
+    type: s.literal('tool-call'),
+    callId: s.string(),
+    name: s.string(),
+    arguments: s.optional(s.unknown()),
+    status: s.literal('running', 'success', 'error'),
+    result: s.optional(s.unknown()),
+    error: s.optional(s.string())
+  })
+})
+
+const conversationExportSchema: Validator<ConversationExport> = s.object({
+  format: s.literal(FORMAT_ID),
+  version: s.number(),
+  exported_at: s.number(),
+  conversation: s.object({ id: s.string(), title: s.string() }),
+  messages: s.array(
+    s.object({
+      id: s.string(),
+      parentId: s.optional(s.nullable(s.string())),
+      role: s.literal('user', 'assistant', 'system'),
+      content: s.string(),
+      parts: s.optional(s.array(messagePartSchema)),
+      timestamp: s.number(),
+      attachments: s.optional(
+        s.array(
+          s.object({
+            id: s.string(),
+            name: s.string(),
+            size: s.number(),
+            type: s.string(),
+            fileId: s.optional(s.string())
+          })
+        )
+      ),
+      thinkingContent: s.optional(s.string()),
+      usage: s.optional(
+        s.object({
+          promptTokens: s.number(),
+          completionTokens: s.number(),
+          totalTokens: s.number(),
+          latency: s.optional(s.number())
+        })
+      )
+    })
+  )
+})
+
+/**
+ * 只保留消息本身的内容，去掉加载、投递状态与附件的本地文件等界面状态
+ */
+function toExportedMessage(message: Message): Message {
+  return {
+    id: message.id,
+    parentId: message.parentId,
+    role: message.role,
+    content: message.content,
+    parts: getMessageParts(message),
+    timestamp: message.timestamp,
+    attachments: message.attachments?.map((item) => ({
+      id: item.id,
+      name: item.name,
+      size: item.size,
+      type: item.type,
+      fileId: item.fileId
+    })),
+    thinkingContent: message.thinkingContent,
+    usage: message.usage
+  }
+}
+
+/**
+ * 生成导出数据，不包含正在生成的回复与尚未发送的消息
+ *
+ * 去掉的消息如有子消息，子消息改为接在它的上一条消息之后，保持消息树完整。
+ */
+export function createConversationExport(
+  conversation: ExportedConversation,
+  messages: Message[]
+): ConversationExport {
+  const exported = messages
+    .filter((message) => message.loading || message.deliveryStatus)
+    .reduce((rest, message) => removeMessage(rest, message.id), messages)
+  return {
+    format: FORMAT_ID,
+    version: FORMAT_VERSION,
+    exported_at: Date.now(),
+    conversation: { id: conversation.id, title: conversation.title },
+    messages: exported.map(toExportedMessage)
+  }
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString()
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+}
+
+function describeResult(success: boolean | null): string {
+  if (success === null) return '未完成'
+  return success ? '成功' : '失败'
+}
+
+function describeArtifact(part: XmlArtifactPart): string {
+  const state = part.state ? ARTIFACT_STATE_LABELS[part.state] : '未处理'
+  return `${part.xmlType.toUpperCase()} XML（${part.id}）：${state}`
+}
+
+function describeBuildLog(part: BuildLogPart): string {
+  const stage = part.phase === 'dev' ? '启动开发服务器' : '构建'
+  const message = part.message ? `：${part.message}` : ''
+  return `${stage}${describeResult(part.success)}（${part.executionTime.toFixed(2)}s）${message}`
+}
+
+function describeExportResult(part: ExportResultPart): string {
+  const detail = part.outputName || part.message
+  return `导出 Excel ${describeResult(part.success)}${detail ? `：${detail}` : ''}`
+}
+
+function describeToolCall(part: ToolCallPart): string {
+  const error = part.error ? `：${part.error}` : ''
+  return `调用工具 ${part.name}：${TOOL_STATUS_LABELS[part.status]}${error}`
+}
+
+function describeAttachment(attachment: Attachment): string {
+  return `${attachment.name}（${formatFileSize(attachment.size)}）`
+}
+
+function getResultLog(part: BuildLogPart | ExportResultPart): string {
+  return part.type === 'build-log' ? part.output || part.error : part.log
+}
+
+// 按类型挑出 XML、工具调用与构建 / 导出结果，各自保持出现顺序
+function getResultParts(parts: MessagePart[]) {
+  return {
+    artifacts: parts.filter((part): part is XmlArtifactPart => part.type === 'xml'),
+    tools: parts.filter((part): part is ToolCallPart => part.type === 'tool-call'),
+    results: parts.filter(
+      (part): part is BuildLogPart | ExportResultPart =>
+        part.type === 'build-log' || part.type === 'export-result'
+    )
+  }
+}
+
+function describeResultPart(part: BuildLogPart | ExportResultPart): string {
+  return part.type === 'build-log' ? describeBuildLog(part) : describeExportResult(part)
+}
+
+/**
+ * 代码块围栏比内容中最长的连续反引号多一个
+ */
+function fence(lang: string, code: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((item) => item.length))
+  const marker = '`'.repeat(longest + 1)
+  return `${marker}${lang}\n${code.endsWith('\n') ? code : `${code}\n`}${marker}`
+}
+
+function toMarkdownDetails(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`
+}
+
+function toMarkdownMessage(message: Message): string {
+  const blocks = [`## ${ROLE_LABELS[message.role]} · ${formatTime(message.timestamp)}`]
+  if (message.thinkingContent) {
+    blocks.push(toMarkdownDetails('思考过程', message.thinkingContent.trim()))
+  }
+  if (message.attachments?.length) {
+    blocks.push(message.attachments.map((item) => `- 📎 ${describeAttachment(item)}`).join('\n'))
+  }
+  if (message.content.trim()) blocks.push(message.content.trim())
+
+  const { artifacts, tools, results } = getResultParts(getMessageParts(message))
+  if (tools.length > 0) {
+    blocks.push(tools.map((part) => `- 🔧 ${describeToolCall(part)}`).join('\n'))
+  }
+  if (artifacts.length > 0 || results.length > 0) {
+    const lines = [...artifacts.map(describeArtifact), ...results.map(describeResultPart)].map(
+      (line) => `- ${line}`
+    )
+    blocks.push(`**处理结果**\n\n${lines.join('\n')}`)
+  }
+  results.forEach((part) => {
+    const log = getResultLog(part)
+    if (log) {
+      const summary = part.type === 'build-log' ? '构建日志' : '导出日志'
+      blocks.push(toMarkdownDetails(summary, fence('text', log)))
+    }
+  })
+  if (message.usage) {
+    blocks.push(`_${message.usage.totalTokens} tokens_`)
+  }
+  return blocks.join('\n\n')
+}
+
+function toMarkdown(data: ConversationExport): string {
+  const header = [
+    `# ${data.conversation.title || '新对话'}`,
+    `> 导出时间：${formatTime(data.exported_at)} · ${data.messages.length} 条消息`
+  ]
+  return [...header, ...data.messages.map(toMarkdownMessage)].join('\n\n') + '\n'
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const HTML_STYLE = `
+body { max-width: 860px; margin: 0 auto; padding: 32px 16px; background: #fcfcfc; color: #1e293b; font: 14px/1.6 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+.meta { color: #94a3b8; font-size: 12px; }
+.message { margin: 24px 0; padding: 16px; border: 1px solid #e2e8f0; border-radius: 12px; background: #ffffff; }
+.message.user { background: #f0fdf9; }
+.role { font-weight: 600; margin-bottom: 8px; }
+.role .meta { font-weight: normal; margin-left: 8px; }
+.text { white-space: pre-wrap; word-break: break-word; }
+pre { overflow-x: auto; padding: 12px; border-radius: 8px; background: #0f172a; color: #e2e8f0; font-size: 12px; }
+.label { display: inline-block; margin-bottom: 4px; padding: 0 6px; border-radius: 4px; background: #e2f5ef; color: #10a37f; font-size: 11px; font-weight: 600; }
+details { margin: 8px 0; }
+summary { cursor: pointer; color: #64748b; }
+.thinking { padding: 8px 12px; border-left: 3px solid #cbd5e1; color: #64748b; }
+.attachments, .results { margin: 8px 0; padding-left: 20px; }
+.success { color: #10a37f; }
+.error { color: #ef4444; }
+`
+
+function toHtmlDetails(summary: string, body: string): string {
+  return `<details><summary>${summary}</summary>${body}</details>`
+}
+
+function toHtmlCode(code: string): string {
+  return `<pre><code>${escapeHtml(code)}</code></pre>`
+}
+
+function toHtmlPart(part: MessagePart): string {
+  switch (part.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(part.text)}</div>`
+    case 'code':
+      return toHtmlCode(part.code)
+    case 'xml':
+      return `<div class="label">${escapeHtml(describeArtifact(part))}</div>${toHtmlCode(part.xml)}`
+    case 'tool-call': {
+      const call = `<div class="meta">🔧 ${escapeHtml(describeToolCall(part))}</div>`
+      if (part.result === undefined) return call
+      return call + toHtmlDetails('结果', toHtmlCode(formatValue(part.result)))
+    }
+    default:
+      return ''
+  }
+}
+
+function toHtmlResult(part: BuildLogPart | ExportResultPart): string {
+  const status = part.success === null ? '' : part.success ? 'success' : 'error'
+  const log = getResultLog(part)
+  const details = log ? toHtmlDetails('日志', toHtmlCode(log)) : ''
+  return `<li class="${status}">${escapeHtml(describeResultPart(part))}${details}</li>`
+}
+
+function toHtmlMessage(message: Message): string {
+  const parts = getMessageParts(message)
+  const { results } = getResultParts(parts)
+  const usage = message.usage ? ` · ${message.usage.totalTokens} tokens` : ''
+  const meta = `<span class="meta">${escapeHtml(formatTime(message.timestamp))}${usage}</span>`
+  const html = [`<div class="role">${ROLE_LABELS[message.role]}${meta}</div>`]
+  if (message.thinkingContent) {
+    const thinking = `<div class="thinking text">${escapeHtml(message.thinkingContent)}</div>`
+    html.push(toHtmlDetails('思考过程', thinking))
+  }
+  if (message.attachments?.length) {
+    const items = message.attachments.map(
+      (item) => `<li>📎 ${escapeHtml(describeAttachment(item))}</li>`
+    )
+    html.push(`<ul class="attachments">${items.join('')}</ul>`)
+  }
+  html.push(...parts.map(toHtmlPart))
+  if (results.length > 0) {
+    html.push(`<ul class="results">${results.map(toHtmlResult).join('')}</ul>`)
+  }
+  return `<section class="message ${message.role}">${html.join('\n')}</section>`
+}
+
+/**
+ * 单文件 HTML：样式内联，不依赖外部资源
+ */
+function toHtml(data: ConversationExport): string {
+  const title = escapeHtml(data.conversation.title || '新对话')
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">导出时间：${escapeHtml(formatTime(data.exported_at))} · ${data.messages.length} 条消息</div>
+${data.messages.map(toHtmlMessage).join('\n')}
+</body>
+</html>
+`
+}
+
+const FORMATTERS: Record<ExportFormat, (data: ConversationExport) => string> = {
+  markdown: toMarkdown,
+  html: toHtml,
+  json: (data) => JSON.stringify(data, null, 2)
+}
+
+/**
+ * 按格式生成导出文件的内容
+ */
+export function formatConversationExport(format: ExportFormat, data: ConversationExport): string {
+  return FORMATTERS[format](data)
+}
+
+function getFileName(title: string, format: ExportFormat): string {
+  const name = title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'conversation'
+  return `${name}.${FILE_EXTENSIONS[format]}`
+}
+
+/**
+ * 导出会话并触发浏览器下载
+ */
+export function downloadConversation(
+  format: ExportFormat,
+  conversation: ExportedConversation,
+  messages: Message[]
+): void {
+  const data = createConversationExport(conversation, messages)
+  const blob = new Blob([formatConversationExport(format, data)], { type: MIME_TYPES[format] })
+  saveBlob(blob, getFileName(conversation.title, format))
+}
+
+/**
+ * 解析 JSON 导出文件，内容不符合导出格式时抛出带说明的错误
+ */
+export function parseConversationExport(text: string): ConversationExport {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+
+  let data: ConversationExport
+  try {
+    data = validate(conversationExportSchema, value)
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      throw new Error(`不是有效的会话导出文件（${error.message}）`)
+    }
+    throw error
+  }
+  if (data.version > FORMAT_VERSION) {
+    throw new Error('导出文件的版本较新，请升级后再导入')
+  }
+  return { ...data, messages: data.messages.map(toExportedMessage) }
+}
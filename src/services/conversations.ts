@@ -0,0 +1,198 @@
+import { chatApi } from './chatApi'
+import type { Conversation } from './chatApi'
+import { getErrorMessage } from './errors'
+import { createLogger } from './logger'
+import { profileStore } from './profiles'
+import { tabSync } from './tabSync'
+
+const log = createLogger('conversations')
+
+// 置顶的会话按后端配置保存在 localStorage 中：{ [profileId]: conversationId[] }
+const PINNED_KEY = 'auto-chat:pinned-conversations'
+
+export interface ConversationListSnapshot {
+  conversations: Conversation[]
+  // 置顶的会话 ID，后置顶的排在前面
+  pinned: string[]
+  loading: boolean
+  error: string | null
+}
+
+type ConversationPatch = Partial<Omit<Conversation, 'id'>>
+
+function readPinned(): Record<string, string[]> {
+  try {
+    const raw = localStorage.getItem(PINNED_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, string[]>) : {}
+  } catch {
+    return {}
+  }
+}
+
+function writePinned(profileId: string, pinned: string[]): void {
+  try {
+    localStorage.setItem(PINNED_KEY, JSON.stringify({ ...readPinned(), [profileId]: pinned }))
+  } catch {
+    // localStorage 不可用时仅保存在内存中
+  }
+}
+
+/**
+ * 当前后端配置下的会话列表
+ *
+ * 重命名、删除先更新列表再请求后端，失败时恢复原状并通过 error 提示；
+ * 置顶只保存在本地。切换后端配置后首次 load 时重新读取。
+ * 其他标签页修改了会话列表或会话内容后，重新获取列表。
+ */
+class ConversationStore {
+  private snapshot: ConversationListSnapshot
+  private listeners = new Set<() => void>()
+  private profileId: string
+
+  constructor() {
+    this.profileId = profileStore.getActive().id
+    this.snapshot = {
+      conversations: [],
+      pinned: readPinned()[this.profileId] ?? [],
+      loading: false,
+      error: null
+    }
+    tabSync.subscribe((message) => {
+      if (
+        (message.type === 'conversations-changed' || message.type === 'conversation-changed') &&
+        message.profileId === this.profileId
+      ) {
+        this.sync()
+      }
+    })
+  }
+
+  /**
+   * 先显示本地缓存的列表，再从后端获取最新数据
+   */
+  async load(): Promise<void> {
+    const profileId = profileStore.getActive().id
+    if (profileId !== this.profileId) {
+      this.profileId = profileId
+      this.setSnapshot({ conversations: [], pinned: readPinned()[profileId] ?? [] })
+    }
+    this.setSnapshot({ loading: true, error: null })
+
+    const cached = await chatApi.getCachedConversations()
+    if (cached && profileId === this.profileId && this.snapshot.loading) {
+      this.setSnapshot({ conversations: cached.data })
+    }
+    try {
+      const conversations = await chatApi.listConversations()
+      if (profileId !== this.profileId) return
+      this.setSnapshot({ conversations, loading: false })
+    } catch (error) {
+      if (profileId !== this.profileId) return
+      log.warn('获取会话列表失败', error)
+      this.setSnapshot({ loading: false, error: getErrorMessage(error, '获取会话列表失败') })
+    }
+  }
+
+  /**
+   * 新建的会话插入到列表最前面
+   */
+  add(conversation: Conversation): void {
+    this.setSnapshot({
+      conversations: [
+        conversation,
+        ...this.snapshot.conversations.filter((item) => item.id !== conversation.id)
+      ]
+    })
+    this.notifyTabs()
+  }
+
+  /**
+   * 更新列表中的会话，会话不在列表中时忽略
+   */
+  update(id: string, patch: ConversationPatch | ((item: Conversation) => ConversationPatch)): void {
+    if (!this.snapshot.conversations.some((item) => item.id === id)) return
+    this.setSnapshot({
+      conversations: this.snapshot.conversations.map((item) =>
+        item.id === id ? { ...item, ...(typeof patch === 'function' ? patch(item) : patch) } : item
+      )
+    })
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const current = this.snapshot.conversations.find((item) => item.id === id)
+    if (!current || current.title === title) return
+    this.update(id, { title })
+    try {
+      await chatApi.renameConversation(id, title)
+      this.notifyTabs()
+    } catch (error) {
+      // 期间标题未被再次修改时才恢复
+      this.update(id, (item) => (item.title === title ? { title: current.title } : {}))
+      this.setSnapshot({ error: getErrorMessage(error, '重命名会话失败') })
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    const index = this.snapshot.conversations.findIndex((item) => item.id === id)
+    if (index === -1) return
+    const removed = this.snapshot.conversations[index]
+    this.setSnapshot({
+      conversations: this.snapshot.conversations.filter((item) => item.id !== id)
+    })
+    try {
+      await chatApi.deleteConversation(id)
+      if (this.snapshot.pinned.includes(id)) this.togglePin(id)
+      this.notifyTabs()
+    } catch (error) {
+      const conversations = [...this.snapshot.conversations]
+      conversations.splice(Math.min(index, conversations.length), 0, removed)
+      this.setSnapshot({ conversations, error: getErrorMessage(error, '删除会话失败') })
+    }
+  }
+
+  togglePin(id: string): void {
+    const { pinned } = this.snapshot
+    const next = pinned.includes(id) ? pinned.filter((item) => item !== id) : [id, ...pinned]
+    writePinned(this.profileId, next)
+    this.setSnapshot({ pinned: next })
+    this.notifyTabs()
+  }
+
+  dismissError(): void {
+    this.setSnapshot({ error: null })
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): ConversationListSnapshot => this.snapshot
+
+  private notifyTabs(): void {
+    tabSync.publish({ type: 'conversations-changed', profileId: this.profileId })
+  }
+
+  /**
+   * 其他标签页修改后在后台重新获取，不显示加载状态
+   */
+  private async sync(): Promise<void> {
+    const profileId = this.profileId
+    this.setSnapshot({ pinned: readPinned()[profileId] ?? [] })
+    try {
+      const conversations = await chatApi.listConversations()
+      if (profileId === this.profileId) this.setSnapshot({ conversations })
+    } catch (error) {
+      log.debug('同步会话列表失败', error)
+    }
+  }
+
+  private setSnapshot(patch: Partial<ConversationListSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const conversationStore = new ConversationStore()
@@ -0,0 +1,82 @@
+const DB_NAME = 'auto-chat'
+const DB_VERSION = 3
+
+// 对象存储名称，新增存储时同时提升 DB_VERSION 并在 upgrade 中创建
+export type StoreName = 'outbox' | 'conversations' | 'archives'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains('outbox')) {
+    db.createObjectStore('outbox', { keyPath: 'id' })
+  }
+  if (!db.objectStoreNames.contains('conversations')) {
+    db.createObjectStore('conversations', { keyPath: 'key' })
+  }
+  if (!db.objectStoreNames.contains('archives')) {
+    db.createObjectStore('archives', { keyPath: 'id' })
+  }
+}
+
+/**
+ * 打开应用的 IndexedDB 数据库，浏览器不支持或被禁用（如隐私模式）时 reject
+ *
+ * 升级版本时被其他标签页的旧连接阻塞也会 reject，调用方与不支持时一样退化为仅保存在内存中。
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前环境不支持 IndexedDB'))
+        return
+      }
+      let blocked = false
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => upgrade(request.result)
+      request.onsuccess = () => {
+        const db = request.result
+        // 已按不可用处理，旧版本的标签页关闭后才打开成功，不再使用
+        if (blocked) {
+          db.close()
+          return
+        }
+        // 其他标签页需要升级数据库时关闭连接，之后的操作重新打开
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      // 其他标签页持有旧版本的连接且未关闭（如仍在运行旧版本的页面），按不可用处理，
+      // 否则打开操作会一直等到该标签页关闭
+      request.onblocked = () => {
+        blocked = true
+        reject(new Error('其他标签页正在使用旧版本的数据库'))
+      }
+    }).catch((error) => {
+      // 允许之后重新尝试打开
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * 在单个对象存储上执行操作，等待事务完成后返回 run 的请求结果
+ */
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode)
+    const request = run(transaction.objectStore(name))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
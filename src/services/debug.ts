@@ -0,0 +1,176 @@
+import { addLogSink } from './logger'
+import type { LogEntry } from './logger'
+import type { ApiMiddleware } from './middleware'
+import type { SSEMessage } from './sse'
+
+// 每类记录最多保留的条数
+const MAX_RECORDS = 200
+// 调试开关保存在 localStorage 中，刷新后保持
+const DEBUG_ENABLED_KEY = 'auto-chat:debug'
+
+export interface DebugRequestRecord {
+  id: number
+  time: number
+  operation: string
+  endpoint: string
+  attempt: number
+  requestId?: string
+  status?: number
+  // 到响应头返回为止的耗时（毫秒）
+  duration: number
+  error?: string
+}
+
+export interface DebugStreamEventRecord {
+  id: number
+  time: number
+  endpoint: string
+  event: string
+  eventId: string
+  // data 字段长度（字符）
+  size: number
+}
+
+export interface DebugSnapshot {
+  enabled: boolean
+  requests: DebugRequestRecord[]
+  events: DebugStreamEventRecord[]
+  logs: LogEntry[]
+}
+
+function append<T>(list: T[], item: T): T[] {
+  const next = list.length >= MAX_RECORDS ? list.slice(list.length - MAX_RECORDS + 1) : [...list]
+  next.push(item)
+  return next
+}
+
+/**
+ * 调试记录：最近的请求、SSE 事件与日志，仅在开启调试时记录
+ */
+class DebugStore {
+  private snapshot: DebugSnapshot
+  private listeners = new Set<() => void>()
+  private removeLogSink?: () => void
+  private notifyTimer?: ReturnType<typeof setTimeout>
+  private seq = 0
+
+  constructor() {
+    let enabled = false
+    try {
+      enabled =
+        localStorage.getItem(DEBUG_ENABLED_KEY) === 'true' ||
+        new URLSearchParams(window.location.search).get('debug') === '1'
+    } catch {
+      // 非浏览器环境默认关闭
+    }
+    this.snapshot = { enabled: false, requests: [], events: [], logs: [] }
+    if (enabled) this.setEnabled(true)
+  }
+
+  get enabled(): boolean {
+    return this.snapshot.enabled
+  }
+
+  /**
+   * 开启或关闭记录，关闭时清空已有记录
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.snapshot.enabled) return
+
+    try {
+      localStorage.setItem(DEBUG_ENABLED_KEY, String(enabled))
+    } catch {
+      // 忽略
+    }
+
+    this.removeLogSink?.()
+    this.removeLogSink = enabled
+      ? addLogSink((entry) => this.update({ logs: append(this.snapshot.logs, entry) }))
+      : undefined
+    this.snapshot = { enabled, requests: [], events: [], logs: [] }
+    this.emit()
+  }
+
+  recordRequest(record: Omit<DebugRequestRecord, 'id' | 'time'>): void {
+    if (!this.enabled) return
+    this.update({
+      requests: append(this.snapshot.requests, { ...record, id: ++this.seq, time: Date.now() })
+    })
+  }
+
+  recordStreamEvent(endpoint: string, message: SSEMessage): void {
+    if (!this.enabled) return
+    this.update({
+      events: append(this.snapshot.events, {
+        id: ++this.seq,
+        time: Date.now(),
+        endpoint,
+        event: message.event,
+        eventId: message.id,
+        size: message.data.length
+      })
+    })
+  }
+
+  clear(): void {
+    this.snapshot = { ...this.snapshot, requests: [], events: [], logs: [] }
+    this.emit()
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): DebugSnapshot => this.snapshot
+
+  private update(patch: Partial<DebugSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...patch }
+    // 流式事件密集时合并通知，避免调试面板频繁重渲染
+    if (this.notifyTimer) return
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = undefined
+      this.emit()
+    }, 100)
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const debugStore = new DebugStore()
+
+/**
+ * 将请求的状态码与耗时记录到调试面板
+ */
+export function debugMiddleware(): ApiMiddleware {
+  return {
+    name: 'debug',
+    onRequest: (context) => {
+      context.meta.debugStartTime = performance.now()
+    },
+    onResponse: (response, context) => {
+      debugStore.recordRequest({
+        operation: context.operation,
+        endpoint: context.endpoint,
+        attempt: context.attempt,
+        requestId: context.meta.requestId as string | undefined,
+        status: response.status,
+        duration: performance.now() - (context.meta.debugStartTime as number)
+      })
+    },
+    onError: (error, context) => {
+      debugStore.recordRequest({
+        operation: context.operation,
+        endpoint: context.endpoint,
+        attempt: context.attempt,
+        requestId: context.meta.requestId as string | undefined,
+        duration: performance.now() - (context.meta.debugStartTime as number),
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * 触发浏览器下载
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ApiError,
+  ContractError,
+  HttpError,
+  NetworkError,
+  RequestAbortedError,
+  createHttpError,
+  getErrorMessage,
+  isAbortError,
+  isRetryableError,
+  parseRetryAfter,
+  toApiError
+} from './errors'
+import { SchemaValidationError } from './schema'
+
+describe('parseRetryAfter', () => {
+  it('解析秒数与 HTTP 日期', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z')
+    expect(parseRetryAfter('3', now)).toBe(3000)
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000)
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0)
+  })
+
+  it('无法解析时返回 undefined', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('')).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
+
+describe('createHttpError', () => {
+  const endpoint = 'POST /chat'
+
+  it('读取 JSON 响应的 detail', async () => {
+    const response = new Response(JSON.stringify({ detail: '会话不存在' }), {
+      status: 404,
+      statusText: 'Not Found'
+    })
+    const error = await createHttpError(response, endpoint, '发送失败')
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error.message).toBe('发送失败（404）：会话不存在')
+    expect(error.detail).toBe('会话不存在')
+    expect(error.retryable).toBe(false)
+  })
+
+  it('合并 FastAPI 的校验错误数组', async () => {
+    const body = { detail: [{ msg: 'content 不能为空' }, { msg: 'id 无效' }] }
+    const response = new Response(JSON.stringify(body), { status: 422 })
+    const error = await createHttpError(response, endpoint, '发送失败')
+    expect(error.detail).toBe('content 不能为空; id 无效')
+  })
+
+  it('HTML 错误页按状态码给出提示，并读取 Retry-After', async () => {
+    const response = new Response('<html>Bad Gateway</html>', {
+      status: 503,
+      headers: { 'Retry-After': '2' }
+    })
+    const error = await createHttpError(response, endpoint, '发送失败')
+    expect(error.detail).toBeUndefined()
+    expect(error.message).toBe('发送失败（503）：服务暂时不可用，请稍后重试')
+    expect(error.retryable).toBe(true)
+    expect(error.retryAfter).toBe(2000)
+  })
+})
+
+describe('toApiError', () => {
+  const endpoint = 'GET /conversations'
+
+  it('保留已有的 ApiError', () => {
+    const error = new NetworkError('断开', { endpoint })
+    expect(toApiError(error, endpoint)).toBe(error)
+  })
+
+  it('区分取消与超时', () => {
+    const abort = new DOMException('aborted', 'AbortError')
+    const cancelled = toApiError(abort, endpoint)
+    const timedOut = toApiError(abort, endpoint, { timedOut: true })
+    expect(cancelled).toBeInstanceOf(RequestAbortedError)
+    expect(cancelled.kind).toBe('abort')
+    expect(timedOut.kind).toBe('timeout')
+    expect(timedOut.retryable).toBe(true)
+  })
+
+  it('fetch 的 TypeError 视为网络错误', () => {
+    const error = toApiError(new TypeError('Failed to fetch'), endpoint, { action: '加载失败' })
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.message).toMatch(/^加载失败：/)
+    expect(error.retryable).toBe(true)
+  })
+
+  it('校验失败转换为 ContractError', () => {
+    const cause = new SchemaValidationError('items[0].id', 'string', 'number')
+    const error = toApiError(cause, endpoint)
+    expect(error).toBeInstanceOf(ContractError)
+    expect(error).toMatchObject({ field: 'items[0].id', expected: 'string', received: 'number' })
+  })
+
+  it('JSON 解析失败转换为 parse 错误', () => {
+    expect(toApiError(new SyntaxError('Unexpected token'), endpoint).kind).toBe('parse')
+  })
+})
+
+describe('错误判断', () => {
+  it('isAbortError 识别原生 AbortError 与 abort 类别', () => {
+    expect(isAbortError(new DOMException('aborted', 'AbortError'))).toBe(true)
+    expect(isAbortError(new RequestAbortedError({ endpoint: 'GET /' }))).toBe(true)
+    expect(isAbortError(new RequestAbortedError({ endpoint: 'GET /', timeout: true }))).toBe(false)
+    expect(isAbortError(new Error('失败'))).toBe(false)
+  })
+
+  it('isRetryableError 只接受 retryable 的 ApiError', () => {
+    expect(isRetryableError(new ApiError('失败', { kind: 'http', endpoint: 'GET /' }))).toBe(false)
+    expect(isRetryableError(new NetworkError('断开', { endpoint: 'GET /' }))).toBe(true)
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(false)
+  })
+
+  it('getErrorMessage 在没有信息时使用默认提示', () => {
+    expect(getErrorMessage(new Error('失败'), '默认')).toBe('失败')
+    expect(getErrorMessage('出错了', '默认')).toBe('出错了')
+    expect(getErrorMessage(undefined, '默认')).toBe('默认')
+  })
+})
@@ -0,0 +1,347 @@
+import { SchemaValidationError } from './schema'
+
+/**
+ * 错误类别
+ * - http: 服务端返回非 2xx 状态码
+ * - network: 网络不可达、连接被重置
+ * - abort: 调用方主动取消
+ * - timeout: 请求超时
+ * - stream: 流式响应不可用或中途失败
+ * - parse: 响应体无法解析
+ * - contract: 响应数据与约定的结构不符
+ * - task: 后端异步任务执行失败
+ * - invalid: 请求参数在发送前校验未通过
+ */
+export type ApiErrorKind =
+  'http' | 'network' | 'abort' | 'timeout' | 'stream' | 'parse' | 'contract' | 'task' | 'invalid'
+
+export interface ApiErrorOptions {
+  kind: ApiErrorKind
+  // 请求方法与路径，如 'POST /xml/merge'
+  endpoint: string
+  status?: number
+  // 后端返回的 detail 字段
+  detail?: string
+  retryable?: boolean
+  cause?: unknown
+}
+
+/**
+ * API 调用错误基类
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly endpoint: string
+  readonly status?: number
+  readonly detail?: string
+  readonly retryable: boolean
+  readonly cause?: unknown
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = options.kind
+    this.endpoint = options.endpoint
+    this.status = options.status
+    this.detail = options.detail
+    this.retryable = options.retryable ?? false
+    this.cause = options.cause
+  }
+}
+
+// 可重试的 HTTP 状态码
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504])
+
+/**
+ * 服务端返回非 2xx 状态码
+ */
+export class HttpError extends ApiError {
+  readonly status: number
+  readonly statusText: string
+  // Retry-After 响应头换算后的等待时间（毫秒）
+  readonly retryAfter?: number
+
+  constructor(
+    message: string,
+    options: {
+      endpoint: string
+      status: number
+      statusText: string
+      detail?: string
+      retryAfter?: number
+    }
+  ) {
+    super(message, {
+      kind: 'http',
+      endpoint: options.endpoint,
+      status: options.status,
+      detail: options.detail,
+      retryable: RETRYABLE_STATUS.has(options.status)
+    })
+    this.name = 'HttpError'
+    this.status = options.status
+    this.statusText = options.statusText
+    this.retryAfter = options.retryAfter
+  }
+}
+
+/**
+ * 网络层错误（请求未到达服务端或连接中断）
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, options: { endpoint: string; cause?: unknown }) {
+    super(message, {
+      kind: 'network',
+      endpoint: options.endpoint,
+      retryable: true,
+      cause: options.cause
+    })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * 请求被取消或超时
+ */
+export class RequestAbortedError extends ApiError {
+  constructor(options: { endpoint: string; timeout?: boolean; cause?: unknown }) {
+    super(options.timeout ? '请求超时' : '请求已取消', {
+      kind: options.timeout ? 'timeout' : 'abort',
+      endpoint: options.endpoint,
+      retryable: !!options.timeout,
+      cause: options.cause
+    })
+    this.name = 'RequestAbortedError'
+  }
+}
+
+/**
+ * 流式响应错误
+ */
+export class StreamError extends ApiError {
+  // 服务端或代理不支持该传输方式（如响应被缓冲），可改用其他方式
+  readonly unsupported: boolean
+
+  constructor(
+    message: string,
+    options: { endpoint: string; retryable?: boolean; unsupported?: boolean; cause?: unknown }
+  ) {
+    super(message, {
+      kind: 'stream',
+      endpoint: options.endpoint,
+      retryable: options.retryable,
+      cause: options.cause
+    })
+    this.name = 'StreamError'
+    this.unsupported = options.unsupported ?? false
+  }
+}
+
+/**
+ * 响应数据与前端约定的结构不符（后端字段改名、类型变化等）
+ */
+export class ContractError extends ApiError {
+  // 出错字段的路径，如 'messages[0].content'
+  readonly field: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(options: {
+    endpoint: string
+    field: string
+    expected: string
+    received: string
+    cause?: unknown
+  }) {
+    super(
+      `接口数据不符合约定：${options.endpoint} 的字段 ${options.field || '(响应体)'} ` +
+        `应为 ${options.expected}，实际为 ${options.received}`,
+      { kind: 'contract', endpoint: options.endpoint, cause: options.cause }
+    )
+    this.name = 'ContractError'
+    this.field = options.field
+    this.expected = options.expected
+    this.received = options.received
+  }
+}
+
+/**
+ * 后端异步任务（如构建任务）执行失败
+ */
+export class TaskError extends ApiError {
+  readonly taskId: string
+
+  constructor(message: string, options: { endpoint: string; taskId: string; detail?: string }) {
+    super(message, { kind: 'task', endpoint: options.endpoint, detail: options.detail })
+    this.name = 'TaskError'
+    this.taskId = options.taskId
+  }
+}
+
+/**
+ * 请求参数不合法，未发送到服务端
+ */
+export class InvalidRequestError extends ApiError {
+  constructor(message: string, options: { endpoint: string }) {
+    super(message, { kind: 'invalid', endpoint: options.endpoint })
+    this.name = 'InvalidRequestError'
+  }
+}
+
+/**
+ * 从错误响应体中提取 detail，兼容 FastAPI 的校验错误数组与纯文本响应
+ */
+async function readErrorDetail(response: Response): Promise<string | undefined> {
+  let text: string
+  try {
+    text = await response.text()
+  } catch {
+    return undefined
+  }
+  if (!text) return undefined
+
+  try {
+    const body = JSON.parse(text)
+    const detail = body?.detail ?? body?.error ?? body?.message
+    if (typeof detail === 'string') return detail
+    if (Array.isArray(detail)) {
+      return detail
+        .map((item) => (typeof item === 'string' ? item : item?.msg))
+        .filter(Boolean)
+        .join('; ')
+    }
+    return undefined
+  } catch {
+    // 非 JSON 响应（如网关返回的 HTML）只取简短文本
+    return text.length <= 200 && !text.trimStart().startsWith('<') ? text.trim() : undefined
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/**
+ * 根据状态码生成可操作的提示
+ */
+function describeStatus(status: number): string {
+  if (status === 400 || status === 422) return '请求参数有误'
+  if (status === 401) return '登录已失效，请重新登录'
+  if (status === 403) return '没有权限执行该操作'
+  if (status === 404) return '资源不存在或已被删除'
+  if (status === 408) return '请求超时，请稍后重试'
+  if (status === 409) return '资源状态冲突，请刷新后重试'
+  if (status === 413) return '文件过大'
+  if (status === 429) return '请求过于频繁，请稍后重试'
+  if (status >= 500) return '服务暂时不可用，请稍后重试'
+  return '请求失败'
+}
+
+/**
+ * 根据失败响应创建 HttpError，action 为失败提示前缀（如 '创建会话失败'）
+ */
+export async function createHttpError(
+  response: Response,
+  endpoint: string,
+  action: string
+): Promise<HttpError> {
+  const detail = await readErrorDetail(response)
+  return new HttpError(
+    `${action}（${response.status}）：${detail || describeStatus(response.status)}`,
+    {
+      endpoint,
+      status: response.status,
+      statusText: response.statusText,
+      detail,
+      retryAfter: parseRetryAfter(response.headers.get('retry-after'))
+    }
+  )
+}
+
+/**
+ * 判断是否为取消操作（含原生 AbortError）
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof ApiError) return error.kind === 'abort'
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/**
+ * 将 fetch / 流读取抛出的原生错误转换为 ApiError
+ */
+export function toApiError(
+  error: unknown,
+  endpoint: string,
+  options: { action?: string; timedOut?: boolean } = {}
+): ApiError {
+  if (error instanceof ApiError) return error
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new RequestAbortedError({ endpoint, timeout: options.timedOut, cause: error })
+  }
+
+  // fetch 在网络失败时抛出 TypeError
+  if (error instanceof TypeError) {
+    const reason = '无法连接到服务器，请检查网络或后端服务是否启动'
+    return new NetworkError(options.action ? `${options.action}：${reason}` : reason, {
+      endpoint,
+      cause: error
+    })
+  }
+
+  if (error instanceof SchemaValidationError) {
+    return new ContractError({
+      endpoint,
+      field: error.path,
+      expected: error.expected,
+      received: error.received,
+      cause: error
+    })
+  }
+
+  if (error instanceof SyntaxError) {
+    const reason = '响应数据格式错误'
+    return new ApiError(options.action ? `${options.action}：${reason}` : reason, {
+      kind: 'parse',
+      endpoint,
+      cause: error
+    })
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new ApiError(options.action ? `${options.action}：${message}` : message, {
+    kind: 'network',
+    endpoint,
+    cause: error
+  })
+}
+
+/**
+ * 判断错误是否值得重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiError && error.retryable
+}
+
+/**
+ * 获取面向用户的错误提示
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message) return error.message
+  if (typeof error === 'string' && error) return error
+  return fallback
+}
@@ -0,0 +1,141 @@
+/**
+ * 日志级别，按严重程度递增
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogEntry {
+  id: number
+  time: number
+  level: LogLevel
+  // 模块命名空间，如 'sse'、'build'、'render'
+  namespace: string
+  message: string
+  data: unknown[]
+}
+
+export type LogSink = (entry: LogEntry) => void
+
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void
+  info(message: string, ...data: unknown[]): void
+  warn(message: string, ...data: unknown[]): void
+  error(message: string, ...data: unknown[]): void
+}
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+}
+
+// 控制台输出级别与命名空间过滤，保存在 localStorage 中便于线上排查
+const LOG_LEVEL_KEY = 'auto-chat:log-level'
+const LOG_NAMESPACES_KEY = 'auto-chat:log-namespaces'
+
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+function writeStorage(key: string, value: string | null): void {
+  try {
+    if (value === null) localStorage.removeItem(key)
+    else localStorage.setItem(key, value)
+  } catch {
+    // localStorage 不可用时仅在当前页面生效
+  }
+}
+
+function parseLevel(value: string | null | undefined): LogLevel | 'silent' | undefined {
+  return value && value in LEVEL_ORDER ? (value as LogLevel | 'silent') : undefined
+}
+
+// 生产构建默认静默，开发环境输出全部日志
+let consoleLevel: LogLevel | 'silent' =
+  parseLevel(readStorage(LOG_LEVEL_KEY)) ??
+  parseLevel(import.meta.env.VITE_LOG_LEVEL) ??
+  (import.meta.env.PROD ? 'silent' : 'debug')
+
+let namespaceFilter = parseNamespaces(readStorage(LOG_NAMESPACES_KEY))
+
+/**
+ * 解析命名空间过滤，如 'sse,build'；'*' 或空表示全部
+ */
+function parseNamespaces(value: string | null): Set<string> | null {
+  if (!value || value.trim() === '*') return null
+  return new Set(
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+  )
+}
+
+const sinks = new Set<LogSink>()
+let entryId = 0
+
+/**
+ * 设置控制台输出级别，persist 为 true 时刷新后保持
+ */
+export function setLogLevel(level: LogLevel | 'silent', persist = false): void {
+  consoleLevel = level
+  if (persist) writeStorage(LOG_LEVEL_KEY, level)
+}
+
+export function getLogLevel(): LogLevel | 'silent' {
+  return consoleLevel
+}
+
+/**
+ * 只输出指定命名空间的日志，传入 null 取消过滤
+ */
+export function setLogNamespaces(namespaces: string[] | null, persist = false): void {
+  const value = namespaces ? namespaces.join(',') : null
+  namespaceFilter = parseNamespaces(value)
+  if (persist) writeStorage(LOG_NAMESPACES_KEY, value)
+}
+
+/**
+ * 订阅所有日志（不受控制台级别影响），返回取消订阅函数
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink)
+  return () => {
+    sinks.delete(sink)
+  }
+}
+
+function emit(level: LogLevel, namespace: string, message: string, data: unknown[]): void {
+  const shouldPrint =
+    LEVEL_ORDER[level] >= LEVEL_ORDER[consoleLevel] &&
+    (!namespaceFilter || namespaceFilter.has(namespace))
+
+  if (!shouldPrint && sinks.size === 0) return
+
+  if (shouldPrint) {
+    console[level](`[${namespace}] ${message}`, ...data)
+  }
+
+  if (sinks.size > 0) {
+    entryId += 1
+    const entry: LogEntry = { id: entryId, time: Date.now(), level, namespace, message, data }
+    sinks.forEach((sink) => sink(entry))
+  }
+}
+
+/**
+ * 创建带命名空间的日志器
+ */
+export function createLogger(namespace: string): Logger {
+  return {
+    debug: (message, ...data) => emit('debug', namespace, message, data),
+    info: (message, ...data) => emit('info', namespace, message, data),
+    warn: (message, ...data) => emit('warn', namespace, message, data),
+    error: (message, ...data) => emit('error', namespace, message, data)
+  }
+}
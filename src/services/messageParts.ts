@@ -0,0 +1,157 @@
+import type {
+  ContentPart,
+  Message,
+  MessagePart,
+  XmlArtifactPart,
+  XmlArtifactState,
+  XmlArtifactType
+} from '@/types/chat'
+
+// 流式接收中尚未结束的代码块
+const OPEN_CODE_BLOCK_PATTERN = /```(\w*)\n([\s\S]*)$/
+
+/**
+ * 根据标签识别 XML 类型，无法识别时返回 null
+ */
+export function detectXmlArtifactType(xml: string): XmlArtifactType | null {
+  // 移除代码块标记
+  const cleaned = xml
+    .replace(/```xml\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim()
+
+  // 检测 entity 标签 -> orm（放宽条件，只要检测到 entity 标签即可）
+  if (/<entity\b/.test(cleaned)) return 'orm'
+
+  // 检测 setting 标签 -> config
+  if (/<setting\b/.test(cleaned)) return 'config'
+
+  // 检测 endpoint 标签 -> api
+  if (/<endpoint\b/.test(cleaned)) return 'api'
+
+  return null
+}
+
+export function isContentPart(part: MessagePart): part is ContentPart {
+  return part.type === 'text' || part.type === 'code' || part.type === 'xml'
+}
+
+export function isXmlArtifactPart(part: MessagePart): part is XmlArtifactPart {
+  return part.type === 'xml'
+}
+
+interface ParseOptions {
+  // 片段在 content 中的起始偏移
+  offset: number
+  // 是否识别可构建的 XML（只用于助手回复）
+  artifacts: boolean
+}
+
+function toCodePart(
+  id: string,
+  start: number,
+  lang: string,
+  code: string,
+  complete: boolean,
+  artifacts: boolean
+): ContentPart {
+  const isXml = lang === 'xml' || (!lang && code.includes('<'))
+  const xmlType = artifacts && isXml ? detectXmlArtifactType(code) : null
+  if (xmlType) {
+    return { id, type: 'xml', start, xmlType, xml: code, complete }
+  }
+  return { id, type: 'code', start, lang: lang || (isXml ? 'xml' : ''), code, complete }
+}
+
+/**
+ * 将一段 content 解析为文本与代码片段
+ *
+ * 片段 id 由其在 content 中的起始偏移生成，流式接收与重新解析历史消息得到的 id 相同。
+ */
+function parseContent(source: string, { offset, artifacts }: ParseOptions): ContentPart[] {
+  const parts: ContentPart[] = []
+  const toId = (start: number) => `p${start}`
+  const pushText = (from: number, to: number) => {
+    if (to > from) {
+      const start = offset + from
+      parts.push({ id: toId(start), type: 'text', start, text: source.slice(from, to) })
+    }
+  }
+
+  const codeBlockRegex = /```(\w*)\n([\s\S]*?)```/g
+  let lastIndex = 0
+  let match
+
+  while ((match = codeBlockRegex.exec(source)) !== null) {
+    pushText(lastIndex, match.index)
+    const start = offset + match.index
+    parts.push(toCodePart(toId(start), start, match[1], match[2], true, artifacts))
+    lastIndex = match.index + match[0].length
+  }
+
+  const rest = source.slice(lastIndex)
+  const open = OPEN_CODE_BLOCK_PATTERN.exec(rest)
+  if (open) {
+    pushText(lastIndex, lastIndex + open.index)
+    const start = offset + lastIndex + open.index
+    parts.push(toCodePart(toId(start), start, open[1], open[2], false, artifacts))
+  } else {
+    pushText(lastIndex, source.length)
+  }
+  return parts
+}
+
+/**
+ * 解析完整的消息内容（历史消息、用户消息）
+ */
+export function createMessageParts(content: string, artifacts = false): MessagePart[] {
+  return parseContent(content, { offset: 0, artifacts })
+}
+
+/**
+ * 流式追加内容：只重新解析最后一个内容片段，之前的片段保持不变
+ *
+ * 最后一个片段不是内容片段（如工具调用）时，追加的内容从新片段开始。
+ */
+export function appendContentParts(
+  parts: MessagePart[],
+  content: string,
+  chunk: string,
+  artifacts = false
+): MessagePart[] {
+  const last = parts[parts.length - 1]
+  const reparse = last !== undefined && isContentPart(last)
+  const head = reparse ? parts.slice(0, -1) : parts
+  const offset = reparse ? last.start : content.length
+  const source = (content + chunk).slice(offset)
+  return [...head, ...parseContent(source, { offset, artifacts })]
+}
+
+/**
+ * 设置 XML 片段的处理进度
+ */
+export function setXmlArtifactState(
+  parts: MessagePart[],
+  partId: string,
+  state: XmlArtifactState
+): MessagePart[] {
+  return parts.map((part) =>
+    part.type === 'xml' && part.id === partId ? { ...part, state } : part
+  )
+}
+
+/**
+ * 按 id 替换片段，不存在时追加到末尾
+ */
+export function upsertMessagePart(parts: MessagePart[], part: MessagePart): MessagePart[] {
+  const index = parts.findIndex((item) => item.id === part.id)
+  if (index === -1) return [...parts, part]
+  return parts.map((item, i) => (i === index ? part : item))
+}
+
+/**
+ * 消息的片段，旧数据未保存片段时按 content 解析
+ */
+export function getMessageParts(message: Message): MessagePart[] {
+  return message.parts ?? createMessageParts(message.content, message.role === 'assistant')
+}
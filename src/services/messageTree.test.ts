@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '@/types/chat'
+import { linkMessages, removeMessage, renameMessage, resolveThread } from './messageTree'
+
+function message(id: string, parentId?: string | null): Message {
+  return {
+    id,
+    parentId,
+    role: id.startsWith('u') ? 'user' : 'assistant',
+    content: id,
+    timestamp: 0
+  }
+}
+
+const ids = (messages: Message[]) => messages.map((msg) => msg.id)
+
+// u1 → a1 → u2 → a2
+//         ↘ u3 → a3（编辑 u2 后的分支）
+const tree = [
+  message('u1', null),
+  message('a1', 'u1'),
+  message('u2', 'a1'),
+  message('a2', 'u2'),
+  message('u3', 'a1'),
+  message('a3', 'u3')
+]
+
+describe('linkMessages', () => {
+  it('没有 parentId 的消息接在前一条消息之后', () => {
+    const linked = linkMessages([message('u1'), message('a1'), message('u2', 'u1')])
+    expect(linked.map((msg) => msg.parentId)).toEqual([null, 'u1', 'u1'])
+  })
+})
+
+describe('resolveThread', () => {
+  it('默认显示最新的分支', () => {
+    const { messages, branches } = resolveThread(tree)
+    expect(ids(messages)).toEqual(['u1', 'a1', 'u3', 'a3'])
+    expect(branches.get('u3')).toEqual({ siblingIds: ['u2', 'u3'], index: 1 })
+    expect(branches.size).toBe(1)
+  })
+
+  it('从 leafId 向上定位分支，并沿最新的子消息延伸', () => {
+    expect(ids(resolveThread(tree, 'u2').messages)).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(resolveThread(tree, 'u2').branches.get('u2')?.index).toBe(0)
+    expect(ids(resolveThread(tree, 'a1').messages)).toEqual(['u1', 'a1', 'u3', 'a3'])
+  })
+
+  it('找不到 leafId 时显示最新的分支', () => {
+    expect(ids(resolveThread(tree, 'missing').messages)).toEqual(['u1', 'a1', 'u3', 'a3'])
+  })
+
+  it('父消息不存在时视为第一条消息', () => {
+    const { messages } = resolveThread([message('a1', 'gone'), message('u2', 'a1')])
+    expect(ids(messages)).toEqual(['a1', 'u2'])
+  })
+
+  it('不支持分支的历史消息是一条无分支的消息链', () => {
+    const { messages, branches } = resolveThread([message('u1'), message('a1'), message('u2')])
+    expect(ids(messages)).toEqual(['u1', 'a1', 'u2'])
+    expect(branches.size).toBe(0)
+  })
+
+  it('parentId 成环时不会死循环', () => {
+    const { messages } = resolveThread([message('u1', 'a1'), message('a1', 'u1')], 'a1')
+    expect(ids(messages)).toEqual(['u1', 'a1'])
+  })
+})
+
+describe('renameMessage', () => {
+  it('同时更新子消息的 parentId', () => {
+    const renamed = renameMessage(tree, 'a1', 'assistant-1')
+    expect(renamed[1].id).toBe('assistant-1')
+    expect(renamed.filter((msg) => msg.parentId === 'assistant-1').map((msg) => msg.id)).toEqual([
+      'u2',
+      'u3'
+    ])
+  })
+})
+
+describe('removeMessage', () => {
+  it('子消息改为接在被移除消息的上一条消息之后', () => {
+    const removed = removeMessage(tree, 'u3')
+    expect(ids(removed)).not.toContain('u3')
+    expect(removed.find((msg) => msg.id === 'a3')?.parentId).toBe('a1')
+  })
+
+  it('消息不存在时原样返回', () => {
+    expect(removeMessage(tree, 'missing')).toBe(tree)
+  })
+})
@@ -0,0 +1,100 @@
+import type { Message } from '@/types/chat'
+
+/**
+ * 分支点上的同级消息，index 为当前显示的分支
+ */
+export interface MessageBranch {
+  siblingIds: string[]
+  index: number
+}
+
+export interface MessageThread {
+  // 从第一条消息到当前叶子的消息链
+  messages: Message[]
+  // 有多个分支的消息 ID 到其同级消息的映射
+  branches: Map<string, MessageBranch>
+}
+
+/**
+ * 补全未提供 parentId 的消息，视为接在数组中前一条消息之后
+ *
+ * 不支持分支的后端返回的历史消息没有 parent_id，补全后是一条无分支的消息链。
+ */
+export function linkMessages(messages: Message[]): Message[] {
+  return messages.map((msg, index) =>
+    msg.parentId === undefined ? { ...msg, parentId: messages[index - 1]?.id ?? null } : msg
+  )
+}
+
+/**
+ * 解析以 leafId 结尾的消息链
+ *
+ * 从叶子向上找到第一条消息，再沿最新的子消息向下延伸到末尾；
+ * 未指定或找不到 leafId 时显示最新的分支。
+ */
+export function resolveThread(messages: Message[], leafId?: string): MessageThread {
+  const linked = linkMessages(messages)
+  const byId = new Map(linked.map((msg) => [msg.id, msg]))
+  // 父消息不存在时视为第一条消息
+  const parentOf = (msg: Message) => (msg.parentId && byId.has(msg.parentId) ? msg.parentId : null)
+
+  const children = new Map<string | null, Message[]>()
+  for (const msg of linked) {
+    const parentId = parentOf(msg)
+    children.set(parentId, [...(children.get(parentId) ?? []), msg])
+  }
+
+  const path: Message[] = []
+  const visited = new Set<string>()
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.unshift(current)
+    const parentId = parentOf(current)
+    current = parentId ? byId.get(parentId) : undefined
+  }
+
+  // 同级消息按数组顺序排列，最后一个为最新的分支
+  let next = children.get(path.length > 0 ? path[path.length - 1].id : null)
+  while (next && next.length > 0) {
+    const child = next[next.length - 1]
+    if (visited.has(child.id)) break
+    visited.add(child.id)
+    path.push(child)
+    next = children.get(child.id)
+  }
+
+  const branches = new Map<string, MessageBranch>()
+  for (const msg of path) {
+    const siblings = children.get(parentOf(msg)) ?? []
+    if (siblings.length < 2) continue
+    branches.set(msg.id, {
+      siblingIds: siblings.map((item) => item.id),
+      index: siblings.indexOf(msg)
+    })
+  }
+
+  return { messages: path, branches }
+}
+
+/**
+ * 替换消息 ID（例如服务端确认后的正式 ID），同时更新子消息的 parentId
+ */
+export function renameMessage(messages: Message[], from: string, to: string): Message[] {
+  return messages.map((msg) => {
+    if (msg.id === from) return { ...msg, id: to }
+    if (msg.parentId === from) return { ...msg, parentId: to }
+    return msg
+  })
+}
+
+/**
+ * 移除消息，其子消息改为接在它的上一条消息之后
+ */
+export function removeMessage(messages: Message[], id: string): Message[] {
+  const removed = messages.find((msg) => msg.id === id)
+  if (!removed) return messages
+  return messages
+    .filter((msg) => msg.id !== id)
+    .map((msg) => (msg.parentId === id ? { ...msg, parentId: removed.parentId } : msg))
+}
@@ -0,0 +1,149 @@
+/**
+ * 单次请求的上下文，中间件可修改 url、headers 与 init
+ */
+export interface ApiRequestContext {
+  // ChatApiClient 方法名，如 'createConversation'
+  operation: string
+  // 请求方法与路径，如 'POST /conversations/'
+  endpoint: string
+  url: string
+  headers: Headers
+  init: Omit<RequestInit, 'headers'>
+  // 第几次重试，首次请求为 0
+  attempt: number
+  // 中间件之间共享的数据（如请求 ID、开始时间）
+  meta: Record<string, unknown>
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * 请求中间件
+ *
+ * onRequest 按注册顺序执行，onResponse / onError 按相反顺序执行。
+ * onError 返回 Response 时视为已恢复，继续走 onResponse。
+ */
+export interface ApiMiddleware {
+  name?: string
+  onRequest?: (context: ApiRequestContext) => MaybePromise<ApiRequestContext | void>
+  onResponse?: (response: Response, context: ApiRequestContext) => MaybePromise<Response | void>
+  onError?: (error: unknown, context: ApiRequestContext) => MaybePromise<Response | void>
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+/**
+ * 依次执行中间件并发送请求
+ */
+export async function runMiddleware(
+  middleware: readonly ApiMiddleware[],
+  context: ApiRequestContext,
+  fetchImpl: FetchLike
+): Promise<Response> {
+  let ctx = context
+  for (const item of middleware) {
+    if (item.onRequest) {
+      ctx = (await item.onRequest(ctx)) ?? ctx
+    }
+  }
+
+  const reversed = [...middleware].reverse()
+
+  let response: Response | undefined
+  try {
+    response = await fetchImpl(ctx.url, { ...ctx.init, headers: ctx.headers })
+  } catch (error) {
+    for (const item of reversed) {
+      if (!item.onError) continue
+      response = (await item.onError(error, ctx)) ?? undefined
+      if (response) break
+    }
+    if (!response) throw error
+  }
+
+  for (const item of reversed) {
+    if (item.onResponse) {
+      response = (await item.onResponse(response, ctx)) ?? response
+    }
+  }
+
+  return response
+}
+
+/**
+ * 为每个请求附加固定或动态的请求头（如 tenant id）
+ */
+export function headersMiddleware(
+  headers: Record<string, string> | (() => Record<string, string>)
+): ApiMiddleware {
+  return {
+    name: 'headers',
+    onRequest: (context) => {
+      const values = typeof headers === 'function' ? headers() : headers
+      for (const [key, value] of Object.entries(values)) {
+        context.headers.set(key, value)
+      }
+    }
+  }
+}
+
+/**
+ * 生成请求 ID 并写入请求头，便于前后端日志关联
+ */
+export function requestIdMiddleware(headerName: string = 'X-Request-ID'): ApiMiddleware {
+  return {
+    name: 'request-id',
+    onRequest: (context) => {
+      if (!context.headers.has(headerName)) {
+        context.headers.set(headerName, createRequestId())
+      }
+      context.meta.requestId = context.headers.get(headerName)
+    }
+  }
+}
+
+export interface RequestTiming {
+  operation: string
+  endpoint: string
+  status?: number
+  duration: number
+  error?: unknown
+}
+
+/**
+ * 统计请求耗时（到响应头返回为止，不含流式读取）
+ */
+export function timingMiddleware(onTiming: (timing: RequestTiming) => void): ApiMiddleware {
+  return {
+    name: 'timing',
+    onRequest: (context) => {
+      context.meta.startTime = performance.now()
+    },
+    onResponse: (response, context) => {
+      onTiming({
+        operation: context.operation,
+        endpoint: context.endpoint,
+        status: response.status,
+        duration: performance.now() - (context.meta.startTime as number)
+      })
+    },
+    onError: (error, context) => {
+      onTiming({
+        operation: context.operation,
+        endpoint: context.endpoint,
+        duration: performance.now() - (context.meta.startTime as number),
+        error
+      })
+    }
+  }
+}
+
+/**
+ * 生成随机 ID
+ */
+export function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
@@ -0,0 +1,231 @@
+import type { MessageDeliveryStatus } from '@/types/chat'
+import { withStore } from './db'
+import { createLogger } from './logger'
+import { TAB_ID, tabSync } from './tabSync'
+
+const log = createLogger('outbox')
+
+// 认领后超过该时间（毫秒）仍为 sending，视为发送的标签页已异常退出，可由其他标签页重新认领；
+// 正常关闭或刷新页面时认领在 pagehide 中释放
+const CLAIM_TIMEOUT = 5 * 60 * 1000
+
+export interface OutboxAttachment {
+  id: string
+  name: string
+  size: number
+  type: string
+  // 已上传的附件只保留 file_id
+  fileId?: string
+  blob?: Blob
+}
+
+export interface OutboxItem {
+  // 与界面上用户消息的 ID 相同
+  id: string
+  // 所属的后端配置，只在该配置下发送
+  profileId: string
+  conversationId: string
+  content: string
+  // 分支点，undefined 时接在会话末尾
+  parentId?: string | null
+  enableThinking: boolean
+  attachments: OutboxAttachment[]
+  status: MessageDeliveryStatus
+  error?: string
+  attempts: number
+  createdAt: number
+  // 正在发送的标签页与认领时间，见 Outbox.claim
+  owner?: string
+  claimedAt?: number
+}
+
+// 是否有标签页（包括当前标签页）正在发送
+function isClaimed(item: OutboxItem, now: number = Date.now()): boolean {
+  return item.status === 'sending' && now - (item.claimedAt ?? 0) < CLAIM_TIMEOUT
+}
+
+/**
+ * 离线消息队列，保存在 IndexedDB 中，刷新页面后仍然保留
+ *
+ * 同一浏览器的多个标签页共用队列，发送前通过 claim 认领，保证每条消息只由一个标签页发送；
+ * 队列变化后广播 outbox-changed，其他标签页重新读取。IndexedDB 不可用时退化为仅保存在内存中。
+ */
+class Outbox {
+  private items: OutboxItem[] = []
+  private listeners = new Set<() => void>()
+  private loading: Promise<void>
+  // 每次修改快照时递增，用于丢弃读取期间已过期的同步结果
+  private version = 0
+
+  constructor() {
+    this.loading = this.load()
+    tabSync.subscribe((message) => {
+      if (message.type === 'outbox-changed') this.loading = this.loading.then(() => this.sync())
+    })
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.releaseClaims())
+    }
+  }
+
+  /**
+   * 等待从 IndexedDB 读取完成，包括其他标签页修改后的重新读取
+   */
+  ready(): Promise<void> {
+    return this.loading
+  }
+
+  get(id: string): OutboxItem | undefined {
+    return this.items.find((item) => item.id === id)
+  }
+
+  async add(item: OutboxItem): Promise<void> {
+    await this.loading
+    this.setItems([...this.items.filter((existing) => existing.id !== item.id), item])
+    await this.persist(item)
+  }
+
+  async update(
+    id: string,
+    patch: Partial<Omit<OutboxItem, 'id'>>
+  ): Promise<OutboxItem | undefined> {
+    await this.loading
+    const current = this.get(id)
+    if (!current) return undefined
+    const next = { ...current, ...patch }
+    this.setItems(this.items.map((item) => (item.id === id ? next : item)))
+    await this.persist(next)
+    return next
+  }
+
+  /**
+   * 认领排队的消息准备发送，返回 IndexedDB 中的最新内容并标记为 sending；
+   * 消息已被其他标签页发送（删除）或正在发送时返回 undefined
+   *
+   * 读取与写入在同一个 readwrite 事务中完成，多个标签页同时认领时只有一个成功，
+   * 内存中的快照可能已过期，不作为判断依据。
+   */
+  async claim(id: string): Promise<OutboxItem | undefined> {
+    await this.loading
+    let stored: OutboxItem | undefined
+    let claimed: OutboxItem | undefined
+    const claim = (item: OutboxItem): OutboxItem => ({
+      ...item,
+      status: 'sending',
+      error: undefined,
+      owner: TAB_ID,
+      claimedAt: Date.now()
+    })
+
+    try {
+      await withStore('outbox', 'readwrite', (store) => {
+        const request = store.get(id)
+        request.onsuccess = () => {
+          stored = request.result
+          if (!stored || isClaimed(stored)) return
+          claimed = claim(stored)
+          store.put(claimed)
+        }
+      })
+      if (claimed) this.notifyTabs(claimed)
+    } catch (error) {
+      // IndexedDB 不可用时队列只在当前标签页中，按内存中的状态认领
+      log.warn('认领离线消息失败，按内存中的状态处理', error)
+      stored = this.get(id)
+      claimed = stored && !isClaimed(stored) ? claim(stored) : undefined
+    }
+
+    // 以读取到的最新内容更新快照
+    const latest = claimed ?? stored
+    this.setItems([...this.items.filter((item) => item.id !== id), ...(latest ? [latest] : [])])
+    if (!claimed) log.info('消息已被其他标签页发送或正在发送', id)
+    return claimed
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.loading
+    const current = this.get(id)
+    if (!current) return
+    this.setItems(this.items.filter((item) => item.id !== id))
+    try {
+      await withStore('outbox', 'readwrite', (store) => store.delete(id))
+      this.notifyTabs(current)
+    } catch (error) {
+      log.warn('删除离线消息失败', error)
+    }
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): OutboxItem[] => this.items
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await withStore<OutboxItem[]>('outbox', 'readonly', (store) => store.getAll())
+      // 其他标签页可能正在发送；认领已超时的视为上次关闭页面时未发送完成
+      const items = (stored ?? []).map((item) =>
+        item.status === 'sending' && !isClaimed(item)
+          ? { ...item, status: 'failed' as const }
+          : item
+      )
+      this.setItems([...items, ...this.items])
+    } catch (error) {
+      log.warn('读取离线消息失败，仅保存在内存中', error)
+    }
+  }
+
+  private async persist(item: OutboxItem): Promise<void> {
+    try {
+      await withStore('outbox', 'readwrite', (store) => store.put(item))
+      this.notifyTabs(item)
+    } catch (error) {
+      log.warn('保存离线消息失败，仅保存在内存中', error)
+    }
+  }
+
+  /**
+   * 关闭或刷新页面时，当前标签页认领但未送达的消息恢复为等待发送，刷新后（或其他标签页）可立即重新发送
+   */
+  private releaseClaims(): void {
+    this.items
+      .filter((item) => item.status === 'sending' && item.owner === TAB_ID)
+      .forEach((item) => {
+        this.persist({ ...item, status: 'pending', owner: undefined, claimedAt: undefined })
+      })
+  }
+
+  private notifyTabs(item: OutboxItem): void {
+    tabSync.publish({
+      type: 'outbox-changed',
+      profileId: item.profileId,
+      conversationId: item.conversationId
+    })
+  }
+
+  /**
+   * 其他标签页修改队列后重新读取，sending 的消息由认领的标签页负责，不再标记为失败
+   */
+  private async sync(): Promise<void> {
+    const version = this.version
+    try {
+      const stored = await withStore<OutboxItem[]>('outbox', 'readonly', (store) => store.getAll())
+      // 读取期间当前标签页修改了队列，重新读取以包含本次修改
+      if (version !== this.version) return this.sync()
+      this.setItems(stored ?? [])
+    } catch (error) {
+      log.debug('同步离线消息失败', error)
+    }
+  }
+
+  private setItems(items: OutboxItem[]): void {
+    this.items = [...items].sort((a, b) => a.createdAt - b.createdAt)
+    this.version++
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const outbox = new Outbox()
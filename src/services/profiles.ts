@@ -0,0 +1,149 @@
+/**
+ * 后端配置：可在运行时切换请求的后端地址
+ */
+export interface BackendProfile {
+  id: string
+  name: string
+  // 不带末尾斜杠，如 http://localhost:8000
+  baseUrl: string
+}
+
+export interface ProfilesSnapshot {
+  profiles: BackendProfile[]
+  activeId: string
+}
+
+// 由 VITE_API_BASE_URL 生成的内置配置，不能删除
+export const DEFAULT_PROFILE_ID = 'default'
+
+// 自定义配置与当前选择保存在 localStorage 中
+const PROFILES_KEY = 'auto-chat:backend-profiles'
+const ACTIVE_PROFILE_KEY = 'auto-chat:backend-profile'
+
+/**
+ * 规范化后端地址，格式不正确时抛出
+ */
+export function normalizeBaseUrl(value: string): string {
+  const trimmed = value.trim().replace(/\/+$/, '')
+  let url: URL
+  try {
+    url = new URL(trimmed)
+  } catch {
+    throw new Error(`后端地址格式不正确：${value}`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`后端地址只支持 http 或 https：${value}`)
+  }
+  return trimmed
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+function writeStorage(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value)
+  } catch {
+    // localStorage 不可用时仅保存在内存中
+  }
+}
+
+class ProfileStore {
+  private snapshot: ProfilesSnapshot
+  private listeners = new Set<() => void>()
+  private seq = 0
+
+  constructor(private readonly defaultProfile: BackendProfile) {
+    const saved = readJson<BackendProfile[]>(PROFILES_KEY) ?? []
+    const profiles = [defaultProfile, ...saved.filter((item) => item.id !== DEFAULT_PROFILE_ID)]
+    const savedActiveId = readJson<string>(ACTIVE_PROFILE_KEY)
+    this.snapshot = {
+      profiles,
+      activeId: profiles.some((item) => item.id === savedActiveId)
+        ? (savedActiveId as string)
+        : DEFAULT_PROFILE_ID
+    }
+  }
+
+  getActive(): BackendProfile {
+    const { profiles, activeId } = this.snapshot
+    return profiles.find((item) => item.id === activeId) ?? this.defaultProfile
+  }
+
+  select(id: string): void {
+    if (id === this.snapshot.activeId) return
+    if (!this.snapshot.profiles.some((item) => item.id === id)) {
+      throw new Error(`后端配置不存在：${id}`)
+    }
+    this.update({ ...this.snapshot, activeId: id })
+  }
+
+  /**
+   * 新增或修改配置，返回保存后的配置
+   */
+  save(profile: Omit<BackendProfile, 'id'> & { id?: string }): BackendProfile {
+    if (profile.id === DEFAULT_PROFILE_ID) {
+      throw new Error('默认配置来自环境变量，不能修改')
+    }
+    const name = profile.name.trim()
+    if (!name) throw new Error('请填写配置名称')
+
+    const saved: BackendProfile = {
+      id: profile.id ?? `profile-${Date.now().toString(36)}-${++this.seq}`,
+      name,
+      baseUrl: normalizeBaseUrl(profile.baseUrl)
+    }
+    const exists = this.snapshot.profiles.some((item) => item.id === saved.id)
+    this.update({
+      ...this.snapshot,
+      profiles: exists
+        ? this.snapshot.profiles.map((item) => (item.id === saved.id ? saved : item))
+        : [...this.snapshot.profiles, saved]
+    })
+    return saved
+  }
+
+  /**
+   * 删除配置，删除当前配置时切回默认配置
+   */
+  remove(id: string): void {
+    if (id === DEFAULT_PROFILE_ID) return
+    const { profiles, activeId } = this.snapshot
+    this.update({
+      profiles: profiles.filter((item) => item.id !== id),
+      activeId: activeId === id ? DEFAULT_PROFILE_ID : activeId
+    })
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): ProfilesSnapshot => this.snapshot
+
+  private update(snapshot: ProfilesSnapshot): void {
+    this.snapshot = snapshot
+    writeStorage(
+      PROFILES_KEY,
+      JSON.stringify(snapshot.profiles.filter((item) => item.id !== DEFAULT_PROFILE_ID))
+    )
+    writeStorage(ACTIVE_PROFILE_KEY, JSON.stringify(snapshot.activeId))
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// 应用共享的后端配置
+export const profileStore = new ProfileStore({
+  id: DEFAULT_PROFILE_ID,
+  name: '默认',
+  baseUrl: (import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000').replace(/\/+$/, '')
+})
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { HttpError, NetworkError } from './errors'
+import { computeBackoff, sleep, withRetry } from './retry'
+import type { RetryPolicy } from './retry'
+
+const policy: RetryPolicy = {
+  retries: 3,
+  baseDelay: 100,
+  maxDelay: 1000,
+  factor: 2,
+  jitter: false
+}
+
+const networkError = () => new NetworkError('断开', { endpoint: 'GET /' })
+
+describe('computeBackoff', () => {
+  it('按倍数递增并受 maxDelay 限制', () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => computeBackoff(attempt, policy))).toEqual([
+      100, 200, 400, 800, 1000
+    ])
+  })
+
+  it('抖动后在 [delay / 2, delay] 之间', () => {
+    const jittered = { ...policy, jitter: true }
+    expect(computeBackoff(3, jittered, () => 0)).toBe(200)
+    expect(computeBackoff(3, jittered, () => 1)).toBe(400)
+  })
+})
+
+describe('sleep', () => {
+  it('中止时以 AbortError 结束', async () => {
+    const controller = new AbortController()
+    const promise = sleep(10000, controller.signal)
+    controller.abort()
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('已中止时立即结束', async () => {
+    await expect(sleep(10000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('可重试的错误按退避间隔重试直到成功', async () => {
+    const onRetry = vi.fn()
+    const fn = vi
+      .fn<[number], Promise<string>>()
+      .mockRejectedValueOnce(networkError())
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValue('ok')
+
+    const promise = withRetry(fn, policy, { onRetry })
+    await vi.runAllTimersAsync()
+
+    await expect(promise).resolves.toBe('ok')
+    expect(fn.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2])
+    expect(onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])).toEqual([
+      [1, 100],
+      [2, 200]
+    ])
+  })
+
+  it('超过重试次数后抛出最后的错误', async () => {
+    const fn = vi.fn().mockRejectedValue(networkError())
+    const promise = withRetry(fn, policy)
+    const assertion = expect(promise).rejects.toBeInstanceOf(NetworkError)
+    await vi.runAllTimersAsync()
+    await assertion
+    expect(fn).toHaveBeenCalledTimes(4)
+  })
+
+  it('不可重试的错误直接抛出', async () => {
+    const error = new HttpError('请求参数有误', {
+      endpoint: 'POST /chat',
+      status: 422,
+      statusText: 'Unprocessable Entity'
+    })
+    const fn = vi.fn().mockRejectedValue(error)
+    await expect(withRetry(fn, policy)).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('优先使用 Retry-After，超过 maxDelay 时放弃重试', async () => {
+    const tooLong = new HttpError('请求过于频繁', {
+      endpoint: 'POST /chat',
+      status: 429,
+      statusText: 'Too Many Requests',
+      retryAfter: 5000
+    })
+    const fn = vi.fn().mockRejectedValue(tooLong)
+    await expect(withRetry(fn, policy)).rejects.toBe(tooLong)
+    expect(fn).toHaveBeenCalledTimes(1)
+
+    const onRetry = vi.fn()
+    const retryLater = new HttpError('请求过于频繁', {
+      endpoint: 'POST /chat',
+      status: 429,
+      statusText: 'Too Many Requests',
+      retryAfter: 700
+    })
+    const promise = withRetry(
+      vi.fn().mockRejectedValueOnce(retryLater).mockResolvedValue('ok'),
+      policy,
+      { onRetry }
+    )
+    await vi.runAllTimersAsync()
+    await expect(promise).resolves.toBe('ok')
+    expect(onRetry).toHaveBeenCalledWith(retryLater, 1, 700)
+  })
+
+  it('等待期间中止时不再重试', async () => {
+    const controller = new AbortController()
+    const fn = vi.fn().mockRejectedValue(networkError())
+    const promise = withRetry(fn, policy, { signal: controller.signal })
+    const assertion = expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    await vi.advanceTimersByTimeAsync(50)
+    controller.abort()
+    await assertion
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+})
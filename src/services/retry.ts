@@ -0,0 +1,97 @@
+import { HttpError, isAbortError, isRetryableError } from './errors'
+
+/**
+ * 重试策略
+ */
+export interface RetryPolicy {
+  // 最大重试次数（不含首次请求）
+  retries: number
+  // 首次重试间隔（毫秒）
+  baseDelay: number
+  // 单次等待上限（毫秒），Retry-After 超过该值时放弃重试
+  maxDelay: number
+  // 退避倍数
+  factor: number
+  // 是否加入随机抖动，避免多个客户端同时重试
+  jitter: boolean
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  factor: 2,
+  jitter: true
+}
+
+/**
+ * 计算第 attempt 次重试（从 1 开始）前的等待时间
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * policy.factor ** (attempt - 1))
+  // full jitter：在 [delay / 2, delay] 之间取值
+  return policy.jitter ? Math.round(delay / 2 + (random() * delay) / 2) : delay
+}
+
+/**
+ * 可被中止的延时
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('请求已取消', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('请求已取消', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal
+  // 默认只重试 retryable 的 ApiError
+  shouldRetry?: (error: unknown) => boolean
+  onRetry?: (error: unknown, attempt: number, delay: number) => void
+}
+
+/**
+ * 按策略执行并在失败时重试
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { signal, shouldRetry = isRetryableError, onRetry } = options
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= policy.retries || isAbortError(error) || !shouldRetry(error)) {
+        throw error
+      }
+
+      // 服务端给出的 Retry-After 优先于指数退避
+      const retryAfter = error instanceof HttpError ? error.retryAfter : undefined
+      if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+        throw error
+      }
+      const delay = retryAfter ?? computeBackoff(attempt + 1, policy)
+
+      onRetry?.(error, attempt + 1, delay)
+      await sleep(delay, signal)
+    }
+  }
+}
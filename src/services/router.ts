@@ -0,0 +1,106 @@
+/**
+ * 地址对应的页面位置：/c/:conversationId#message-id 或 /archive/:archiveId#message-id
+ */
+export interface Route {
+  // 都未指定时为新对话
+  conversationId?: string
+  // 导入的只读会话
+  archiveId?: string
+  // 需要定位的消息
+  messageId?: string
+}
+
+// 应用的部署路径，以 / 结尾
+const BASE_PATH = import.meta.env.BASE_URL
+
+function decode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseLocation(): Route {
+  const { pathname, hash } = window.location
+  const path = pathname.startsWith(BASE_PATH) ? pathname.slice(BASE_PATH.length) : pathname
+  const match = /^(c|archive)\/([^/]+)\/?$/.exec(path)
+  const id = match ? decode(match[2]) : undefined
+  return {
+    conversationId: match?.[1] === 'c' ? id : undefined,
+    archiveId: match?.[1] === 'archive' ? id : undefined,
+    messageId: decode(hash.slice(1))
+  }
+}
+
+/**
+ * 生成页面内的地址（不含域名）
+ */
+export function formatRoute(route: Route): string {
+  const path = route.conversationId
+    ? `${BASE_PATH}c/${encodeURIComponent(route.conversationId)}`
+    : route.archiveId
+      ? `${BASE_PATH}archive/${encodeURIComponent(route.archiveId)}`
+      : BASE_PATH
+  return route.messageId ? `${path}#${encodeURIComponent(route.messageId)}` : path
+}
+
+/**
+ * 基于 History API 的路由，前进后退与修改 hash 时更新快照
+ */
+class Router {
+  private snapshot: Route
+  private listeners = new Set<() => void>()
+
+  constructor() {
+    this.snapshot = parseLocation()
+    window.addEventListener('popstate', () => this.sync())
+    window.addEventListener('hashchange', () => this.sync())
+  }
+
+  /**
+   * 跳转到指定位置，replace 时替换当前历史记录
+   */
+  navigate(route: Route, options: { replace?: boolean } = {}): void {
+    const url = formatRoute(route)
+    const { pathname, hash } = window.location
+    if (url === pathname + hash) return
+    if (options.replace) {
+      window.history.replaceState(null, '', url)
+    } else {
+      window.history.pushState(null, '', url)
+    }
+    this.sync()
+  }
+
+  /**
+   * 可分享的完整地址
+   */
+  getUrl(route: Route): string {
+    return new URL(formatRoute(route), window.location.origin).href
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = (): Route => this.snapshot
+
+  private sync(): void {
+    const next = parseLocation()
+    if (
+      next.conversationId === this.snapshot.conversationId &&
+      next.archiveId === this.snapshot.archiveId &&
+      next.messageId === this.snapshot.messageId
+    ) {
+      return
+    }
+    this.snapshot = next
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const router = new Router()
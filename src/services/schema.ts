@@ -0,0 +1,137 @@
+/**
+ * 轻量的运行时校验器，用于校验后端响应与 SSE 事件数据
+ *
+ * 校验器返回原始值（对象的多余字段会保留），不匹配时抛出 SchemaValidationError。
+ */
+export type Validator<T> = (value: unknown, path: string) => T
+
+export type Infer<V> = V extends Validator<infer T> ? T : never
+
+/**
+ * 校验失败，path 为出错字段的路径，如 'messages[0].content'
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: string
+  ) {
+    super(`${path || '(root)'}: expected ${expected}, received ${received}`)
+    this.name = 'SchemaValidationError'
+  }
+}
+
+/**
+ * 描述实际值的类型，用于错误提示
+ */
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') {
+    const preview = value.length > 20 ? `${value.slice(0, 20)}…` : value
+    return `string "${preview}"`
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`
+  return typeof value
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): () => Validator<T> {
+  return () => (value, path) => {
+    if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+      throw new SchemaValidationError(path, type, describeValue(value))
+    }
+    return value as T
+  }
+}
+
+export const string = primitive<string>('string')
+export const number = primitive<number>('number')
+export const boolean = primitive<boolean>('boolean')
+
+/**
+ * 不做校验
+ */
+export function unknown(): Validator<unknown> {
+  return (value) => value
+}
+
+/**
+ * 取值限定在给定的字面量中
+ */
+export function literal<const T extends readonly (string | number | boolean)[]>(
+  ...values: T
+): Validator<T[number]> {
+  return (value, path) => {
+    if (!values.includes(value as T[number])) {
+      const expected = values.map((item) => JSON.stringify(item)).join(' | ')
+      throw new SchemaValidationError(path, expected, describeValue(value))
+    }
+    return value as T[number]
+  }
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path))
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (value === null ? null : validator(value, path))
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaValidationError(path, 'array', describeValue(value))
+    }
+    value.forEach((element, index) => item(element, joinPath(path, index)))
+    return value as T[]
+  }
+}
+
+export function object<S extends Record<string, Validator<unknown>>>(
+  shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaValidationError(path, 'object', describeValue(value))
+    }
+    for (const [key, validator] of Object.entries(shape)) {
+      validator((value as Record<string, unknown>)[key], joinPath(path, key))
+    }
+    return value as { [K in keyof S]: Infer<S[K]> }
+  }
+}
+
+/**
+ * 按 key 字段的取值选择校验器，用于 { type: ... } 形式的联合类型
+ */
+export function variant<M extends Record<string, Validator<unknown>>>(
+  key: string,
+  variants: M
+): Validator<Infer<M[keyof M]>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaValidationError(path, 'object', describeValue(value))
+    }
+    const tag = (value as Record<string, unknown>)[key]
+    if (typeof tag !== 'string' || !Object.prototype.hasOwnProperty.call(variants, tag)) {
+      const expected = Object.keys(variants)
+        .map((item) => JSON.stringify(item))
+        .join(' | ')
+      throw new SchemaValidationError(joinPath(path, key), expected, describeValue(tag))
+    }
+    return variants[tag](value, path) as Infer<M[keyof M]>
+  }
+}
+
+/**
+ * 校验 value，path 为根路径（默认为空）
+ */
+export function validate<T>(validator: Validator<T>, value: unknown, path: string = ''): T {
+  return validator(value, path)
+}
@@ -0,0 +1,92 @@
+import type { XmlArtifactType } from '@/types/chat'
+import type { ConversationDetail, SearchResult } from './chatApi'
+import { createMessageParts, isContentPart } from './messageParts'
+
+// 最多返回的搜索结果数
+export const MAX_SEARCH_RESULTS = 50
+
+// 摘要保留命中位置前后的字符数
+const SNIPPET_BEFORE = 30
+const SNIPPET_AFTER = 90
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * 按空白拆分关键词，不区分大小写
+ */
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function createSnippet(content: string, position: number): string {
+  const start = Math.max(0, position - SNIPPET_BEFORE)
+  const end = Math.min(content.length, position + SNIPPET_AFTER)
+  const text = content.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${text}${end < content.length ? '…' : ''}`
+}
+
+/**
+ * 命中位置落在助手回复的 XML 片段中时返回其类型
+ */
+function findXmlType(content: string, position: number): XmlArtifactType | undefined {
+  const parts = createMessageParts(content, true).filter(isContentPart)
+  const part = parts.find(
+    (item, index) =>
+      position >= item.start && (index === parts.length - 1 || position < parts[index + 1].start)
+  )
+  return part?.type === 'xml' ? part.xmlType : undefined
+}
+
+/**
+ * 在会话详情中搜索包含全部关键词的消息，按时间倒序返回
+ *
+ * 后端的搜索接口与本地缓存搜索使用相同的匹配规则。
+ */
+export function searchConversationDetails(
+  details: ConversationDetail[],
+  query: string,
+  limit = MAX_SEARCH_RESULTS
+): SearchResult[] {
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return []
+
+  const results: SearchResult[] = []
+  for (const detail of details) {
+    detail.messages.forEach((msg, index) => {
+      const content = msg.content.toLowerCase()
+      if (!terms.every((term) => content.includes(term))) return
+      const position = content.indexOf(terms[0])
+      results.push({
+        conversation_id: detail.conversation_id,
+        conversation_title: detail.title,
+        message_id: msg.id ?? `${detail.conversation_id}-${index}`,
+        role: msg.role,
+        snippet: createSnippet(msg.content, position),
+        timestamp: msg.timestamp,
+        xml_type: msg.role === 'assistant' ? findXmlType(msg.content, position) : undefined
+      })
+    })
+  }
+  return results.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit)
+}
+
+/**
+ * 把文本切分为普通片段与命中关键词的片段，用于高亮显示
+ */
+export function splitHighlights(text: string, query: string): HighlightSegment[] {
+  const terms = getSearchTerms(query)
+  if (terms.length === 0) return [{ text, match: false }]
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  // 带捕获组的 split 结果中奇数位置为命中的关键词
+  return text
+    .split(pattern)
+    .map((segment, index) => ({ text: segment, match: index % 2 === 1 }))
+    .filter((segment) => segment.text)
+}
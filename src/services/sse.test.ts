@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import { SSEDecoder, createSSEDispatcher, readSSEStream } from './sse'
+import type { SSEMessage } from './sse'
+
+function decode(chunks: string[]): { messages: SSEMessage[]; decoder: SSEDecoder } {
+  const messages: SSEMessage[] = []
+  const decoder = new SSEDecoder((message) => messages.push(message))
+  chunks.forEach((chunk) => decoder.push(chunk))
+  return { messages, decoder }
+}
+
+function toStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+describe('SSEDecoder', () => {
+  it('支持 \\n、\\r\\n 与 \\r 换行', () => {
+    const { messages } = decode(['data: a\n\ndata: b\r\n\r\ndata: c\r\r'])
+    expect(messages.map((msg) => msg.data)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('\\r\\n 跨分块时不产生多余的空行', () => {
+    const { messages } = decode(['data: a\r', '\ndata: b\r', '\n\r', '\n'])
+    expect(messages).toHaveLength(1)
+    expect(messages[0].data).toBe('a\nb')
+  })
+
+  it('多行 data 以换行连接', () => {
+    const { messages } = decode(['data: 第一行\ndata: 第二行\ndata\n\n'])
+    expect(messages[0].data).toBe('第一行\n第二行\n')
+  })
+
+  it('只去掉冒号后的一个空格', () => {
+    const { messages } = decode(['data:  缩进\n\n'])
+    expect(messages[0].data).toBe(' 缩进')
+  })
+
+  it('id 在事件之间保持，retry 只接受数字', () => {
+    const { messages, decoder } = decode([
+      'id: 1\nretry: 3000\ndata: a\n\n',
+      'data: b\n\n',
+      'id\nretry: 1s\ndata: c\n\n'
+    ])
+    expect(messages.map((msg) => msg.id)).toEqual(['1', '1', ''])
+    expect(messages.map((msg) => msg.retry)).toEqual([3000, 3000, 3000])
+    expect(decoder.eventId).toBe('')
+    expect(decoder.retryInterval).toBe(3000)
+  })
+
+  it('忽略包含 NUL 的 id', () => {
+    const { messages } = decode(['id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n'])
+    expect(messages.map((msg) => msg.id)).toEqual(['1', '1'])
+  })
+
+  it('忽略 : 开头的注释心跳', () => {
+    const { messages } = decode([': ping\n\n', 'data: a\n: ping\n\n'])
+    expect(messages).toHaveLength(1)
+    expect(messages[0].data).toBe('a')
+  })
+
+  it('去掉开头的 BOM，后续分块中的 BOM 保留', () => {
+    const { messages } = decode(['\ufeffdata: a\n\n', 'data: \ufeffb\n\n'])
+    expect(messages.map((msg) => msg.data)).toEqual(['a', '\ufeffb'])
+  })
+
+  it('事件类型在多次 push 之间保持', () => {
+    const { messages } = decode(['event: con', 'tent\nda', 'ta: {"a":1}', '\n', '\n'])
+    expect(messages).toEqual([{ event: 'content', data: '{"a":1}', id: '', retry: undefined }])
+  })
+
+  it('未指定 event 时使用默认事件类型', () => {
+    const messages: SSEMessage[] = []
+    const decoder = new SSEDecoder((message) => messages.push(message), { defaultEvent: 'chunk' })
+    decoder.push('data: a\n\nevent: done\ndata: b\n\ndata: c\n\n')
+    expect(messages.map((msg) => msg.event)).toEqual(['chunk', 'done', 'chunk'])
+  })
+
+  it('没有 data 的事件不分发，且不影响下一个事件的类型', () => {
+    const { messages } = decode(['event: ping\n\ndata: a\n\n'])
+    expect(messages).toHaveLength(1)
+    expect(messages[0].event).toBe('message')
+  })
+
+  it('end 丢弃未以空行结尾的事件', () => {
+    const { messages, decoder } = decode(['event: content\ndata: a\n'])
+    decoder.end()
+    decoder.push('data: b\n\n')
+    expect(messages).toEqual([{ event: 'message', data: 'b', id: '', retry: undefined }])
+  })
+})
+
+describe('readSSEStream', () => {
+  it('按字节分块解码多字节字符', async () => {
+    const bytes = new TextEncoder().encode('id: 7\ndata: 你好\n\n')
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        bytes.forEach((byte) => controller.enqueue(new Uint8Array([byte])))
+        controller.close()
+      }
+    })
+    const messages: SSEMessage[] = []
+    const result = await readSSEStream(stream, (message) => {
+      messages.push(message)
+    })
+    expect(messages.map((msg) => msg.data)).toEqual(['你好'])
+    expect(result).toEqual({ stopped: false, lastEventId: '7', retry: undefined })
+  })
+
+  it('处理函数返回 true 时停止读取', async () => {
+    const messages: string[] = []
+    const result = await readSSEStream(
+      toStream(['data: a\n\ndata: b\n\n', 'data: c\n\n']),
+      (msg) => {
+        messages.push(msg.data)
+        return msg.data === 'a'
+      }
+    )
+    expect(messages).toEqual(['a'])
+    expect(result.stopped).toBe(true)
+  })
+
+  it('已中止时抛出 AbortError', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await expect(
+      readSSEStream(toStream(['data: a\n\n']), () => undefined, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('createSSEDispatcher', () => {
+  const message = (event: string, data: string): SSEMessage => ({ event, data, id: '' })
+
+  it('按事件类型解析 JSON 并分发', () => {
+    const contents: string[] = []
+    const dispatch = createSSEDispatcher({
+      data: (data) => {
+        contents.push(data.content)
+      }
+    })
+    dispatch(message('data', '{"content":"a"}'))
+    dispatch(message('unknown', 'not json'))
+    expect(contents).toEqual(['a'])
+  })
+
+  it('解析失败时调用 onParseError 并透传返回值', () => {
+    const errors: unknown[] = []
+    const dispatch = createSSEDispatcher({ data: () => undefined }, (error) => {
+      errors.push(error)
+      return true
+    })
+    expect(dispatch(message('data', '{'))).toBe(true)
+    expect(errors[0]).toBeInstanceOf(SyntaxError)
+  })
+})
@@ -0,0 +1,272 @@
+import type { SSEEventDataMap, SSEEventType } from '@/types/chat'
+import { validate } from './schema'
+import type { Validator } from './schema'
+
+/**
+ * 解码后的 SSE 事件
+ */
+export interface SSEMessage {
+  event: string
+  data: string
+  // 当前生效的 Last-Event-ID（按规范在事件间保持）
+  id: string
+  retry?: number
+}
+
+/**
+ * 处理单个 SSE 事件，返回 true 时停止读取流
+ */
+export type SSEMessageHandler = (message: SSEMessage) => void | boolean
+
+export interface SSEDecoderOptions {
+  // 未指定 event 字段时使用的事件类型，规范默认为 'message'
+  defaultEvent?: string
+}
+
+/**
+ * 符合 HTML 规范的 SSE 增量解码器
+ *
+ * 支持 \n / \r\n / \r 换行、多行 data、id / retry 字段以及 `:` 注释心跳，
+ * 事件类型和数据在多次 push 之间保持，不会因分块边界丢失。
+ */
+export class SSEDecoder {
+  private buffer = ''
+  private eventType = ''
+  private dataLines: string[] = []
+  private lastEventId = ''
+  private retry?: number
+  private skipNextLF = false
+  private isFirstChunk = true
+  private readonly defaultEvent: string
+
+  constructor(
+    private readonly onMessage: (message: SSEMessage) => void,
+    options: SSEDecoderOptions = {}
+  ) {
+    this.defaultEvent = options.defaultEvent ?? 'message'
+  }
+
+  /**
+   * 当前的 Last-Event-ID
+   */
+  get eventId(): string {
+    return this.lastEventId
+  }
+
+  /**
+   * 服务端通过 retry 字段建议的重连间隔（毫秒）
+   */
+  get retryInterval(): number | undefined {
+    return this.retry
+  }
+
+  /**
+   * 追加一段已解码的文本
+   */
+  push(chunk: string): void {
+    if (this.isFirstChunk && chunk.length > 0) {
+      this.isFirstChunk = false
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1)
+      }
+    }
+
+    this.buffer += chunk
+
+    let start = 0
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+
+      if (char === '\n' && this.skipNextLF) {
+        // \r\n 跨分块时跳过后半部分
+        this.skipNextLF = false
+        start = i + 1
+        continue
+      }
+      this.skipNextLF = false
+
+      if (char === '\r' || char === '\n') {
+        this.processLine(this.buffer.slice(start, i))
+        if (char === '\r') {
+          if (this.buffer[i + 1] === '\n') {
+            i++
+          } else if (i + 1 === this.buffer.length) {
+            this.skipNextLF = true
+          }
+        }
+        start = i + 1
+      }
+    }
+
+    this.buffer = this.buffer.slice(start)
+  }
+
+  /**
+   * 流结束时调用，按规范丢弃未以空行结尾的事件
+   */
+  end(): void {
+    this.buffer = ''
+    this.eventType = ''
+    this.dataLines = []
+    this.skipNextLF = false
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch()
+      return
+    }
+
+    // 注释行（常用于心跳）
+    if (line.startsWith(':')) return
+
+    const colonIndex = line.indexOf(':')
+    let field: string
+    let value: string
+    if (colonIndex === -1) {
+      field = line
+      value = ''
+    } else {
+      field = line.slice(0, colonIndex)
+      value = line.slice(colonIndex + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.dataLines.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10)
+        break
+      default:
+        // 未知字段按规范忽略
+        break
+    }
+  }
+
+  private dispatch(): void {
+    const eventType = this.eventType
+    const dataLines = this.dataLines
+    this.eventType = ''
+    this.dataLines = []
+
+    if (dataLines.length === 0) return
+
+    this.onMessage({
+      event: eventType || this.defaultEvent,
+      data: dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry
+    })
+  }
+}
+
+export interface ReadSSEStreamOptions extends SSEDecoderOptions {
+  signal?: AbortSignal
+}
+
+export interface SSEStreamResult {
+  // 是否由处理函数主动结束读取
+  stopped: boolean
+  lastEventId: string
+  retry?: number
+}
+
+/**
+ * 读取 SSE 响应流并逐个分发事件
+ */
+export async function readSSEStream(
+  stream: ReadableStream<Uint8Array>,
+  onMessage: SSEMessageHandler,
+  options: ReadSSEStreamOptions = {}
+): Promise<SSEStreamResult> {
+  const { signal, ...decoderOptions } = options
+  const reader = stream.getReader()
+  const textDecoder = new TextDecoder()
+
+  let stopped = false
+  const decoder = new SSEDecoder((message) => {
+    if (stopped) return
+    if (onMessage(message) === true) stopped = true
+  }, decoderOptions)
+
+  try {
+    while (!stopped) {
+      // 检查是否被中止
+      if (signal?.aborted) {
+        throw new DOMException('请求已取消', 'AbortError')
+      }
+
+      const { done, value } = await reader.read()
+
+      if (done) {
+        decoder.push(textDecoder.decode())
+        decoder.end()
+        break
+      }
+
+      decoder.push(textDecoder.decode(value, { stream: true }))
+    }
+
+    if (stopped) {
+      await reader.cancel().catch(() => undefined)
+    }
+
+    return { stopped, lastEventId: decoder.eventId, retry: decoder.retryInterval }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined)
+    throw error
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * 按 SSEEventType 分类的事件处理函数
+ */
+export type SSEEventHandlers = {
+  [K in SSEEventType]?: (data: SSEEventDataMap[K], message: SSEMessage) => void | boolean
+}
+
+/**
+ * 按 SSEEventType 分类的事件数据校验器
+ */
+export type SSEEventValidators = {
+  [K in SSEEventType]?: Validator<SSEEventDataMap[K]>
+}
+
+/**
+ * 创建类型化的事件分发器，data 字段按 JSON 解析并校验后交给对应处理函数
+ *
+ * 未知事件类型会被忽略；解析或校验失败时调用 onParseError，其返回 true 时停止读取流。
+ * 校验失败的路径以事件类型开头，如 'data.content'。
+ */
+export function createSSEDispatcher(
+  handlers: SSEEventHandlers,
+  onParseError?: (error: unknown, message: SSEMessage) => void | boolean,
+  validators: SSEEventValidators = {}
+): SSEMessageHandler {
+  return (message) => {
+    const type = message.event as SSEEventType
+    const handler = handlers[type] as
+      ((data: unknown, message: SSEMessage) => void | boolean) | undefined
+    if (!handler) return
+
+    let data: unknown
+    try {
+      data = JSON.parse(message.data)
+      const validator = validators[type] as Validator<unknown> | undefined
+      if (validator) validate(validator, data, type)
+    } catch (error) {
+      return onParseError?.(error, message)
+    }
+    return handler(data, message)
+  }
+}
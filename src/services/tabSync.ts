@@ -0,0 +1,95 @@
+import { createLogger } from './logger'
+import { createRequestId } from './middleware'
+
+const log = createLogger('tabs')
+
+const CHANNEL_NAME = 'auto-chat'
+
+// 当前标签页的 ID，用于区分消息来源与锁的持有者
+export const TAB_ID = createRequestId()
+
+/**
+ * 构建任务：构建与开发服务器都在后端项目上执行 mvn
+ */
+export interface BuildTask {
+  kind: 'build' | 'dev'
+  messageId: string
+  artifactId: string
+}
+
+/**
+ * 构建锁，同一时间只有一个标签页持有
+ */
+export interface BuildLock {
+  name: string
+  // 持有锁的标签页
+  tabId: string
+  task: BuildTask
+  // 当前进度，显示在其他标签页中
+  status: string
+}
+
+/**
+ * 标签页之间同步的消息
+ */
+export type TabMessage =
+  // 会话内容（消息、XML 处理进度、标题）已变化
+  | { type: 'conversation-changed'; profileId: string; conversationId: string }
+  // 会话列表（新建、重命名、删除、置顶）已变化
+  | { type: 'conversations-changed'; profileId: string }
+  // 离线消息队列（排队、认领、发送完成、丢弃）已变化，各标签页共用同一队列
+  | { type: 'outbox-changed'; profileId: string; conversationId: string }
+  // 新打开的标签页请求持有者公布当前的锁
+  | { type: 'hello' }
+  // 持有者公布锁的状态，同时作为心跳
+  | { type: 'lock-state'; lock: BuildLock }
+  | { type: 'lock-release'; name: string }
+  // 请求持有者停止任务（如停止开发服务器）
+  | { type: 'lock-stop'; name: string }
+
+type TabEnvelope = TabMessage & { from: string }
+
+/**
+ * 基于 BroadcastChannel 的标签页间消息，只发给同源的其他标签页
+ *
+ * 浏览器不支持 BroadcastChannel 时不同步，各标签页独立工作。
+ */
+class TabSync {
+  private channel: BroadcastChannel | null = null
+  private listeners = new Set<(message: TabMessage, from: string) => void>()
+
+  constructor() {
+    if (typeof BroadcastChannel === 'undefined') return
+    try {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (event: MessageEvent<TabEnvelope>) => {
+        const { from, ...message } = event.data
+        log.debug('收到', message.type, from)
+        this.listeners.forEach((listener) => listener(message as TabMessage, from))
+      }
+    } catch (error) {
+      log.warn('无法创建 BroadcastChannel，标签页之间不同步', error)
+    }
+  }
+
+  get enabled(): boolean {
+    return this.channel !== null
+  }
+
+  publish(message: TabMessage): void {
+    try {
+      this.channel?.postMessage({ ...message, from: TAB_ID })
+    } catch (error) {
+      log.warn('发送标签页消息失败', error)
+    }
+  }
+
+  subscribe(listener: (message: TabMessage, from: string) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+export const tabSync = new TabSync()
@@ -0,0 +1,205 @@
+import { StreamError } from './errors'
+import type { SSEMessage, SSEMessageHandler } from './sse'
+
+/**
+ * 聊天消息的传输方式
+ * - sse: POST 请求返回 text/event-stream
+ * - websocket: 通过 WebSocket 收发与 SSE 相同的聊天事件
+ * - polling: 非流式发送后轮询任务结果，不支持逐字输出
+ */
+export type ChatTransport = 'sse' | 'websocket' | 'polling'
+
+// auto 时按 sse → websocket → polling 依次尝试，并记住可用的方式
+export type ChatTransportSetting = 'auto' | ChatTransport
+
+export const CHAT_TRANSPORT_LABELS: Record<ChatTransportSetting, string> = {
+  auto: '自动',
+  sse: 'SSE',
+  websocket: 'WebSocket',
+  polling: '轮询（非流式）'
+}
+
+const CHAT_TRANSPORT_KEY = 'auto-chat:chat-transport'
+
+function isTransportSetting(value: unknown): value is ChatTransportSetting {
+  return typeof value === 'string' && value in CHAT_TRANSPORT_LABELS
+}
+
+/**
+ * 读取保存的传输方式设置，默认 auto
+ */
+export function getChatTransportSetting(): ChatTransportSetting {
+  try {
+    const value = localStorage.getItem(CHAT_TRANSPORT_KEY)
+    return isTransportSetting(value) ? value : 'auto'
+  } catch {
+    return 'auto'
+  }
+}
+
+export function setChatTransportSetting(setting: ChatTransportSetting): void {
+  try {
+    localStorage.setItem(CHAT_TRANSPORT_KEY, setting)
+  } catch {
+    // localStorage 不可用时忽略
+  }
+}
+
+/**
+ * 已建立的 WebSocket 连接
+ */
+export interface ChatSocket {
+  send(data: string): void
+  close(code?: number, reason?: string): void
+}
+
+export interface ChatSocketHandlers {
+  onOpen: () => void
+  onMessage: (data: string) => void
+  // 连接建立前失败时 opened 为 false
+  onClose: (event: { code: number; reason: string; opened: boolean }) => void
+}
+
+// 浏览器无法为 WebSocket 设置请求头，bearer 令牌作为 Sec-WebSocket-Protocol 中紧随其后的一项传递，
+// 服务端应答时选择该协议名。令牌不放在 URL 中，避免写入代理与服务端的访问日志
+export const SOCKET_AUTH_PROTOCOL = 'bearer'
+
+/**
+ * 建立 WebSocket 连接，模拟后端可替换为内存实现
+ */
+export type ChatSocketConnector = (
+  url: string,
+  handlers: ChatSocketHandlers,
+  protocols?: string[]
+) => ChatSocket
+
+/**
+ * 基于浏览器 WebSocket 的连接实现，浏览器会在 error 之后触发 close，只需处理 close
+ */
+export const browserSocketConnector: ChatSocketConnector = (url, handlers, protocols) => {
+  const socket = new WebSocket(url, protocols)
+  let opened = false
+  socket.onopen = () => {
+    opened = true
+    handlers.onOpen()
+  }
+  socket.onmessage = (event) => {
+    if (typeof event.data === 'string') handlers.onMessage(event.data)
+  }
+  socket.onclose = (event) => {
+    handlers.onClose({ code: event.code, reason: event.reason, opened })
+  }
+  return {
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason)
+  }
+}
+
+/**
+ * 将 WebSocket 帧转换为 SSE 事件
+ *
+ * 帧格式为 `{"event": "data", "data": {...}, "id": "..."}`，无法解析的帧按 data 事件原样交给分发器报错。
+ */
+export function decodeSocketFrame(raw: string): SSEMessage {
+  try {
+    const frame = JSON.parse(raw) as { event?: unknown; data?: unknown; id?: unknown }
+    return {
+      event: typeof frame.event === 'string' ? frame.event : 'data',
+      data: typeof frame.data === 'string' ? frame.data : JSON.stringify(frame.data ?? {}),
+      id: typeof frame.id === 'string' ? frame.id : ''
+    }
+  } catch {
+    return { event: 'data', data: raw, id: '' }
+  }
+}
+
+/**
+ * 建立连接、发送首帧并逐帧读取事件，onMessage 返回 true 时关闭连接并结束
+ *
+ * 连接未能建立时抛出 unsupported 的 StreamError，调用方可改用其他传输方式；
+ * 连接建立后意外关闭抛出可重试的 StreamError。
+ */
+export function readSocketStream(
+  connector: ChatSocketConnector,
+  url: string,
+  options: {
+    endpoint: string
+    payload: unknown
+    onMessage: SSEMessageHandler
+    protocols?: string[]
+    signal?: AbortSignal
+  }
+): Promise<void> {
+  const { endpoint, payload, onMessage, protocols, signal } = options
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('请求已取消', 'AbortError'))
+      return
+    }
+
+    let settled = false
+    const settle = (error?: unknown) => {
+      if (settled) return
+      settled = true
+      signal?.removeEventListener('abort', onAbort)
+      if (error) reject(error)
+      else resolve()
+    }
+
+    const onAbort = () => {
+      socket.close(1000, 'aborted')
+      settle(new DOMException('请求已取消', 'AbortError'))
+    }
+
+    let socket: ChatSocket
+    try {
+      socket = connector(
+        url,
+        {
+          onOpen: () => socket.send(JSON.stringify(payload)),
+          onMessage: (data) => {
+            if (settled) return
+            try {
+              if (onMessage(decodeSocketFrame(data)) === true) {
+                socket.close(1000)
+                settle()
+              }
+            } catch (error) {
+              socket.close(1011)
+              settle(error)
+            }
+          },
+          onClose: ({ code, reason, opened }) => {
+            if (!opened) {
+              settle(
+                new StreamError('无法建立 WebSocket 连接', {
+                  endpoint,
+                  unsupported: true,
+                  cause: reason
+                })
+              )
+              return
+            }
+            settle(
+              new StreamError(`连接意外中断（${code}）`, {
+                endpoint,
+                retryable: true,
+                cause: reason
+              })
+            )
+          }
+        },
+        protocols
+      )
+    } catch (error) {
+      // 浏览器不支持 WebSocket 或地址无效
+      settle(
+        new StreamError('无法建立 WebSocket 连接', { endpoint, unsupported: true, cause: error })
+      )
+      return
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,143 @@
+/**
+ * 上传进度回调，total 未知时为 0
+ */
+export type UploadProgressHandler = (loaded: number, total: number) => void
+
+/**
+ * 支持上传进度的请求实现，签名与 fetch 一致并额外接收进度回调
+ */
+export type UploadTransport = (
+  url: string,
+  init: RequestInit,
+  onProgress?: UploadProgressHandler
+) => Promise<Response>
+
+// 不允许携带响应体的状态码
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304])
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers()
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(':')
+    if (index <= 0) continue
+    headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim())
+  }
+  return headers
+}
+
+/**
+ * 基于 XMLHttpRequest 的上传实现（fetch 无法获取上传进度）
+ *
+ * 网络错误与取消分别以 TypeError 和 AbortError 抛出，与 fetch 行为保持一致。
+ */
+export const xhrUploadTransport: UploadTransport = (url, init, onProgress) => {
+  return new Promise((resolve, reject) => {
+    const { signal } = init
+    if (signal?.aborted) {
+      reject(new DOMException('请求已取消', 'AbortError'))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    xhr.open(init.method ?? 'GET', url)
+    xhr.responseType = 'blob'
+    xhr.withCredentials = init.credentials === 'include'
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value))
+
+    const onAbort = () => xhr.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const cleanup = () => signal?.removeEventListener('abort', onAbort)
+
+    xhr.upload.onprogress = (event) => {
+      onProgress?.(event.loaded, event.lengthComputable ? event.total : 0)
+    }
+    xhr.onload = () => {
+      cleanup()
+      resolve(
+        new Response(NULL_BODY_STATUS.has(xhr.status) ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders())
+        })
+      )
+    }
+    xhr.onerror = () => {
+      cleanup()
+      reject(new TypeError('Network request failed'))
+    }
+    xhr.onabort = () => {
+      cleanup()
+      reject(new DOMException('请求已取消', 'AbortError'))
+    }
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null)
+  })
+}
+
+/**
+ * 并发限制器：同时最多执行 limit 个任务，其余排队
+ */
+export function createConcurrencyLimiter(limit: number) {
+  let active = 0
+  const queue: Array<() => void> = []
+
+  const next = () => {
+    if (active >= limit) return
+    const start = queue.shift()
+    if (start) {
+      active++
+      start()
+    }
+  }
+
+  return function run<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--
+            next()
+          })
+      })
+      next()
+    })
+  }
+}
+
+// 分片上传会话的本地记录，用于页面刷新后续传
+const UPLOAD_SESSIONS_KEY = 'auto-chat:upload-sessions'
+
+/**
+ * 生成文件指纹，同一会话中同名、同大小、同修改时间的文件视为同一文件
+ */
+export function getFileFingerprint(conversationId: string, file: File): string {
+  return [conversationId, file.name, file.size, file.lastModified].join(':')
+}
+
+function readUploadSessions(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(UPLOAD_SESSIONS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 读取文件对应的未完成上传 ID
+ */
+export function loadUploadSession(fingerprint: string): string | undefined {
+  return readUploadSessions()[fingerprint]
+}
+
+export function saveUploadSession(fingerprint: string, uploadId: string): void {
+  const sessions = readUploadSessions()
+  sessions[fingerprint] = uploadId
+  localStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(sessions))
+}
+
+export function clearUploadSession(fingerprint: string): void {
+  const sessions = readUploadSessions()
+  delete sessions[fingerprint]
+  localStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(sessions))
+}
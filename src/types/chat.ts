@@ -1,3 +1,6 @@
+// 附件上传状态
+export type AttachmentUploadStatus = 'pending' | 'uploading' | 'done' | 'error'
+
 export interface Attachment {
   id: string
   name: string
@@ -5,12 +8,111 @@ export interface Attachment {
   type: string
   url?: string
   file?: File
+  // 上传相关
+  fileId?: string
+  uploadStatus?: AttachmentUploadStatus
+  uploadProgress?: number // 0 ~ 1
+  uploadError?: string
+}
+
+/**
+ * 未送达消息的状态（保存在离线消息队列中）
+ * - pending: 等待网络恢复后自动发送
+ * - sending: 正在发送
+ * - failed: 发送失败，网络恢复后自动重试，也可手动重试或丢弃
+ */
+export type MessageDeliveryStatus = 'pending' | 'sending' | 'failed'
+
+// 可构建的 XML 类型
+export type XmlArtifactType = 'orm' | 'config' | 'api'
+
+/**
+ * 消息片段：由 content 增量解析得到（文本、代码、XML），或由后续操作追加（构建日志、导出结果、工具调用）
+ *
+ * id 在消息内唯一，流式追加内容时已有片段的 id 保持不变，渲染与构建状态都以它为键。
+ */
+interface MessagePartBase {
+  id: string
+}
+
+// 由 content 解析出的片段，start 为其在 content 中的起始位置
+export interface TextPart extends MessagePartBase {
+  type: 'text'
+  start: number
+  text: string
+}
+
+export interface CodePart extends MessagePartBase {
+  type: 'code'
+  start: number
+  lang: string
+  code: string
+  // 流式接收中尚未出现结束标记时为 false
+  complete: boolean
+}
+
+// XML 片段的处理进度：已写入（合并到项目）、已构建
+export type XmlArtifactState = 'written' | 'built'
+
+export interface XmlArtifactPart extends MessagePartBase {
+  type: 'xml'
+  start: number
+  xmlType: XmlArtifactType
+  xml: string
+  complete: boolean
+  // 服务端记录的处理进度，未处理时为空
+  state?: XmlArtifactState
+}
+
+export interface BuildLogPart extends MessagePartBase {
+  type: 'build-log'
+  // 对应的 XML 片段 id
+  artifactId: string
+  // build = 构建阶段, dev = 开发服务器启动阶段
+  phase: 'build' | 'dev'
+  command: string
+  // null = 进行中
+  success: boolean | null
+  exitCode: number | null
+  output: string
+  error: string
+  // 耗时（秒）
+  executionTime: number
+  message: string
 }
 
+export interface ExportResultPart extends MessagePartBase {
+  type: 'export-result'
+  artifactId: string
+  success: boolean | null
+  message: string
+  log: string
+  outputName?: string
+}
+
+export interface ToolCallPart extends MessagePartBase {
+  type: 'tool-call'
+  // 服务端的调用 ID，用于关联调用结果
+  callId: string
+  name: string
+  arguments?: unknown
+  status: 'running' | 'success' | 'error'
+  result?: unknown
+  error?: string
+}
+
+export type ContentPart = TextPart | CodePart | XmlArtifactPart
+
+export type MessagePart = ContentPart | BuildLogPart | ExportResultPart | ToolCallPart
+
 export interface Message {
   id: string
   role: 'user' | 'assistant' | 'system'
+  // 对话分支中的上一条消息，null 为第一条消息；未提供时视为接在前一条消息之后
+  parentId?: string | null
   content: string
+  // content 的结构化片段，未提供时按 content 解析
+  parts?: MessagePart[]
   timestamp: number
   attachments?: Attachment[]
   loading?: boolean
@@ -18,6 +120,24 @@ export interface Message {
   // 思考模式相关
   thinkingContent?: string
   thinkingExpanded?: boolean
+  // 离线消息队列中的用户消息
+  deliveryStatus?: MessageDeliveryStatus
+  deliveryError?: string
+  // 本次回复的用量统计，由 usage 事件提供
+  usage?: MessageUsage
+  // 回复未生成完整的原因：用户停止生成或出错，可继续生成
+  truncated?: 'stopped' | 'error'
+  // 用户消息的 ID 是本地生成的临时 ID，取得服务端 ID 前不能作为重新生成的目标
+  temporaryId?: boolean
+}
+
+// 回复的 token 用量与耗时
+export interface MessageUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // 从发送到回复结束的耗时（毫秒），服务端未提供时由客户端计时
+  latency?: number
 }
 
 export interface ChatConfig {
@@ -27,11 +147,14 @@ export interface ChatConfig {
 }
 
 // SSE 事件类型
-export type SSEEventType = 'start' | 'data' | 'end' | 'error'
+export type SSEEventType =
+  'start' | 'data' | 'end' | 'error' | 'status' | 'usage' | 'title' | 'tool_call' | 'tool_result'
 
 // SSE 数据结构
 export interface SSEStartData {
   message_id: string
+  // 服务端为用户消息分配的 ID，用于替换本地临时 ID
+  user_message_id?: string
 }
 
 export interface SSEContentData {
@@ -47,16 +170,90 @@ export interface SSEErrorData {
   error: string
 }
 
+// 生成过程中的阶段提示，如“正在检索资料”
+export interface SSEStatusData {
+  message: string
+  stage?: string
+}
+
+export interface SSEUsageData {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens?: number
+  latency_ms?: number
+}
+
+// 服务端根据对话内容生成的会话标题
+export interface SSETitleData {
+  conversation_id?: string
+  title: string
+}
+
+export interface SSEToolCallData {
+  id: string
+  name: string
+  arguments?: unknown
+}
+
+export interface SSEToolResultData {
+  // 对应 tool_call 的 id
+  id: string
+  result?: unknown
+  error?: string
+}
+
+// 事件类型与数据结构的对应关系
+export interface SSEEventDataMap {
+  start: SSEStartData
+  data: SSEContentData
+  end: SSEEndData
+  error: SSEErrorData
+  status: SSEStatusData
+  usage: SSEUsageData
+  title: SSETitleData
+  tool_call: SSEToolCallData
+  tool_result: SSEToolResultData
+}
+
 // SSE 流式回调
 export interface SSECallbacks {
   onStart?: (data: SSEStartData) => void
   onChunk?: (chunk: string, thinking?: boolean) => void
   onEnd?: (data: SSEEndData) => void
   onError?: (error: string) => void
+  // 连接中断后等待 delay 毫秒再重连
+  onReconnecting?: (delay: number) => void
+  onReconnected?: () => void
+  onStatus?: (data: SSEStatusData) => void
+  onUsage?: (data: SSEUsageData) => void
+  onTitle?: (data: SSETitleData) => void
+  onToolCall?: (data: SSEToolCallData) => void
+  onToolResult?: (data: SSEToolResultData) => void
+}
+
+// 流式重连策略
+export interface StreamReconnectOptions {
+  maxRetries: number
+  // 首次重连间隔（毫秒），服务端 retry 字段优先
+  baseDelay: number
+  maxDelay: number
+}
+
+// 对已有消息的操作：regenerate 为用户消息重新生成回复，continue 续写被截断的回复
+export interface MessageAction {
+  type: 'regenerate' | 'continue'
+  // regenerate 时为用户消息 ID，continue 时为要续写的回复 ID
+  messageId: string
 }
 
 // 流式发送选项
 export interface StreamMessageOptions {
   signal?: AbortSignal
   callbacks: SSECallbacks
+  // 分支点：新消息接在哪条消息之后，null 表示作为第一条消息；未提供时由后端接在最后
+  parentId?: string | null
+  // 对已有消息的操作，此时不发送新的用户消息
+  action?: MessageAction
+  // false 表示禁用断线重连
+  reconnect?: Partial<StreamReconnectOptions> | false
 }